@@ -1,9 +1,18 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.4;
 
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/draft-EIP712.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+
 /// @author YeapCool
 /// @title A simple task list
-contract CryptoTodo {
+contract CryptoTodo is ReentrancyGuard, EIP712 {
+    using SafeERC20 for IERC20;
+
     struct Task {
         address owner;
         string text;
@@ -12,26 +21,124 @@ contract CryptoTodo {
         bool isRemoved;
     }
 
+    /// @dev Stake locked on completing a task on time, the zero token address is for ETH
+    struct Bounty {
+        address token;
+        uint256 amount;
+        bool isSettled;
+    }
+
+    /// @dev Link of an occurrence of a recurring task to the previous and the next ones
+    struct Recurrence {
+        uint32 period;
+        bool hasPrevious;
+        bool hasNext;
+        uint256 previousId;
+        uint256 nextId;
+    }
+
+    struct List {
+        address owner;
+        string name;
+    }
+
+    bytes32 private constant CREATE_TYPEHASH =
+        keccak256("Create(address signer,string text,uint32 expDate,uint256 nonce,uint256 deadline)");
+    bytes32 private constant TOGGLE_TYPEHASH =
+        keccak256("Toggle(address signer,uint256 id,uint256 nonce,uint256 deadline)");
+    bytes32 private constant SOFT_REMOVE_TYPEHASH =
+        keccak256("SoftRemove(address signer,uint256 id,uint256 nonce,uint256 deadline)");
+    bytes32 private constant RESTORE_TYPEHASH =
+        keccak256("Restore(address signer,uint256 id,uint256 nonce,uint256 deadline)");
+
+    // Receiver of forfeited bounties
+    address payable public immutable beneficiary;
+
     uint256 private totalTasks;
+    // Owners in the order of their first tasks
     address[] private _owners;
 
     mapping(uint256 => Task) private _tasks;
+    // Ids of each owner's tasks in the order of creation
+    mapping(address => uint256[]) private _ownerTaskIds;
+    // Number of each owner's tasks completed not later than the exp date
+    mapping(address => uint256) private _onTimeCounts;
+
+    // List ids start from 1, so 0 means a task is not in a list
+    uint256 private totalLists;
+    mapping(uint256 => List) private _lists;
+    mapping(uint256 => address[]) private _listMembers;
+    // Index of each member in `_listMembers` plus 1, 0 for non-members
+    mapping(uint256 => mapping(address => uint256)) private _memberIndexes;
+    // Ids of each list's tasks in the order of creation
+    mapping(uint256 => uint256[]) private _listTaskIds;
+    mapping(uint256 => uint256) private _taskLists;
+    mapping(uint256 => address) private _assignees;
+
+    mapping(uint256 => Bounty) private _bounties;
 
-    event TaskCreated(uint256 indexed id, string text, uint32 expDate);
+    // Number of used signatures of each signer
+    mapping(address => uint256) private _nonces;
+
+    mapping(uint256 => Recurrence) private _recurrences;
+
+    // Id of the parent of each subtask plus 1, 0 for top-level tasks
+    mapping(uint256 => uint256) private _parentIds;
+    mapping(uint256 => uint256[]) private _children;
+    // Ids of tasks which block each task until they are done
+    mapping(uint256 => uint256[]) private _dependencies;
+
+    event TaskCreated(uint256 indexed id, address indexed owner, string text, uint32 expDate);
     event TaskToggled(uint256 indexed id, bool isCompleted);
     event TaskRemoved(uint256 indexed id);
     event TaskRestored(uint256 indexed id);
+    event TaskTextEdited(uint256 indexed id, string text);
+    event TaskExpDateExtended(uint256 indexed id, uint32 expDate);
+    event ListCreated(uint256 indexed listId, address indexed owner, string name);
+    event ListMemberAdded(uint256 indexed listId, address indexed member);
+    event ListMemberRemoved(uint256 indexed listId, address indexed member);
+    event ListTaskCreated(uint256 indexed listId, uint256 indexed id);
+    event TaskAssigned(uint256 indexed id, address indexed assignee);
+    event SignatureUsed(address indexed signer, uint256 nonce);
+    event TaskRecurred(uint256 indexed id, uint256 indexed nextId, uint32 expDate);
+    event RecurrenceStopped(uint256 indexed id);
+    event SubtaskCreated(uint256 indexed parentId, uint256 indexed id);
+    event DependencyAdded(uint256 indexed id, uint256 indexed dependencyId);
+    event DependencyRemoved(uint256 indexed id, uint256 indexed dependencyId);
+    event BountyLocked(uint256 indexed id, address token, uint256 amount);
+    event BountyRefunded(uint256 indexed id, address indexed owner, uint256 amount);
+    event BountyForfeited(uint256 indexed id, address indexed beneficiary, uint256 amount);
 
-    constructor() {}
+    /// @param _beneficiary Payable address which receives forfeited bounties, e.g. MultiSigWallet
+    constructor(address payable _beneficiary) EIP712("CryptoTodo", "1") {
+        require(_beneficiary != address(0), "CryptoTodo: invalid beneficiary address");
+        beneficiary = _beneficiary;
+    }
 
     modifier onlyTaskOwner(uint256 _id) {
+        _checkTaskOwner(_id, msg.sender);
+        _;
+    }
+
+    /// @dev The assignee of a list task can act while it is a member of the list
+    modifier onlyTaskOwnerOrAssignee(uint256 _id) {
+        _checkTaskOwnerOrAssignee(_id, msg.sender);
+        _;
+    }
+
+    modifier onlyListOwner(uint256 _listId) {
         require(
-            _tasks[_id].owner == msg.sender,
-            "CryptoTodo: caller is not the owner of the task"
+            _lists[_listId].owner == msg.sender,
+            "CryptoTodo: caller is not the owner of the list"
         );
         _;
     }
 
+    modifier existList(uint256 _listId) {
+        require(_lists[_listId].owner != address(0), "CryptoTodo: there is no list with this id");
+        _;
+    }
+
     modifier existTask(uint256 _id) {
         require(_exists(_id), "CryptoTodo: there is no task with this id");
         _;
@@ -42,38 +149,729 @@ contract CryptoTodo {
     /// @param _expDate The date when the task will be considered expired
     /// @return ID of the new task
     function create(string memory _text, uint32 _expDate) external returns (uint256) {
+        return _create(msg.sender, _text, _expDate);
+    }
+
+    /// @notice Create a new recurring task, its next occurrence is spawned when it is done or expired
+    /// @param _text The description string
+    /// @param _expDate The date when the first occurrence will be considered expired
+    /// @param _period The time between exp dates of occurrences in seconds
+    /// @return ID of the new task
+    function createRecurring(
+        string memory _text,
+        uint32 _expDate,
+        uint32 _period
+    ) external returns (uint256) {
+        require(_period != 0, "CryptoTodo: the recurrence period is zero");
+        uint256 id = _create(msg.sender, _text, _expDate);
+        _recurrences[id].period = _period;
+        return id;
+    }
+
+    /// @notice Spawn the next occurrence of an expired recurring task, anyone can call it
+    /// @dev Done occurrences spawn the next ones on `toggle`
+    /// @param _id The id of a necessary task
+    /// @return ID of the next occurrence
+    function recur(uint256 _id) external existTask(_id) returns (uint256) {
+        require(_isExpired(_tasks[_id]), "CryptoTodo: the task has not expired");
+        return _recur(_id);
+    }
+
+    /// @notice Stop a recurring task, so no next occurrence is spawned after it
+    /// @dev The links to the previous occurrences are kept
+    /// @param _id The id of the last occurrence
+    function stopRecurring(uint256 _id) external existTask(_id) onlyTaskOwner(_id) {
+        Recurrence storage r = _recurrences[_id];
+        require(r.period != 0, "CryptoTodo: the task is not recurring");
+        require(!r.hasNext, "CryptoTodo: the next occurrence has already been spawned");
+        r.period = 0;
+
+        emit RecurrenceStopped(_id);
+    }
+
+    /// @notice Create a new subtask, the parent cannot be done until its non-removed subtasks are done
+    /// @param _parentId The id of a parent task
+    /// @param _text The description string
+    /// @param _expDate The date when the task will be considered expired
+    /// @return ID of the new task
+    function createSubtask(
+        uint256 _parentId,
+        string memory _text,
+        uint32 _expDate
+    ) external existTask(_parentId) onlyTaskOwner(_parentId) returns (uint256) {
+        require(_tasks[_parentId].doneDate == 0, "CryptoTodo: the parent task has already been completed");
+        uint256 id = _create(msg.sender, _text, _expDate);
+        _parentIds[id] = _parentId + 1;
+        _children[_parentId].push(id);
+
+        emit SubtaskCreated(_parentId, id);
+        return id;
+    }
+
+    /// @notice Make a task blocked until another task is done
+    /// @param _id The id of a necessary task
+    /// @param _dependencyId The id of a blocking task
+    function addDependency(uint256 _id, uint256 _dependencyId)
+        external
+        existTask(_id)
+        existTask(_dependencyId)
+        onlyTaskOwner(_id)
+    {
+        require(_id != _dependencyId, "CryptoTodo: the task cannot depend on itself");
+        require(!_contains(_dependencies[_id], _dependencyId), "CryptoTodo: the dependency already exists");
+        require(!_waitsFor(_dependencyId, _id), "CryptoTodo: the dependency makes a cycle");
+        _dependencies[_id].push(_dependencyId);
+
+        emit DependencyAdded(_id, _dependencyId);
+    }
+
+    /// @notice Remove a blocking dependency of a task
+    /// @param _id The id of a necessary task
+    /// @param _dependencyId The id of a blocking task
+    function removeDependency(uint256 _id, uint256 _dependencyId) external existTask(_id) onlyTaskOwner(_id) {
+        uint256[] storage deps = _dependencies[_id];
+        for (uint256 i = 0; i < deps.length; i++) {
+            if (deps[i] == _dependencyId) {
+                deps[i] = deps[deps.length - 1];
+                deps.pop();
+
+                emit DependencyRemoved(_id, _dependencyId);
+                return;
+            }
+        }
+        revert("CryptoTodo: there is no such dependency");
+    }
+
+    /// @notice Create a new task with a bounty, which is refunded if the task is completed on time
+    /// @param _text The description string
+    /// @param _expDate The date when the task will be considered expired
+    /// @param _token The address of ERC20 token of the bounty, the zero address for ETH
+    /// @param _amount The amount of the bounty in token units
+    /// @return ID of the new task
+    function createFunded(
+        string memory _text,
+        uint32 _expDate,
+        address _token,
+        uint256 _amount
+    ) external payable nonReentrant returns (uint256) {
+        require(_amount != 0, "CryptoTodo: the bounty is zero");
+        uint256 id = _create(msg.sender, _text, _expDate);
+        _bounties[id] = Bounty(_token, _amount, false);
+
+        if (_token == address(0)) {
+            require(msg.value == _amount, "CryptoTodo: invalid ETH for bounty");
+        } else {
+            require(msg.value == 0, "CryptoTodo: ETH is sent with a token bounty");
+            require(
+                IERC20(_token).allowance(msg.sender, address(this)) >= _amount,
+                "CryptoTodo: check the token allowance"
+            );
+            IERC20(_token).safeTransferFrom(msg.sender, address(this), _amount);
+        }
+
+        emit BountyLocked(id, _token, _amount);
+        return id;
+    }
+
+    /// @notice Refund the bounty of a task completed on time to its owner
+    /// @param _id The id of a necessary task
+    function claimBounty(uint256 _id) external nonReentrant existTask(_id) onlyTaskOwner(_id) {
+        Task storage t = _tasks[_id];
+        require(t.doneDate != 0 && t.doneDate <= t.expDate, "CryptoTodo: the task is not completed on time");
+        uint256 amount = _settleBounty(_id, t.owner);
+
+        emit BountyRefunded(_id, t.owner, amount);
+    }
+
+    /// @notice Send the bounty of an expired task to the beneficiary, anyone can call it
+    /// @param _id The id of a necessary task
+    function forfeitBounty(uint256 _id) external nonReentrant existTask(_id) {
+        require(_isExpired(_tasks[_id]), "CryptoTodo: the task has not expired");
+        uint256 amount = _settleBounty(_id, beneficiary);
+
+        emit BountyForfeited(_id, beneficiary, amount);
+    }
+
+    /// @notice Create new tasks in one transaction, all of them or none
+    /// @param _texts The description strings
+    /// @param _expDates The dates when the tasks will be considered expired
+    /// @return ids IDs of the new tasks
+    function createBatch(string[] calldata _texts, uint32[] calldata _expDates) external returns (uint256[] memory ids) {
+        require(_texts.length == _expDates.length, "CryptoTodo: the lengths of texts and exp dates differ");
+        ids = new uint256[](_texts.length);
+        for (uint256 i = 0; i < _texts.length; i++) {
+            bytes memory result = _batchCall(i, abi.encodeWithSelector(this.create.selector, _texts[i], _expDates[i]));
+            ids[i] = abi.decode(result, (uint256));
+        }
+    }
+
+    /// @notice Toggle tasks in one transaction, all of them or none
+    /// @param _ids The ids of necessary tasks
+    function toggleBatch(uint256[] calldata _ids) external {
+        for (uint256 i = 0; i < _ids.length; i++) {
+            _batchCall(i, abi.encodeWithSelector(this.toggle.selector, _ids[i]));
+        }
+    }
+
+    /// @notice Soft-remove tasks in one transaction, all of them or none
+    /// @param _ids The ids of necessary tasks
+    function removeBatch(uint256[] calldata _ids) external {
+        for (uint256 i = 0; i < _ids.length; i++) {
+            _batchCall(i, abi.encodeWithSelector(this.softRemove.selector, _ids[i]));
+        }
+    }
+
+    /// @notice Toggle a task between two states: finished (done) and unfinished
+    /// @param _id The id of a necessary task
+    function toggle(uint256 _id) external existTask(_id) onlyTaskOwnerOrAssignee(_id) {
+        _toggle(_id);
+    }
+
+    /// @notice Soft-remove a task without data deletion
+    /// @param _id The id of a necessary task
+    function softRemove(uint256 _id) external existTask(_id) onlyTaskOwner(_id) {
+        _softRemove(_id);
+    }
+
+    /// @notice Restore a soft-removed task
+    /// @param _id The id of a necessary task
+    function restore(uint256 _id) external existTask(_id) onlyTaskOwner(_id) {
+        _restore(_id);
+    }
+
+    /// @notice Create a new task of the signer, anyone can submit the signed request
+    /// @param _signer The owner of the new task, who has signed the request
+    /// @param _text The description string
+    /// @param _expDate The date when the task will be considered expired
+    /// @param _deadline The date after which the signature cannot be used
+    /// @param _signature EIP-712 signature of `Create` with the current nonce of the signer
+    /// @return ID of the new task
+    function createBySig(
+        address _signer,
+        string memory _text,
+        uint32 _expDate,
+        uint256 _deadline,
+        bytes memory _signature
+    ) external returns (uint256) {
+        bytes32 structHash = keccak256(
+            abi.encode(CREATE_TYPEHASH, _signer, keccak256(bytes(_text)), _expDate, _useNonce(_signer), _deadline)
+        );
+        _checkSignature(_signer, structHash, _deadline, _signature);
+        return _create(_signer, _text, _expDate);
+    }
+
+    /// @notice Toggle a task by the signed request of its owner or assignee, anyone can submit it
+    /// @param _signer The owner or the assignee of the task, who has signed the request
+    /// @param _id The id of a necessary task
+    /// @param _deadline The date after which the signature cannot be used
+    /// @param _signature EIP-712 signature of `Toggle` with the current nonce of the signer
+    function toggleBySig(
+        address _signer,
+        uint256 _id,
+        uint256 _deadline,
+        bytes memory _signature
+    ) external existTask(_id) {
+        _checkSignature(
+            _signer,
+            keccak256(abi.encode(TOGGLE_TYPEHASH, _signer, _id, _useNonce(_signer), _deadline)),
+            _deadline,
+            _signature
+        );
+        _checkTaskOwnerOrAssignee(_id, _signer);
+        _toggle(_id);
+    }
+
+    /// @notice Soft-remove a task by the signed request of its owner, anyone can submit it
+    /// @param _signer The owner of the task, who has signed the request
+    /// @param _id The id of a necessary task
+    /// @param _deadline The date after which the signature cannot be used
+    /// @param _signature EIP-712 signature of `SoftRemove` with the current nonce of the signer
+    function softRemoveBySig(
+        address _signer,
+        uint256 _id,
+        uint256 _deadline,
+        bytes memory _signature
+    ) external existTask(_id) {
+        _checkSignature(
+            _signer,
+            keccak256(abi.encode(SOFT_REMOVE_TYPEHASH, _signer, _id, _useNonce(_signer), _deadline)),
+            _deadline,
+            _signature
+        );
+        _checkTaskOwner(_id, _signer);
+        _softRemove(_id);
+    }
+
+    /// @notice Restore a soft-removed task by the signed request of its owner, anyone can submit it
+    /// @param _signer The owner of the task, who has signed the request
+    /// @param _id The id of a necessary task
+    /// @param _deadline The date after which the signature cannot be used
+    /// @param _signature EIP-712 signature of `Restore` with the current nonce of the signer
+    function restoreBySig(
+        address _signer,
+        uint256 _id,
+        uint256 _deadline,
+        bytes memory _signature
+    ) external existTask(_id) {
+        _checkSignature(
+            _signer,
+            keccak256(abi.encode(RESTORE_TYPEHASH, _signer, _id, _useNonce(_signer), _deadline)),
+            _deadline,
+            _signature
+        );
+        _checkTaskOwner(_id, _signer);
+        _restore(_id);
+    }
+
+    /// @notice Edit the description of a task
+    /// @param _id The id of a necessary task
+    /// @param _text The new description string
+    function editText(uint256 _id, string memory _text) external existTask(_id) onlyTaskOwner(_id) {
+        require(bytes(_text).length != 0, "CryptoTodo: the text of task is empty");
+        _tasks[_id].text = _text;
+
+        emit TaskTextEdited(_id, _text);
+    }
+
+    /// @notice Move the expiration date of a task later, only before the task has expired
+    /// @dev Tasks with a bounty keep their date, otherwise the owner could put off the forfeit forever
+    /// @param _id The id of a necessary task
+    /// @param _expDate The new date when the task will be considered expired
+    function extendExpDate(uint256 _id, uint32 _expDate) external existTask(_id) onlyTaskOwner(_id) {
+        Task storage t = _tasks[_id];
+        require(!_isExpired(t), "CryptoTodo: the task has already expired");
+        require(_bounties[_id].amount == 0, "CryptoTodo: the exp date of a task with a bounty cannot be extended");
+        require(
+            _expDate > t.expDate,
+            "CryptoTodo: the new exp date of task is not later than the current one"
+        );
+        t.expDate = _expDate;
+
+        emit TaskExpDateExtended(_id, _expDate);
+    }
+
+    /// @notice Create a new shared list, the caller becomes its owner
+    /// @param _name The name of the list
+    /// @return ID of the new list
+    function createList(string memory _name) external returns (uint256) {
+        require(bytes(_name).length != 0, "CryptoTodo: the name of list is empty");
+        totalLists++;
+        _lists[totalLists] = List(msg.sender, _name);
+
+        emit ListCreated(totalLists, msg.sender, _name);
+        return totalLists;
+    }
+
+    /// @notice Add a member to the list
+    /// @param _listId The id of a necessary list
+    /// @param _member The address of a new member
+    function addMember(uint256 _listId, address _member) external existList(_listId) onlyListOwner(_listId) {
+        require(_member != address(0), "CryptoTodo: the member is the zero address");
+        require(_memberIndexes[_listId][_member] == 0, "CryptoTodo: the address is already a member of the list");
+        _listMembers[_listId].push(_member);
+        _memberIndexes[_listId][_member] = _listMembers[_listId].length;
+
+        emit ListMemberAdded(_listId, _member);
+    }
+
+    /// @notice Remove a member from the list
+    /// @dev Tasks stay assigned to the removed member, but it cannot toggle them until it is added again
+    /// @param _listId The id of a necessary list
+    /// @param _member The address of a member
+    function removeMember(uint256 _listId, address _member) external existList(_listId) onlyListOwner(_listId) {
+        uint256 index = _memberIndexes[_listId][_member];
+        require(index != 0, "CryptoTodo: the address is not a member of the list");
+
+        // Move the last member to the place of the removed one
+        address[] storage members = _listMembers[_listId];
+        address last = members[members.length - 1];
+        members[index - 1] = last;
+        _memberIndexes[_listId][last] = index;
+        members.pop();
+        delete _memberIndexes[_listId][_member];
+
+        emit ListMemberRemoved(_listId, _member);
+    }
+
+    /// @notice Create a new task in the list, the list owner becomes the owner of the task
+    /// @param _listId The id of a necessary list
+    /// @param _text The description string
+    /// @param _expDate The date when the task will be considered expired
+    /// @return ID of the new task
+    function createInList(
+        uint256 _listId,
+        string memory _text,
+        uint32 _expDate
+    ) external existList(_listId) onlyListOwner(_listId) returns (uint256) {
+        uint256 id = _create(msg.sender, _text, _expDate);
+        _taskLists[id] = _listId;
+        _listTaskIds[_listId].push(id);
+
+        emit ListTaskCreated(_listId, id);
+        return id;
+    }
+
+    /// @notice Assign a list task to a member of the list, who is then allowed to toggle it
+    /// @param _id The id of a necessary task
+    /// @param _assignee The address of a member, the zero address to unassign the task
+    function assign(uint256 _id, address _assignee) external existTask(_id) onlyTaskOwner(_id) {
+        uint256 listId = _taskLists[_id];
+        require(listId != 0, "CryptoTodo: the task is not in a list");
+        require(
+            _assignee == address(0) || _memberIndexes[listId][_assignee] != 0,
+            "CryptoTodo: the assignee is not a member of the list"
+        );
+        _assignees[_id] = _assignee;
+
+        emit TaskAssigned(_id, _assignee);
+    }
+
+    /// @notice Get the nonce of the next signed request of the signer
+    /// @param _signer The address of a signer
+    /// @return The current nonce
+    function nonces(address _signer) external view returns (uint256) {
+        return _nonces[_signer];
+    }
+
+    /// @notice Get a task data
+    /// @param _id The id of a necessary task
+    /// @return Task data
+    /// @return Bool variable is the task expired
+    function task(uint256 _id) external view existTask(_id) returns (Task memory, bool) {
+        Task storage t = _tasks[_id];
+        return (t, _isExpired(t));
+    }
+
+    /// @notice Get the bounty of a task
+    /// @param _id The id of a necessary task
+    /// @return Bounty data, the zero amount if the task has no bounty
+    function bounty(uint256 _id) external view existTask(_id) returns (Bounty memory) {
+        return _bounties[_id];
+    }
+
+    /// @notice Get the links of an occurrence of a recurring task
+    /// @param _id The id of a necessary task
+    /// @return Recurrence data, the zero period if the task is not recurring
+    function recurrence(uint256 _id) external view existTask(_id) returns (Recurrence memory) {
+        return _recurrences[_id];
+    }
+
+    /// @notice Get the parent, subtasks and blocking dependencies of a task
+    /// @param _id The id of a necessary task
+    /// @return hasParent Bool variable is the task a subtask
+    /// @return parentId The id of the parent task, 0 for top-level tasks
+    /// @return children IDs of subtasks
+    /// @return dependencies IDs of blocking tasks
+    function links(uint256 _id)
+        external
+        view
+        existTask(_id)
+        returns (
+            bool hasParent,
+            uint256 parentId,
+            uint256[] memory children,
+            uint256[] memory dependencies
+        )
+    {
+        uint256 parent = _parentIds[_id];
+        return (parent != 0, parent == 0 ? 0 : parent - 1, _children[_id], _dependencies[_id]);
+    }
+
+    /// @notice Get a list data
+    /// @param _listId The id of a necessary list
+    /// @return owner The owner of the list
+    /// @return name The name of the list
+    /// @return members Members of the list
+    function list(uint256 _listId)
+        external
+        view
+        existList(_listId)
+        returns (
+            address owner,
+            string memory name,
+            address[] memory members
+        )
+    {
+        List storage l = _lists[_listId];
+        return (l.owner, l.name, _listMembers[_listId]);
+    }
+
+    /// @notice Get the list and the assignee of a task
+    /// @param _id The id of a necessary task
+    /// @return listId The id of the list, 0 if the task is not in a list
+    /// @return assignee The assignee of the task, the zero address if it is not assigned
+    function assignment(uint256 _id) external view existTask(_id) returns (uint256 listId, address assignee) {
+        return (_taskLists[_id], _assignees[_id]);
+    }
+
+    /// @notice Check the address is a member of the list
+    /// @param _listId The id of a necessary list
+    /// @param _member The address to check
+    /// @return Bool variable is the address a member
+    function isMember(uint256 _listId, address _member) external view existList(_listId) returns (bool) {
+        return _memberIndexes[_listId][_member] != 0;
+    }
+
+    /// @notice Get all the tasks of the list with some filters
+    /// @param _listId The id of a necessary list
+    /// @param _withExpired The filter for returning expired tasks (true - return)
+    /// @param _withRemoved The filter for returning soft-removed tasks (true - return)
+    /// @return Task data
+    /// @return IDs of tasks
+    /// @return Bool array is each task expired
+    function listTasks(
+        uint256 _listId,
+        bool _withExpired,
+        bool _withRemoved
+    )
+        external
+        view
+        existList(_listId)
+        returns (
+            Task[] memory,
+            uint256[] memory,
+            bool[] memory
+        )
+    {
+        uint256[] storage taskIds = _listTaskIds[_listId];
+        (Task[] memory ts, uint256[] memory ids, bool[] memory isExpiredArr, ) = _filterTasks(
+            taskIds,
+            0,
+            taskIds.length,
+            _withExpired,
+            _withRemoved
+        );
+        return (ts, ids, isExpiredArr);
+    }
+
+    /// @notice Get all the owner's personal tasks with some filters
+    /// @param _withExpired The filter for returning expired tasks (true - return)
+    /// @param _withRemoved The filter for returning soft-removed tasks (true - return)
+    /// @return Task data
+    /// @return IDs of tasks
+    /// @return Bool array is each task expired
+    function personalTasks(bool _withExpired, bool _withRemoved)
+        external
+        view
+        returns (
+            Task[] memory,
+            uint256[] memory,
+            bool[] memory
+        )
+    {
+        (Task[] memory ts, uint256[] memory ids, bool[] memory isExpiredArr, ) = _personalTasks(
+            msg.sender,
+            0,
+            _ownerTaskIds[msg.sender].length,
+            _withExpired,
+            _withRemoved
+        );
+        return (ts, ids, isExpiredArr);
+    }
+
+    /// @notice Get a page of the owner's personal tasks with some filters
+    /// @dev The page is taken from all the owner's tasks before filtering, so it can have less than `_limit` tasks
+    /// @param _offset The number of the owner's tasks to skip
+    /// @param _limit The max number of the owner's tasks to check
+    /// @param _withExpired The filter for returning expired tasks (true - return)
+    /// @param _withRemoved The filter for returning soft-removed tasks (true - return)
+    /// @return Task data
+    /// @return IDs of tasks
+    /// @return Bool array is each task expired
+    /// @return Offset of the next page, it equals the number of the owner's tasks after the last page
+    function personalTasksPaged(
+        uint256 _offset,
+        uint256 _limit,
+        bool _withExpired,
+        bool _withRemoved
+    )
+        external
+        view
+        returns (
+            Task[] memory,
+            uint256[] memory,
+            bool[] memory,
+            uint256
+        )
+    {
+        return _personalTasks(msg.sender, _offset, _limit, _withExpired, _withRemoved);
+    }
+
+    /// @notice Get all the tasks of any owner with some filters
+    /// @param _owner The address of a necessary owner
+    /// @param _withExpired The filter for returning expired tasks (true - return)
+    /// @param _withRemoved The filter for returning soft-removed tasks (true - return)
+    /// @return Task data
+    /// @return IDs of tasks
+    /// @return Bool array is each task expired
+    function tasksOf(
+        address _owner,
+        bool _withExpired,
+        bool _withRemoved
+    )
+        external
+        view
+        returns (
+            Task[] memory,
+            uint256[] memory,
+            bool[] memory
+        )
+    {
+        (Task[] memory ts, uint256[] memory ids, bool[] memory isExpiredArr, ) = _personalTasks(
+            _owner,
+            0,
+            _ownerTaskIds[_owner].length,
+            _withExpired,
+            _withRemoved
+        );
+        return (ts, ids, isExpiredArr);
+    }
+
+    /// @notice Get a page of the tasks of any owner with some filters
+    /// @dev The page is taken from all the owner's tasks before filtering, so it can have less than `_limit` tasks
+    /// @param _owner The address of a necessary owner
+    /// @param _offset The number of the owner's tasks to skip
+    /// @param _limit The max number of the owner's tasks to check
+    /// @param _withExpired The filter for returning expired tasks (true - return)
+    /// @param _withRemoved The filter for returning soft-removed tasks (true - return)
+    /// @return Task data
+    /// @return IDs of tasks
+    /// @return Bool array is each task expired
+    /// @return Offset of the next page, it equals the number of the owner's tasks after the last page
+    function tasksOfPaged(
+        address _owner,
+        uint256 _offset,
+        uint256 _limit,
+        bool _withExpired,
+        bool _withRemoved
+    )
+        external
+        view
+        returns (
+            Task[] memory,
+            uint256[] memory,
+            bool[] memory,
+            uint256
+        )
+    {
+        return _personalTasks(_owner, _offset, _limit, _withExpired, _withRemoved);
+    }
+
+    /// @notice Get the number of created and on-time completed tasks of the owner
+    /// @param _owner The address of a necessary owner
+    /// @return created Number of created tasks
+    /// @return completedOnTime Number of tasks completed not later than the exp date
+    function personalStats(address _owner) external view returns (uint256 created, uint256 completedOnTime) {
+        return (_ownerTaskIds[_owner].length, _onTimeCounts[_owner]);
+    }
+
+    /// @notice Get the number of owners who have created tasks
+    /// @return Number of owners
+    function totalOwners() external view returns (uint256) {
+        return _owners.length;
+    }
+
+    /// @notice Get percentage of on-time completed tasks for each owner
+    /// @return Address array with each owner
+    /// @return Percentage array of on-time completed tasks for each owner
+    function onTimeTaskPercents() external view returns (address[] memory, uint256[] memory) {
+        return _onTimeTaskPercents(0, _owners.length);
+    }
+
+    /// @notice Get a page of percentage of on-time completed tasks for each owner
+    /// @param _offset The number of owners to skip
+    /// @param _limit The max number of owners to return
+    /// @return Address array with each owner
+    /// @return Percentage array of on-time completed tasks for each owner
+    function onTimeTaskPercentsPaged(uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (address[] memory, uint256[] memory)
+    {
+        return _onTimeTaskPercents(_offset, _limit);
+    }
+
+    /// @notice Create a new task of the owner
+    /// @param _owner The owner of the task
+    /// @param _text The description string
+    /// @param _expDate The date when the task will be considered expired
+    /// @return ID of the new task
+    function _create(
+        address _owner,
+        string memory _text,
+        uint32 _expDate
+    ) internal returns (uint256) {
         require(bytes(_text).length != 0, "CryptoTodo: the text of task is empty");
         require(
             _expDate > block.timestamp,
             "CryptoTodo: the exp date of task is not in the future"
         );
-        address owner = msg.sender;
         uint256 newId = totalTasks;
-        _tasks[newId] = Task(owner, _text, _expDate, 0, false);
+        _tasks[newId] = Task(_owner, _text, _expDate, 0, false);
         totalTasks++;
 
-        emit TaskCreated(newId, _text, _expDate);
+        if (_ownerTaskIds[_owner].length == 0) {
+            _owners.push(_owner);
+        }
+        _ownerTaskIds[_owner].push(newId);
+
+        emit TaskCreated(newId, _owner, _text, _expDate);
         return newId;
     }
 
+    /// @notice Call a function of the contract for an item of a batch with the same sender
+    /// @dev Reverts of the item are bubbled up with its index: "CryptoTodo: batch item <index> failed: <reason>"
+    /// @param _index The index of the item in the batch
+    /// @param _data The encoded call
+    /// @return Returned data of the call
+    function _batchCall(uint256 _index, bytes memory _data) private returns (bytes memory) {
+        (bool success, bytes memory result) = address(this).delegatecall(_data);
+        if (success) {
+            return result;
+        }
+
+        string memory reason = "unknown";
+        // Error(string) is the selector and the ABI-encoded string
+        if (result.length >= 68) {
+            assembly {
+                result := add(result, 0x04)
+            }
+            reason = abi.decode(result, (string));
+        }
+        revert(string(abi.encodePacked("CryptoTodo: batch item ", Strings.toString(_index), " failed: ", reason)));
+    }
+
     /// @notice Toggle a task between two states: finished (done) and unfinished
-    /// @param _id The id of a necessary task
-    function toggle(uint256 _id) external existTask(_id) onlyTaskOwner(_id) {
+    /// @param _id The id of a task
+    function _toggle(uint256 _id) private {
         Task storage t = _tasks[_id];
         bool isCompleted = false;
         if (t.doneDate == 0) {
+            _checkUnblocked(_id);
             isCompleted = true;
             t.doneDate = uint32(block.timestamp);
+            if (t.doneDate <= t.expDate) {
+                _onTimeCounts[t.owner]++;
+            }
         } else {
+            if (t.doneDate <= t.expDate) {
+                _onTimeCounts[t.owner]--;
+            }
             t.doneDate = 0;
         }
 
         emit TaskToggled(_id, isCompleted);
+
+        // Removed occurrences do not spawn the next ones
+        Recurrence storage r = _recurrences[_id];
+        if (isCompleted && r.period != 0 && !r.hasNext && !t.isRemoved) {
+            _recur(_id);
+        }
     }
 
     /// @notice Soft-remove a task without data deletion
-    /// @param _id The id of a necessary task
-    function softRemove(uint256 _id) external existTask(_id) onlyTaskOwner(_id) {
+    /// @param _id The id of a task
+    function _softRemove(uint256 _id) private {
         Task storage t = _tasks[_id];
         require(!t.isRemoved, "CryptoTodo: the task has already been removed");
         t.isRemoved = true;
@@ -82,8 +880,8 @@ contract CryptoTodo {
     }
 
     /// @notice Restore a soft-removed task
-    /// @param _id The id of a necessary task
-    function restore(uint256 _id) external existTask(_id) onlyTaskOwner(_id) {
+    /// @param _id The id of a task
+    function _restore(uint256 _id) private {
         Task storage t = _tasks[_id];
         require(t.isRemoved, "CryptoTodo: the task was not deleted");
         t.isRemoved = false;
@@ -91,39 +889,191 @@ contract CryptoTodo {
         emit TaskRestored(_id);
     }
 
-    /// @notice Get a task data
-    /// @param _id The id of a necessary task
-    /// @return Task data
-    /// @return Bool variable is the task expired
-    function task(uint256 _id) external view existTask(_id) returns (Task memory, bool) {
+    /// @notice Check the account is the owner of the task
+    function _checkTaskOwner(uint256 _id, address _account) private view {
+        require(_tasks[_id].owner == _account, "CryptoTodo: caller is not the owner of the task");
+    }
+
+    /// @notice Check the account is the owner or the assignee of the task
+    function _checkTaskOwnerOrAssignee(uint256 _id, address _account) private view {
+        require(
+            _tasks[_id].owner == _account || _isAssignee(_id, _account),
+            "CryptoTodo: caller is not the owner or the assignee of the task"
+        );
+    }
+
+    /// @notice Use the current nonce of the signer
+    /// @param _signer The address of a signer
+    /// @return The nonce before the increment
+    function _useNonce(address _signer) private returns (uint256) {
+        uint256 nonce = _nonces[_signer]++;
+        emit SignatureUsed(_signer, nonce);
+        return nonce;
+    }
+
+    /// @notice Check the signature of the request is not expired and is made by the signer
+    /// @param _signer The address of an expected signer
+    /// @param _structHash EIP-712 hash of the request
+    /// @param _deadline The date after which the signature cannot be used
+    /// @param _signature EIP-712 signature of the request
+    function _checkSignature(
+        address _signer,
+        bytes32 _structHash,
+        uint256 _deadline,
+        bytes memory _signature
+    ) private view {
+        require(block.timestamp <= _deadline, "CryptoTodo: the signature has expired");
+        require(
+            ECDSA.recover(_hashTypedDataV4(_structHash), _signature) == _signer,
+            "CryptoTodo: invalid signature"
+        );
+    }
+
+    /// @notice Check all the non-removed subtasks and dependencies of a task are done
+    /// @param _id The id of a task
+    function _checkUnblocked(uint256 _id) private view {
+        uint256[] storage children = _children[_id];
+        for (uint256 i = 0; i < children.length; i++) {
+            Task storage child = _tasks[children[i]];
+            require(child.isRemoved || child.doneDate != 0, "CryptoTodo: the task has uncompleted subtasks");
+        }
+
+        uint256[] storage deps = _dependencies[_id];
+        for (uint256 i = 0; i < deps.length; i++) {
+            Task storage dep = _tasks[deps[i]];
+            require(dep.isRemoved || dep.doneDate != 0, "CryptoTodo: the task is blocked by an uncompleted dependency");
+        }
+    }
+
+    /// @notice Check a task waits for another one through its subtasks and dependencies
+    /// @param _id The id of a waiting task
+    /// @param _target The id of a task to look for
+    /// @return Bool variable is the target reachable
+    function _waitsFor(uint256 _id, uint256 _target) private view returns (bool) {
+        if (_id == _target) {
+            return true;
+        }
+
+        uint256[] storage children = _children[_id];
+        for (uint256 i = 0; i < children.length; i++) {
+            if (_waitsFor(children[i], _target)) {
+                return true;
+            }
+        }
+
+        uint256[] storage deps = _dependencies[_id];
+        for (uint256 i = 0; i < deps.length; i++) {
+            if (_waitsFor(deps[i], _target)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /// @notice Check the array has the value
+    function _contains(uint256[] storage _values, uint256 _value) private view returns (bool) {
+        for (uint256 i = 0; i < _values.length; i++) {
+            if (_values[i] == _value) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /// @notice Spawn the next occurrence of a recurring task
+    /// @dev The exp date is shifted by whole periods until it is in the future
+    /// @param _id The id of a task
+    /// @return ID of the next occurrence
+    function _recur(uint256 _id) private returns (uint256) {
+        Recurrence storage r = _recurrences[_id];
+        require(r.period != 0, "CryptoTodo: the task is not recurring");
+        require(!r.hasNext, "CryptoTodo: the next occurrence has already been spawned");
+
         Task storage t = _tasks[_id];
-        return (t, _isExpired(t));
+        require(!t.isRemoved, "CryptoTodo: the task has already been removed");
+        uint256 expDate = uint256(t.expDate) + r.period;
+        if (expDate <= block.timestamp) {
+            expDate += ((block.timestamp - expDate) / r.period + 1) * r.period;
+        }
+        require(expDate <= type(uint32).max, "CryptoTodo: the exp date of task is too late");
+
+        uint256 nextId = _create(t.owner, t.text, uint32(expDate));
+        r.hasNext = true;
+        r.nextId = nextId;
+        _recurrences[nextId] = Recurrence(r.period, true, false, _id, 0);
+
+        emit TaskRecurred(_id, nextId, uint32(expDate));
+        return nextId;
     }
 
-    /// @notice Get all the owner's personal tasks with some filters
-    /// @param _withExpired The filter for returning expired tasks (true - return)
-    /// @param _withRemoved The filter for returning soft-removed tasks (true - return)
-    /// @return Task data
-    /// @return IDs of tasks
-    /// @return Bool array is each task expired
-    function personalTasks(bool _withExpired, bool _withRemoved)
-        external
+    /// @notice Mark the bounty of a task as settled and send it
+    /// @param _id The id of a task
+    /// @param _to The receiver of the bounty
+    /// @return The amount of the bounty
+    function _settleBounty(uint256 _id, address _to) private returns (uint256) {
+        Bounty storage b = _bounties[_id];
+        require(b.amount != 0, "CryptoTodo: the task has no bounty");
+        require(!b.isSettled, "CryptoTodo: the bounty has already been settled");
+        b.isSettled = true;
+
+        if (b.token == address(0)) {
+            (bool sent, ) = _to.call{value: b.amount}("");
+            require(sent, "CryptoTodo: failed to send Ether");
+        } else {
+            IERC20(b.token).safeTransfer(_to, b.amount);
+        }
+        return b.amount;
+    }
+
+    /// @notice Get the owner's tasks from the index range with some filters
+    function _personalTasks(
+        address _owner,
+        uint256 _offset,
+        uint256 _limit,
+        bool _withExpired,
+        bool _withRemoved
+    )
+        private
         view
         returns (
             Task[] memory,
             uint256[] memory,
-            bool[] memory
+            bool[] memory,
+            uint256
         )
     {
-        uint256 counter = 0;
+        return _filterTasks(_ownerTaskIds[_owner], _offset, _limit, _withExpired, _withRemoved);
+    }
+
+    /// @notice Get the tasks from the index range of the id array with some filters
+    function _filterTasks(
+        uint256[] storage _ids,
+        uint256 _offset,
+        uint256 _limit,
+        bool _withExpired,
+        bool _withRemoved
+    )
+        private
+        view
+        returns (
+            Task[] memory,
+            uint256[] memory,
+            bool[] memory,
+            uint256
+        )
+    {
+        uint256 end = _ids.length;
+        if (_offset > end) {
+            _offset = end;
+        }
+        if (_limit < end - _offset) {
+            end = _offset + _limit;
+        }
 
-        for (uint256 i = 0; i < totalTasks; i++) {
-            Task storage t = _tasks[i];
-            if (
-                t.owner == msg.sender &&
-                (_withRemoved || !t.isRemoved) &&
-                (_withExpired || !_isExpired(t))
-            ) {
+        uint256 counter = 0;
+        for (uint256 i = _offset; i < end; i++) {
+            Task storage t = _tasks[_ids[i]];
+            if (_isFiltered(t, _withExpired, _withRemoved)) {
                 counter++;
             }
         }
@@ -133,74 +1083,40 @@ contract CryptoTodo {
         bool[] memory isExpiredArr = new bool[](counter);
         counter = 0;
 
-        for (uint256 i = 0; i < totalTasks; i++) {
-            Task storage t = _tasks[i];
-            if (
-                t.owner == msg.sender &&
-                (_withRemoved || !t.isRemoved) &&
-                (_withExpired || !_isExpired(t))
-            ) {
-                ts[counter] = t;
-                ids[counter] = i;
-                isExpiredArr[counter] = _isExpired(t);
+        for (uint256 i = _offset; i < end; i++) {
+            uint256 id = _ids[i];
+            if (_isFiltered(_tasks[id], _withExpired, _withRemoved)) {
+                ts[counter] = _tasks[id];
+                ids[counter] = id;
+                isExpiredArr[counter] = _isExpired(_tasks[id]);
                 counter++;
             }
         }
 
-        return (ts, ids, isExpiredArr);
+        return (ts, ids, isExpiredArr, end);
     }
 
-    /// @notice Get percentage of on-time completed tasks for each owner
-    /// @return Address array with each owner
-    /// @return Percentage array of on-time completed tasks for each owner
-    function onTimeTaskPercents() external view returns (address[] memory, uint256[] memory) {
-        address[] memory tOwners = new address[](totalTasks);
-        uint256 counter = 0;
-
-        for (uint256 i = 0; i < totalTasks; i++) {
-            address owner = _tasks[i].owner;
-            bool isUniq = true;
-            for (uint256 j = 0; j < counter; j++) {
-                if (owner == tOwners[j]) {
-                    isUniq = false;
-                    break;
-                }
-            }
-            if (isUniq) {
-                tOwners[counter] = owner;
-                counter++;
-            }
-        }
-
-        address[] memory owners = new address[](counter);
-        uint256[] memory compTasks = new uint256[](counter);
-        uint256[] memory ownerTasks = new uint256[](counter);
-        uint256[] memory perc = new uint256[](counter);
-
-        if (counter == 0) {
-            return (owners, perc);
+    /// @notice Get percentage of on-time completed tasks for each owner from the range
+    function _onTimeTaskPercents(uint256 _offset, uint256 _limit)
+        private
+        view
+        returns (address[] memory, uint256[] memory)
+    {
+        uint256 end = _owners.length;
+        if (_offset > end) {
+            _offset = end;
         }
-
-        for (uint256 i = 0; i < counter; i++) {
-            owners[i] = tOwners[i];
+        if (_limit < end - _offset) {
+            end = _offset + _limit;
         }
 
-        for (uint256 i = 0; i < totalTasks; i++) {
-            Task storage t = _tasks[i];
-            address owner = t.owner;
-            for (uint256 j = 0; j < counter; j++) {
-                if (owner == owners[j]) {
-                    ownerTasks[j]++;
-                    if (t.doneDate != 0 && t.doneDate <= t.expDate) {
-                        compTasks[j]++;
-                    }
-                    break;
-                }
-            }
-        }
+        address[] memory owners = new address[](end - _offset);
+        uint256[] memory perc = new uint256[](end - _offset);
 
-        for (uint256 i = 0; i < counter; i++) {
-            perc[i] = (compTasks[i] * 100) / ownerTasks[i];
+        for (uint256 i = _offset; i < end; i++) {
+            address owner = _owners[i];
+            owners[i - _offset] = owner;
+            perc[i - _offset] = (_onTimeCounts[owner] * 100) / _ownerTaskIds[owner].length;
         }
 
         return (owners, perc);
@@ -216,6 +1132,28 @@ contract CryptoTodo {
         return true;
     }
 
+    /// @notice Check the address is the assignee of the task and still a member of its list
+    /// @param _id The id of a task
+    /// @param _account The address to check
+    /// @return Bool variable is the address the assignee
+    function _isAssignee(uint256 _id, address _account) private view returns (bool) {
+        address assignee = _assignees[_id];
+        return assignee != address(0) && assignee == _account && _memberIndexes[_taskLists[_id]][_account] != 0;
+    }
+
+    /// @notice Check the task passes the filters
+    /// @param _t Task
+    /// @param _withExpired The filter for expired tasks (true - pass)
+    /// @param _withRemoved The filter for soft-removed tasks (true - pass)
+    /// @return Bool variable is the task passed
+    function _isFiltered(
+        Task storage _t,
+        bool _withExpired,
+        bool _withRemoved
+    ) private view returns (bool) {
+        return (_withRemoved || !_t.isRemoved) && (_withExpired || !_isExpired(_t));
+    }
+
     /// @notice Check the task has expired
     /// @param _t Task
     /// @return Bool variable is the task expired
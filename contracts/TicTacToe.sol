@@ -1,13 +1,12 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.4;
 
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 
+import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/math/SafeMathUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/cryptography/ECDSAUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/cryptography/draft-EIP712Upgradeable.sol";
@@ -21,9 +20,11 @@ import "./MultiSigWallet.sol";
 contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradeable, UUPSUpgradeable, EIP712Upgradeable {
     using SafeMathUpgradeable for uint256;
     using ECDSAUpgradeable for bytes32;
+    using SafeERC20Upgradeable for IERC20Upgradeable;
 
     string private constant SIGNATURE_DOMAIN = "TicTacToe";
     string private constant SIGNATURE_VERSION = "1";
+    bytes32 private constant INVITE_TYPEHASH = keccak256("Invite(uint256 gameId,address player,uint256 deadline)");
 
     enum Players {
         None,
@@ -61,9 +62,20 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
         uint256 winNum;
     }
 
+    struct Match {
+        // Odd number of rounds, the match is over when a player has won most of them
+        uint8 rounds;
+        // Number of started rounds
+        uint8 roundNum;
+        uint8 p1Wins;
+        uint8 p2Wins;
+        // The id of the game of the current round
+        uint256 roundId;
+    }
+
     uint256 decimals;
 
-    mapping(uint256 => Game) private games;
+    mapping(uint256 => Game) internal games;
     mapping(address => Stats) private playerStats;
 
     uint256 private totalGames;
@@ -74,13 +86,53 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
 
     MultiSigWallet wallet;
 
+    // Hold the fee of the first player until the second one joins, so a cancelled game is refunded in full
+    bool isFeeRefundable;
+    // Time after which anyone can cancel the game if nobody has joined it, zero if there is no deadline
+    mapping(uint256 => uint256) private joinDeadlines;
+    mapping(uint256 => uint256) private heldFees;
+
+    // Whether the player has claimed the prize of the game
+    mapping(uint256 => mapping(address => bool)) private prizeClaims;
+    // Claimed prizes to withdraw by players and tokens
+    mapping(address => mapping(address => uint256)) private withdrawables;
+
+    // The only player who can join the challenge, zero for open games
+    mapping(uint256 => address) private challengedPlayers;
+    // Whether the second player needs an invite signed by the first one
+    mapping(uint256 => bool) private inviteOnlyGames;
+
+    // Rounds of the matches by the ids of their games, which hold the stakes of the matches
+    mapping(uint256 => Match) private matches;
+    // The match of the round by the id of its game, zero for other games
+    mapping(uint256 => uint256) private roundMatches;
+
+    // Games before this id were created by the implementation which sent the prizes without tracking the claims,
+    // zero until the proxy deployed with it calls `initializeClaims`
+    uint256 public claimsStartId;
+    // Games before `claimsStartId` which have been finished since then or were unpaid then, so their prizes have not been sent
+    mapping(uint256 => bool) private lateLegacyGames;
+
+    /// @dev Reserved slots, so the state of TicTacToeV2 keeps its place when TicTacToe gets new variables.
+    /// Shrink it by the number of slots of the new variables, the state of TicTacToe always takes 50 slots
+    uint256[33] private __gap;
+
     event GameCreated(uint256 indexed gameId, address indexed creator, uint256 stake, address token, uint256 tokenDecimals);
     event PlayerJoinedGame(uint256 indexed gameId, address player, uint8 playerNum);
     event PlayerMove(uint256 indexed gameId, address player, uint8 x, uint8 y);
     event GameOver(uint256 indexed gameId, Players indexed winner);
+    event GameCancelled(uint256 indexed gameId, address indexed player, uint256 refund);
+    event JoinDeadlineSet(uint256 indexed gameId, uint256 deadline);
+    event PrizeClaimed(uint256 indexed gameId, address indexed player, address token, uint256 amount);
+    event Withdrawn(address indexed player, address token, uint256 amount);
+    event ChallengeCreated(uint256 indexed gameId, address indexed creator, address indexed opponent);
+    event InviteOnlyGameCreated(uint256 indexed gameId, address indexed creator);
+    event MatchCreated(uint256 indexed gameId, address indexed creator, uint8 rounds);
+    event RoundStarted(uint256 indexed matchId, uint256 indexed gameId, uint8 roundNum);
 
     event FeeChanged(uint256 fee, bool isAbsFee);
     event WalletChanged(address wallet);
+    event FeeRefundChanged(bool isFeeRefundable);
 
     /// @dev no constructor in upgradable contracts. Instead we have initializers
     /// @param _fee Absolute amount or percentage of a player's stake
@@ -99,6 +151,7 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
         fee = _fee;
         isAbsFee = _isAbsFee;
         wallet = MultiSigWallet(_walletAddress);
+        claimsStartId = 1;
 
         /// @dev as there is no constructor, we need to initialise another contracts explicitly
         __Ownable_init();
@@ -110,14 +163,17 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
     function _authorizeUpgrade(address) internal override onlyOwner {}
 
     modifier exists(uint256 _id) {
-        require(_id <= totalGames, "TicTacToe: game does not exists");
+        checkExists(_id);
+        _;
+    }
+
+    modifier onlyJoinPhase(uint256 _id) {
+        checkJoinPhase(_id);
         _;
     }
 
     modifier onlyActiveGame(uint256 _id) {
-        Game storage game = games[_id];
-        require(game.phase != Phase.Join, "TicTacToe: game has not started yet");
-        require(game.phase != Phase.Finished, "TicTacToe: game has already been finished");
+        checkActiveGame(_id);
         _;
     }
 
@@ -127,16 +183,15 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
         uint256 stake,
         address tokenAddress,
         uint256 tokenDecimals
-    ) external returns (uint256 gameId) {
+    ) public returns (uint256 gameId) {
         totalGames++;
         uint256 id = totalGames;
 
-        Game memory game;
+        Game storage game = games[id];
         game.createdAt = block.timestamp;
         game.stake = stake;
         game.tokenAddress = tokenAddress;
         game.tokenDecimals = tokenAddress == address(0) ? 18 : tokenDecimals;
-        games[id] = game;
 
         emit GameCreated(id, msg.sender, stake, tokenAddress, tokenDecimals);
         return id;
@@ -148,51 +203,77 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
         uint256 stake,
         address tokenAddress,
         uint256 tokenDecimals
-    ) external payable returns (uint256 gameId) {
-        totalGames++;
-        uint256 id = totalGames;
+    ) public payable returns (uint256 gameId) {
+        return createMyGame(stake, tokenAddress, tokenDecimals);
+    }
 
-        Game memory game;
-        game.p1 = payable(msg.sender);
-        game.createdAt = block.timestamp;
-        game.tokenAddress = tokenAddress;
-        game.tokenDecimals = tokenAddress == address(0) ? 18 : tokenDecimals;
-        game.stake = stake;
+    /// @notice Create a new game with sender as the first player, which only the opponent can join
+    /// @param _opponent The address of the challenged player
+    /// @return gameId ID of the new game
+    function newChallenge(
+        uint256 stake,
+        address tokenAddress,
+        uint256 tokenDecimals,
+        address _opponent
+    ) external payable returns (uint256 gameId) {
+        require(_opponent != address(0), "TicTacToe: Invalid opponent address");
+        require(_opponent != msg.sender, "TicTacToe: you cannot challenge yourself");
 
-        games[id] = game;
-        playerStats[msg.sender].gameNum++;
+        gameId = createMyGame(stake, tokenAddress, tokenDecimals);
+        challengedPlayers[gameId] = _opponent;
+        emit ChallengeCreated(gameId, msg.sender, _opponent);
+    }
 
-        addStake(games[id]);
+    /// @notice Create a new game with sender as the first player, which can be joined only with an invite of the sender
+    /// @dev Invites are EIP-712 signatures of `Invite(uint256 gameId,address player,uint256 deadline)`
+    /// @return gameId ID of the new game
+    function newInviteGame(
+        uint256 stake,
+        address tokenAddress,
+        uint256 tokenDecimals
+    ) external payable returns (uint256 gameId) {
+        gameId = createMyGame(stake, tokenAddress, tokenDecimals);
+        inviteOnlyGames[gameId] = true;
+        emit InviteOnlyGameCreated(gameId, msg.sender);
+    }
 
-        emit GameCreated(id, msg.sender, stake, tokenAddress, tokenDecimals);
-        return id;
+    /// @notice Create a new best-of-N match with sender as the first player, the stake is paid once for all the rounds
+    /// @dev The match is a game holding the stakes, its rounds are games without stakes started when the match is joined
+    /// @param _rounds Number of rounds, an odd number
+    /// @return matchId ID of the game of the match
+    function newMatch(
+        uint256 stake,
+        address tokenAddress,
+        uint256 tokenDecimals,
+        uint8 _rounds
+    ) external payable returns (uint256 matchId) {
+        require(_rounds % 2 == 1, "TicTacToe: Invalid number of rounds");
+
+        matchId = createMyGame(stake, tokenAddress, tokenDecimals);
+        matches[matchId].rounds = _rounds;
+        emit MatchCreated(matchId, msg.sender, _rounds);
     }
 
     /// @notice Join the game
     /// @param _id The id of a necessary game
     function join(uint256 _id) external payable exists(_id) {
-        Game storage game = games[_id];
-
-        require(game.phase == Phase.Join, "TicTacToe: game is full");
-        require(msg.sender != game.p1, "TicTacToe: you are already in the game");
-
-        address payable player = payable(msg.sender);
-        playerStats[msg.sender].gameNum++;
-
-        if (game.p1 == address(0)) {
-            game.p1 = player;
-            addStake(game);
-            emit PlayerJoinedGame(_id, player, 1);
-        } else {
-            game.p2 = player;
-
-            addStake(game);
+        addPlayer(_id, false);
+    }
 
-            game.phase = Phase.P1Turn;
-            game.turnAt = block.timestamp + turnTimeout;
+    /// @notice Join the game with an invite of the first player
+    /// @param _id The id of a necessary game
+    /// @param _deadline Timestamp after which the invite has expired
+    /// @param _signature Signature of the first player
+    function joinWithInvite(
+        uint256 _id,
+        uint256 _deadline,
+        bytes memory _signature
+    ) external payable exists(_id) {
+        require(_deadline > block.timestamp, "TicTacToe: the invite has expired");
+        bytes32 msgHash = EIP712Upgradeable._hashTypedDataV4(keccak256(abi.encode(INVITE_TYPEHASH, _id, msg.sender, _deadline)));
+        require(recoverAddress(msgHash, _signature) == games[_id].p1, "TicTacToe: invalid invite signer (non-creator)");
 
-            emit PlayerJoinedGame(_id, player, 2);
-        }
+        addPlayer(_id, true);
     }
 
     /// @notice Move to cell on the board in the game as player
@@ -203,7 +284,7 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
         uint256 _id,
         uint8 _x,
         uint8 _y
-    ) external exists(_id) onlyActiveGame(_id) {
+    ) external virtual exists(_id) onlyActiveGame(_id) {
         require(_x < 3 && _y < 3, "TicTacToe: coordinates off the board");
 
         Game storage game = games[_id];
@@ -226,6 +307,43 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
         game.phase = game.phase == Phase.P1Turn ? Phase.P2Turn : Phase.P1Turn;
     }
 
+    /// @notice Set the time after which anyone can cancel the game if nobody has joined it
+    /// @param _id The id of a necessary game
+    /// @param _deadline Timestamp of the deadline, zero to remove it
+    function setJoinDeadline(uint256 _id, uint256 _deadline) external exists(_id) onlyJoinPhase(_id) {
+        require(msg.sender == games[_id].p1, "TicTacToe: only the first player can set the join deadline");
+        require(_deadline == 0 || _deadline > block.timestamp, "TicTacToe: the join deadline is in the past");
+
+        joinDeadlines[_id] = _deadline;
+        emit JoinDeadlineSet(_id, _deadline);
+    }
+
+    /// @notice Cancel the game nobody has joined and refund the stake of the first player
+    /// @dev The stake is refunded without the fee, unless the fee was held as refundable
+    /// @param _id The id of a necessary game
+    function cancel(uint256 _id) external nonReentrant exists(_id) onlyJoinPhase(_id) {
+        Game storage game = games[_id];
+
+        require(game.p1 != address(0), "TicTacToe: there is no stake to refund");
+        uint256 deadline = joinDeadlines[_id];
+        require(msg.sender == game.p1 || (deadline != 0 && deadline <= block.timestamp), "TicTacToe: only the first player can cancel the game before the join deadline");
+
+        uint256 refund = game.amount.add(heldFees[_id]);
+        game.amount = 0;
+        heldFees[_id] = 0;
+        game.phase = Phase.Finished;
+        // A cancelled game is not counted in the stats
+        playerStats[game.p1].gameNum--;
+
+        if (game.tokenAddress == address(0)) {
+            (bool sent, ) = game.p1.call{value: refund}("");
+            require(sent, "TicTacToe: Failed to send Ether to Player 1");
+        } else {
+            IERC20Upgradeable(game.tokenAddress).safeTransfer(game.p1, refund);
+        }
+        emit GameCancelled(_id, game.p1, refund);
+    }
+
     /// @notice Get a game data
     /// @param _id The id of a necessary game
     /// @return game Game data
@@ -233,6 +351,41 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
         return games[_id];
     }
 
+    /// @notice Get a join deadline of the game
+    /// @param _id The id of a necessary game
+    /// @return deadline Timestamp after which anyone can cancel the game, zero if there is no deadline
+    function joinDeadlineOf(uint256 _id) external view exists(_id) returns (uint256 deadline) {
+        return joinDeadlines[_id];
+    }
+
+    /// @notice Get the only player who can join the game
+    /// @param _id The id of a necessary game
+    /// @return opponent The address of the challenged player, zero for open games
+    function challengedPlayerOf(uint256 _id) external view exists(_id) returns (address opponent) {
+        return challengedPlayers[_id];
+    }
+
+    /// @notice Check if the game can be joined only with an invite of the first player
+    /// @param _id The id of a necessary game
+    /// @return isRequired Bool true if an invite is needed
+    function isInviteOnly(uint256 _id) external view exists(_id) returns (bool isRequired) {
+        return inviteOnlyGames[_id];
+    }
+
+    /// @notice Get rounds of the match
+    /// @param _id The id of the game of the match
+    /// @return matchData Match data, zero rounds for other games
+    function matchById(uint256 _id) external view exists(_id) returns (Match memory matchData) {
+        return matches[_id];
+    }
+
+    /// @notice Get the match of the round
+    /// @param _id The id of the game of the round
+    /// @return matchId The id of the game of the match, zero for other games
+    function matchOfRound(uint256 _id) external view exists(_id) returns (uint256 matchId) {
+        return roundMatches[_id];
+    }
+
     /// @notice Get a stats data
     /// @param _user The address of a necessary user
     /// @return stats Stats data
@@ -273,47 +426,87 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
         emit WalletChanged(_walletAddress);
     }
 
-    /// @notice Send a prize(s) from the game
+    /// @notice Change whether the fee of the first player is refunded when the game is cancelled
+    /// @param _isFeeRefundable Bool indicating the fee is held until the second player joins
+    function changeFeeRefund(bool _isFeeRefundable) external onlyOwner {
+        isFeeRefundable = _isFeeRefundable;
+        emit FeeRefundChanged(_isFeeRefundable);
+    }
+
+    /// @notice Claim the prize share of the sender in the finished game, it is withdrawn with `withdraw`
+    /// @dev On a draw the first player gets a half rounded down and the second player gets the rest
     /// @param _id The id of a necessary game
-    function sendPrize(uint256 _id) external payable nonReentrant exists(_id) {
+    /// @return share Amount credited to the sender
+    function claimPrize(uint256 _id) public exists(_id) returns (uint256 share) {
         Game storage game = games[_id];
 
         require(game.p1 == msg.sender || game.p2 == msg.sender, "TicTacToe: you are not player of the game");
         require(game.phase == Phase.Finished, "TicTacToe: game is not finished yet");
+        require(!prizeClaims[_id][msg.sender], "TicTacToe: the prize has already been claimed");
+        // Before `initializeClaims` any game may be paid by the legacy implementation
+        require(claimsStartId != 0 && (_id >= claimsStartId || lateLegacyGames[_id]), "TicTacToe: the prize was sent before the claims were tracked");
 
-        uint256 share = game.amount;
-
-        if (game.winner == Players.Both) {
-            uint256 share1 = share.div(2);
-            uint256 share2 = share.sub(share1);
-            if (game.tokenAddress == address(0)) {
-                bool sent;
-                (sent, ) = game.p1.call{value: share1}("");
-                require(sent, "TicTacToe: Failed to send Ether to Player 1");
-                (sent, ) = game.p2.call{value: share2}("");
-                require(sent, "TicTacToe: Failed to send Ether to Player 2");
-            } else {
-                IERC20 token = IERC20(game.tokenAddress);
-                token.transfer(game.p1, share1);
-                token.transfer(game.p2, share2);
-            }
-        } else if (game.winner == Players.P1) {
-            if (game.tokenAddress == address(0)) {
-                (bool sent, ) = game.p1.call{value: share}("");
-                require(sent, "TicTacToe: Failed to send Ether to Player 1");
-            } else {
-                IERC20(game.tokenAddress).transfer(game.p1, share);
-            }
-        } else if (game.winner == Players.P2) {
-            if (game.tokenAddress == address(0)) {
-                (bool sent, ) = game.p2.call{value: share}("");
-                require(sent, "TicTacToe: Failed to send Ether to Player 2");
-            } else {
-                IERC20(game.tokenAddress).transfer(game.p2, share);
-            }
+        share = prizeShare(game, msg.sender == game.p1 ? Players.P1 : Players.P2);
+        require(share > 0, "TicTacToe: there is no prize for you");
+
+        prizeClaims[_id][msg.sender] = true;
+        withdrawables[msg.sender][game.tokenAddress] = withdrawables[msg.sender][game.tokenAddress].add(share);
+        emit PrizeClaimed(_id, msg.sender, game.tokenAddress, share);
+    }
+
+    /// @notice Start tracking the prize claims of the proxy deployed with the implementation which sent the prizes at once
+    /// @dev Call it with the upgrade: the prizes of the games finished before it cannot be claimed as they may have been sent,
+    /// except the games which the owner has checked off-chain to be unpaid
+    /// @param _unpaidIds Ids of the finished games whose prizes have not been sent
+    function initializeClaims(uint256[] calldata _unpaidIds) external onlyOwner {
+        require(claimsStartId == 0, "TicTacToe: the claims are already tracked");
+        claimsStartId = totalGames.add(1);
+        for (uint256 i = 0; i < _unpaidIds.length; i++) {
+            require(_unpaidIds[i] < claimsStartId && games[_unpaidIds[i]].phase == Phase.Finished, "TicTacToe: not a finished legacy game");
+            lateLegacyGames[_unpaidIds[i]] = true;
         }
     }
 
+    /// @notice Withdraw all the claimed prizes of the sender in the token
+    /// @param _tokenAddress Address of the token, zero for ETH
+    /// @return amount Withdrawn amount
+    function withdraw(address _tokenAddress) public nonReentrant returns (uint256 amount) {
+        amount = withdrawables[msg.sender][_tokenAddress];
+        require(amount > 0, "TicTacToe: there is nothing to withdraw");
+
+        withdrawables[msg.sender][_tokenAddress] = 0;
+        if (_tokenAddress == address(0)) {
+            (bool sent, ) = payable(msg.sender).call{value: amount}("");
+            require(sent, "TicTacToe: Failed to send Ether");
+        } else {
+            IERC20Upgradeable(_tokenAddress).safeTransfer(msg.sender, amount);
+        }
+        emit Withdrawn(msg.sender, _tokenAddress, amount);
+    }
+
+    /// @notice Claim the prize share of the sender and withdraw it at once
+    /// @param _id The id of a necessary game
+    function sendPrize(uint256 _id) external payable {
+        claimPrize(_id);
+        withdraw(games[_id].tokenAddress);
+    }
+
+    /// @notice Check if the player has claimed the prize of the game
+    /// @param _id The id of a necessary game
+    /// @param _player The address of the player
+    /// @return isClaimed Bool true if the prize has been claimed
+    function isPrizeClaimed(uint256 _id, address _player) external view exists(_id) returns (bool isClaimed) {
+        return prizeClaims[_id][_player];
+    }
+
+    /// @notice Get the claimed prizes of the player which have not been withdrawn yet
+    /// @param _player The address of the player
+    /// @param _tokenAddress Address of the token, zero for ETH
+    /// @return amount Amount to withdraw
+    function withdrawableOf(address _player, address _tokenAddress) external view returns (uint256 amount) {
+        return withdrawables[_player][_tokenAddress];
+    }
+
     /// @notice Get winner of the game
     /// @param _id The id of a necessary game
     /// @return winner The player (including None) who won
@@ -321,42 +514,188 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
         Game storage game = games[_id];
 
         if (game.turnAt < block.timestamp) {
-            if (game.phase == Phase.P1Turn) {
-                game.winner = Players.P2;
-                playerStats[game.p2].winNum++;
-                game.phase = Phase.Finished;
-                emit GameOver(_id, game.winner);
-                return Players.P2;
-            }
-            game.winner = Players.P1;
-            playerStats[game.p1].winNum++;
-            game.phase = Phase.Finished;
-            emit GameOver(_id, game.winner);
-            return Players.P1;
+            winner = game.phase == Phase.P1Turn ? Players.P2 : Players.P1;
+            finishGame(_id, winner);
+            return winner;
         }
 
         Players player = calculateWinner(game.board);
 
         if (player != Players.None) {
-            game.phase = Phase.Finished;
-            game.winner = player;
-            emit GameOver(_id, game.winner);
+            finishGame(_id, player);
+        }
+
+        return player;
+    }
+
+    /// @notice Finish the game and count the result in the stats of the players and in the match of the round
+    /// @param _id The id of the game
+    /// @param _winner The player (including Both for a draw) who won
+    function finishGame(uint256 _id, Players _winner) internal {
+        Game storage game = games[_id];
+
+        game.phase = Phase.Finished;
+        game.winner = _winner;
+        emit GameOver(_id, _winner);
+
+        if (_id < claimsStartId) {
+            lateLegacyGames[_id] = true;
         }
-        if (player == Players.Both) {
+
+        if (_winner == Players.Both) {
             playerStats[game.p1].drawNum++;
             playerStats[game.p2].drawNum++;
-        } else if (player == Players.P1) {
+        } else if (_winner == Players.P1) {
             playerStats[game.p1].winNum++;
-        } else if (player == Players.P2) {
+        } else if (_winner == Players.P2) {
             playerStats[game.p2].winNum++;
         }
 
-        return player;
+        uint256 matchId = roundMatches[_id];
+        if (matchId != 0) {
+            finishRound(matchId, game);
+        }
+    }
+
+    /// @notice Start the next round of the match, the first player is swapped each round
+    /// @param _matchId The id of the game of the match
+    function startRound(uint256 _matchId) private {
+        Game storage matchGame = games[_matchId];
+        Match storage matchData = matches[_matchId];
+        bool isSwapped = matchData.roundNum % 2 == 1;
+
+        totalGames++;
+        uint256 id = totalGames;
+
+        Game storage round = games[id];
+        round.p1 = isSwapped ? matchGame.p2 : matchGame.p1;
+        round.p2 = isSwapped ? matchGame.p1 : matchGame.p2;
+        round.createdAt = block.timestamp;
+        round.turnAt = block.timestamp + turnTimeout;
+        round.phase = Phase.P1Turn;
+        round.tokenAddress = matchGame.tokenAddress;
+        round.tokenDecimals = matchGame.tokenDecimals;
+
+        matchData.roundNum++;
+        matchData.roundId = id;
+        roundMatches[id] = _matchId;
+        // The first round is counted when the players create and join the match
+        if (matchData.roundNum > 1) {
+            playerStats[round.p1].gameNum++;
+            playerStats[round.p2].gameNum++;
+        }
+
+        emit GameCreated(id, msg.sender, 0, round.tokenAddress, round.tokenDecimals);
+        emit PlayerJoinedGame(id, round.p1, 1);
+        emit PlayerJoinedGame(id, round.p2, 2);
+        emit RoundStarted(_matchId, id, matchData.roundNum);
+    }
+
+    /// @notice Count the finished round in the match, then start the next round or finish the match
+    /// @dev The prize of the match is claimed as the prize of its game, a drawn match is split as a drawn game
+    /// @param _matchId The id of the game of the match
+    /// @param _round The finished round
+    function finishRound(uint256 _matchId, Game storage _round) private {
+        Game storage matchGame = games[_matchId];
+        Match storage matchData = matches[_matchId];
+
+        if (_round.winner == Players.P1 || _round.winner == Players.P2) {
+            address winner = _round.winner == Players.P1 ? _round.p1 : _round.p2;
+            if (winner == matchGame.p1) {
+                matchData.p1Wins++;
+            } else {
+                matchData.p2Wins++;
+            }
+        }
+
+        uint8 majority = matchData.rounds / 2 + 1;
+        if (matchData.p1Wins < majority && matchData.p2Wins < majority && matchData.roundNum < matchData.rounds) {
+            startRound(_matchId);
+            return;
+        }
+
+        Players matchWinner = Players.Both;
+        if (matchData.p1Wins > matchData.p2Wins) {
+            matchWinner = Players.P1;
+        } else if (matchData.p2Wins > matchData.p1Wins) {
+            matchWinner = Players.P2;
+        }
+        matchGame.phase = Phase.Finished;
+        matchGame.winner = matchWinner;
+        emit GameOver(_matchId, matchWinner);
+    }
+
+    /// @notice Create a new game with sender as the first player
+    /// @return gameId ID of the new game
+    function createMyGame(
+        uint256 stake,
+        address tokenAddress,
+        uint256 tokenDecimals
+    ) private returns (uint256 gameId) {
+        totalGames++;
+        uint256 id = totalGames;
+
+        Game storage game = games[id];
+        game.p1 = payable(msg.sender);
+        game.createdAt = block.timestamp;
+        game.tokenAddress = tokenAddress;
+        game.tokenDecimals = tokenAddress == address(0) ? 18 : tokenDecimals;
+        game.stake = stake;
+
+        playerStats[msg.sender].gameNum++;
+
+        addStake(id, game);
+
+        emit GameCreated(id, msg.sender, stake, tokenAddress, tokenDecimals);
+        return id;
+    }
+
+    /// @notice Add sender to the game as a player
+    /// @param _id The id of a necessary game
+    /// @param _isInvited Bool indicating sender has an invite of the first player
+    function addPlayer(uint256 _id, bool _isInvited) private {
+        Game storage game = games[_id];
+
+        require(game.phase == Phase.Join, "TicTacToe: game is full");
+        require(msg.sender != game.p1, "TicTacToe: you are already in the game");
+        require(joinDeadlines[_id] == 0 || joinDeadlines[_id] > block.timestamp, "TicTacToe: the join deadline has passed");
+        address challenged = challengedPlayers[_id];
+        require(challenged == address(0) || challenged == msg.sender, "TicTacToe: you are not the challenged player");
+        require(_isInvited || !inviteOnlyGames[_id], "TicTacToe: the game requires an invite");
+
+        address payable player = payable(msg.sender);
+        playerStats[msg.sender].gameNum++;
+
+        if (game.p1 == address(0)) {
+            game.p1 = player;
+            addStake(_id, game);
+            emit PlayerJoinedGame(_id, player, 1);
+        } else {
+            game.p2 = player;
+
+            addStake(_id, game);
+            // The held fee of the first player is not refundable anymore
+            uint256 heldFee = heldFees[_id];
+            if (heldFee > 0) {
+                heldFees[_id] = 0;
+                payFee(game, heldFee);
+            }
+
+            game.phase = Phase.P1Turn;
+            game.turnAt = block.timestamp + turnTimeout;
+
+            emit PlayerJoinedGame(_id, player, 2);
+
+            if (matches[_id].rounds != 0) {
+                startRound(_id);
+            }
+        }
     }
 
     /// @notice Add a stake to the game
+    /// @param _id The id of the game
     /// @param _game Necessary game
-    function addStake(Game storage _game) private {
+    function addStake(uint256 _id, Game storage _game) private {
         uint256 _fee;
         if (isAbsFee) {
             if (_game.tokenDecimals > decimals) {
@@ -371,24 +710,49 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
 
         if (_game.tokenAddress == address(0)) {
             require(msg.value == _game.stake, "TicTacToe: Invalid ETH for stake");
-            // Pay fee
-            (bool sent, ) = address(wallet).call{value: _fee}("");
-            require(sent, "TicTacToe: Failed to send Ether to Wallet");
         } else {
-            IERC20 token = IERC20(_game.tokenAddress);
+            IERC20Upgradeable token = IERC20Upgradeable(_game.tokenAddress);
             uint256 allowance = token.allowance(msg.sender, address(this));
             require(allowance >= _game.stake, "TicTacToe: Check the token allowance");
-            token.transferFrom(msg.sender, address(this), _game.stake);
-            // Pay fee
-            token.transfer(address(wallet), _fee);
+            token.safeTransferFrom(msg.sender, address(this), _game.stake);
+        }
+
+        if (isFeeRefundable && _game.p2 == address(0)) {
+            heldFees[_id] = _fee;
+        } else {
+            payFee(_game, _fee);
         }
         _game.amount = _game.amount.add(_game.stake.sub(_fee));
     }
 
+    /// @notice Send a fee of the game to the wallet
+    /// @param _game Necessary game
+    /// @param _fee Amount of the fee
+    function payFee(Game storage _game, uint256 _fee) private {
+        if (_game.tokenAddress == address(0)) {
+            (bool sent, ) = address(wallet).call{value: _fee}("");
+            require(sent, "TicTacToe: Failed to send Ether to Wallet");
+        } else {
+            IERC20Upgradeable(_game.tokenAddress).safeTransfer(address(wallet), _fee);
+        }
+    }
+
+    /// @notice Get a prize share of the player in the finished game
+    /// @param _game Necessary game
+    /// @param _player P1 or P2
+    /// @return share Amount of the player, zero if the player has lost
+    function prizeShare(Game storage _game, Players _player) private view returns (uint256 share) {
+        if (_game.winner == Players.Both) {
+            uint256 share1 = _game.amount.div(2);
+            return _player == Players.P1 ? share1 : _game.amount.sub(share1);
+        }
+        return _game.winner == _player ? _game.amount : 0;
+    }
+
     /// @notice Get a current player in the turn of the game
     /// @param _game Necessary game
     /// @return player The player who has a turn
-    function getCurrentPlayer(Game storage _game) private view returns (address player) {
+    function getCurrentPlayer(Game storage _game) internal view returns (address player) {
         if (_game.phase == Phase.P1Turn) {
             return _game.p1;
         }
@@ -480,6 +844,27 @@ contract TicTacToe is Initializable, OwnableUpgradeable, ReentrancyGuardUpgradea
         return true;
     }
 
+    /// @notice Check if the game exists, the modifier calls it to keep the contract small
+    /// @param _id The id of a necessary game
+    function checkExists(uint256 _id) private view {
+        require(_id <= totalGames, "TicTacToe: game does not exists");
+    }
+
+    /// @notice Check if the game waits for the second player
+    /// @param _id The id of a necessary game
+    function checkJoinPhase(uint256 _id) private view {
+        require(games[_id].phase == Phase.Join, "TicTacToe: game is not in the join phase");
+    }
+
+    /// @notice Check if the game is played, the matches are played in their rounds
+    /// @param _id The id of a necessary game
+    function checkActiveGame(uint256 _id) private view {
+        Game storage game = games[_id];
+        require(game.phase != Phase.Join, "TicTacToe: game has not started yet");
+        require(game.phase != Phase.Finished, "TicTacToe: game has already been finished");
+        require(matches[_id].rounds == 0, "TicTacToe: the match is played in its rounds");
+    }
+
     /// @notice Recover signer address
     /// @param _msgHash Hashed message
     /// @param _signature Signature
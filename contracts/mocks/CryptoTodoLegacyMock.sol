@@ -0,0 +1,137 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.12;
+
+/// @title Task queries of CryptoTodo before the owner index, to compare gas in benchmarks
+contract CryptoTodoLegacyMock {
+    struct Task {
+        address owner;
+        string text;
+        uint32 expDate;
+        uint32 doneDate;
+        bool isRemoved;
+    }
+
+    uint256 private totalTasks;
+
+    mapping(uint256 => Task) private _tasks;
+
+    /// @notice Create tasks of the owners in turn
+    /// @param _owners Owners of the tasks
+    /// @param _count Number of tasks
+    /// @param _expDate The date when the tasks will be considered expired
+    function seed(
+        address[] calldata _owners,
+        uint256 _count,
+        uint32 _expDate
+    ) external {
+        for (uint256 i = 0; i < _count; i++) {
+            _tasks[totalTasks] = Task(_owners[i % _owners.length], "Task", _expDate, 0, false);
+            totalTasks++;
+        }
+    }
+
+    /// @notice Get all the owner's personal tasks with some filters
+    /// @param _withExpired The filter for returning expired tasks (true - return)
+    /// @param _withRemoved The filter for returning soft-removed tasks (true - return)
+    /// @return Task data
+    /// @return IDs of tasks
+    /// @return Bool array is each task expired
+    function personalTasks(bool _withExpired, bool _withRemoved)
+        external
+        view
+        returns (
+            Task[] memory,
+            uint256[] memory,
+            bool[] memory
+        )
+    {
+        uint256 counter = 0;
+
+        for (uint256 i = 0; i < totalTasks; i++) {
+            Task storage t = _tasks[i];
+            if (t.owner == msg.sender && (_withRemoved || !t.isRemoved) && (_withExpired || !_isExpired(t))) {
+                counter++;
+            }
+        }
+
+        Task[] memory ts = new Task[](counter);
+        uint256[] memory ids = new uint256[](counter);
+        bool[] memory isExpiredArr = new bool[](counter);
+        counter = 0;
+
+        for (uint256 i = 0; i < totalTasks; i++) {
+            Task storage t = _tasks[i];
+            if (t.owner == msg.sender && (_withRemoved || !t.isRemoved) && (_withExpired || !_isExpired(t))) {
+                ts[counter] = t;
+                ids[counter] = i;
+                isExpiredArr[counter] = _isExpired(t);
+                counter++;
+            }
+        }
+
+        return (ts, ids, isExpiredArr);
+    }
+
+    /// @notice Get percentage of on-time completed tasks for each owner
+    /// @return Address array with each owner
+    /// @return Percentage array of on-time completed tasks for each owner
+    function onTimeTaskPercents() external view returns (address[] memory, uint256[] memory) {
+        address[] memory tOwners = new address[](totalTasks);
+        uint256 counter = 0;
+
+        for (uint256 i = 0; i < totalTasks; i++) {
+            address owner = _tasks[i].owner;
+            bool isUniq = true;
+            for (uint256 j = 0; j < counter; j++) {
+                if (owner == tOwners[j]) {
+                    isUniq = false;
+                    break;
+                }
+            }
+            if (isUniq) {
+                tOwners[counter] = owner;
+                counter++;
+            }
+        }
+
+        address[] memory owners = new address[](counter);
+        uint256[] memory compTasks = new uint256[](counter);
+        uint256[] memory ownerTasks = new uint256[](counter);
+        uint256[] memory perc = new uint256[](counter);
+
+        if (counter == 0) {
+            return (owners, perc);
+        }
+
+        for (uint256 i = 0; i < counter; i++) {
+            owners[i] = tOwners[i];
+        }
+
+        for (uint256 i = 0; i < totalTasks; i++) {
+            Task storage t = _tasks[i];
+            address owner = t.owner;
+            for (uint256 j = 0; j < counter; j++) {
+                if (owner == owners[j]) {
+                    ownerTasks[j]++;
+                    if (t.doneDate != 0 && t.doneDate <= t.expDate) {
+                        compTasks[j]++;
+                    }
+                    break;
+                }
+            }
+        }
+
+        for (uint256 i = 0; i < counter; i++) {
+            perc[i] = (compTasks[i] * 100) / ownerTasks[i];
+        }
+
+        return (owners, perc);
+    }
+
+    /// @notice Check the task has expired
+    /// @param _t Task
+    /// @return Bool variable is the task expired
+    function _isExpired(Task storage _t) private view returns (bool) {
+        return _t.doneDate > _t.expDate || (_t.doneDate == 0 && _t.expDate < block.timestamp);
+    }
+}
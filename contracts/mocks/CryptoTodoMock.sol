@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.12;
+
+import "../CryptoTodo.sol";
+
+/// @title CryptoTodo with seeding of many tasks for benchmarks
+contract CryptoTodoMock is CryptoTodo {
+    constructor(address payable _beneficiary) CryptoTodo(_beneficiary) {}
+
+    /// @notice Create tasks of the owners in turn
+    /// @param _owners Owners of the tasks
+    /// @param _count Number of tasks
+    /// @param _expDate The date when the tasks will be considered expired
+    function seed(
+        address[] calldata _owners,
+        uint256 _count,
+        uint32 _expDate
+    ) external {
+        for (uint256 i = 0; i < _count; i++) {
+            _create(_owners[i % _owners.length], "Task", _expDate);
+        }
+    }
+}
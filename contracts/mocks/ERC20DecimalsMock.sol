@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.12;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title A simple ERC20 contract with custom decimals
+contract ERC20DecimalsMock is ERC20 {
+    uint8 private _decimals;
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        uint256 totalSupply_
+    ) ERC20(name_, symbol_) {
+        _decimals = decimals_;
+        ERC20._mint(msg.sender, totalSupply_);
+    }
+
+    /**
+     * @notice Return decimals ERC20 contract
+     */
+    function decimals() public view virtual override returns (uint8) {
+        return _decimals;
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.12;
+
+import "./ERC20Mock.sol";
+
+/// @title An ERC20 contract which returns false instead of reverting when transfers are switched off
+contract ERC20ReturnFalseMock is ERC20Mock {
+    bool private _isFailing;
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint256 totalSupply_
+    ) ERC20Mock(name_, symbol_, totalSupply_) {}
+
+    /**
+     * @notice Make transfers return false without moving tokens
+     */
+    function setFailing(bool isFailing_) external {
+        _isFailing = isFailing_;
+    }
+
+    function transfer(address to, uint256 amount) public virtual override returns (bool) {
+        return _isFailing ? false : super.transfer(to, amount);
+    }
+
+    function transferFrom(
+        address from,
+        address to,
+        uint256 amount
+    ) public virtual override returns (bool) {
+        return _isFailing ? false : super.transferFrom(from, to, amount);
+    }
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.12;
+
+import "../TicTacToe.sol";
+
+/// @title TicTacToe with `sendPrize` of the implementation before the claims were tracked, to test the upgrade from it
+contract TicTacToeLegacyMock is TicTacToe {
+    /// @notice Forget the start of the claims, as the proxy deployed with the legacy implementation has not set it
+    function untrackClaims() external {
+        claimsStartId = 0;
+    }
+
+    /// @notice Send the prizes of the finished game at once without recording them
+    /// @param _id The id of a necessary game
+    function sendLegacyPrize(uint256 _id) external {
+        Game storage game = games[_id];
+        require(game.phase == Phase.Finished, "TicTacToe: game is not finished yet");
+
+        if (game.winner == Players.Both) {
+            uint256 share1 = game.amount / 2;
+            game.p1.transfer(share1);
+            game.p2.transfer(game.amount - share1);
+        } else if (game.winner == Players.P1) {
+            game.p1.transfer(game.amount);
+        } else if (game.winner == Players.P2) {
+            game.p2.transfer(game.amount);
+        }
+    }
+}
@@ -8,7 +8,15 @@ module.exports = async function (hre: HardhatRuntimeEnvironment) {
 
     const { deployer } = await getNamedAccounts()
 
+    // Forfeited bounties are sent to the wallet
+    const wallet = await deploy("MultiSigWallet", {
+        args: [[deployer], 1],
+        from: deployer,
+        log: true,
+    })
+
     await deploy("CryptoTodo", {
+        args: [wallet.address],
         from: deployer,
         log: true,
     })
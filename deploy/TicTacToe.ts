@@ -28,6 +28,10 @@ module.exports = async function (hre: HardhatRuntimeEnvironment, walletAddress:
             },
         },
     })
+
+    // Run once, otherwise the proxy would be downgraded from TicTacToeV2 on the next deploy
+    return true
 }
 
+module.exports.id = "TicTacToe"
 module.exports.tags = ["TicTacToe"]
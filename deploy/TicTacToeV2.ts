@@ -0,0 +1,43 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import { ethers } from "ethers"
+
+import { fetchClaimsStartId } from "../lib/game"
+
+module.exports = async function (hre: HardhatRuntimeEnvironment) {
+    console.log(`ChainId: ${await hre.getChainId()}`)
+
+    const { deployments, getNamedAccounts } = hre
+    const { deploy } = deployments
+
+    const { deployer } = await getNamedAccounts()
+
+    const dec16 = ethers.utils.parseUnits("1", 16) // 1% fee
+
+    const wallet = await deployments.get("MultiSigWallet")
+    const proxy = await hre.ethers.getContractAt("TicTacToeV2", (await deployments.get("TicTacToe")).address)
+
+    // The proxy deployed before the claims were tracked starts tracking them in the upgrade, with the games of
+    // UNPAID_LEGACY_GAMES (comma-separated ids) whose prizes have not been sent by the legacy implementation
+    const isTracked = !(await fetchClaimsStartId(proxy)).isZero()
+    const unpaidIds = (process.env.UNPAID_LEGACY_GAMES ?? "").split(",").filter(Boolean).map(Number)
+
+    // Upgrade the proxy of TicTacToe, the deployment keeps its name with the ABI of TicTacToeV2
+    await deploy("TicTacToe", {
+        contract: "TicTacToeV2",
+        from: deployer,
+        log: true,
+        proxy: {
+            proxyContract: "OpenZeppelinTransparentProxy",
+            execute: {
+                init: {
+                    methodName: "initialize",
+                    args: [dec16, false, wallet.address],
+                },
+                onUpgrade: isTracked ? undefined : { methodName: "initializeClaims", args: [unpaidIds] },
+            },
+        },
+    })
+}
+
+module.exports.tags = ["TicTacToeV2"]
+module.exports.dependencies = ["TicTacToe"]
@@ -35,6 +35,10 @@ const config: HardhatUserConfig = {
     typechain: {
         outDir: "./build/typechain",
     },
+    mocha: {
+        // A stray `.only` makes `npm test` skip all the other test files
+        forbidOnly: !!process.env.CI,
+    },
     gasReporter: {
         currency: "USD",
         coinmarketcap: process.env.COINMARKETCAP_API_KEY,
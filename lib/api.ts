@@ -0,0 +1,276 @@
+import http from "http"
+import { BigNumber, constants, Contract, utils } from "ethers"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import type { CryptoTodo, MultiSigWallet, TicTacToeV2 } from "../build/typechain"
+
+import { DecodedGame, decodeStats, fetchGame } from "./game"
+import { revertReason } from "./play"
+import { DecodedTask, decodeTask } from "./todo"
+import { DecodedWalletTransaction, decodeWalletTransaction } from "./wallet"
+
+/**
+ * Default and maximal number of games in one page of `/games`
+ */
+export const GAMES_PAGE_SIZE = 100
+
+export interface ApiContracts {
+    todo?: CryptoTodo
+    // TicTacToe proxy with the ABI of TicTacToeV2, so the boards of the upgraded contract are served
+    ttt?: TicTacToeV2
+    wallet?: MultiSigWallet
+}
+
+export interface ApiAddresses {
+    todo?: string
+    ttt?: string
+    wallet?: string
+}
+
+export interface ApiResponse {
+    status: number
+    body: unknown
+}
+
+type ApiError = Error & { status: number }
+
+type Handler = (contracts: ApiContracts, params: string[], query: URLSearchParams) => Promise<unknown>
+
+function httpError(status: number, message: string): ApiError {
+    const error = new Error(message) as ApiError
+    error.status = status
+    return error
+}
+
+function parseAddress(value: string): string {
+    if (!utils.isAddress(value)) {
+        throw httpError(400, `Invalid address: ${value}`)
+    }
+    return utils.getAddress(value)
+}
+
+/**
+ * Parse a uint256 id, it is kept as a BigNumber as `Number` would round the ids above 2^53
+ */
+function parseId(value: string): BigNumber {
+    if (!/^\d+$/.test(value) || BigNumber.from(value).gt(constants.MaxUint256)) {
+        throw httpError(400, `Invalid id: ${value}`)
+    }
+    return BigNumber.from(value)
+}
+
+/**
+ * Parse a non-negative integer query parameter, or the default if it is not set
+ */
+function parseCount(query: URLSearchParams, name: string, defaultValue: number): number {
+    const value = query.get(name)
+    if (value === null || value === "") {
+        return defaultValue
+    }
+    if (!/^\d+$/.test(value)) {
+        throw httpError(400, `Invalid ${name}: ${value}`)
+    }
+    return Number(value)
+}
+
+/**
+ * Parse a boolean query parameter: true/1, false/0, or undefined if it is not set
+ */
+function parseFlag(query: URLSearchParams, name: string): boolean | undefined {
+    const value = query.get(name)
+    if (value === null || value === "") {
+        return undefined
+    }
+    if (value === "true" || value === "1") {
+        return true
+    }
+    if (value === "false" || value === "0") {
+        return false
+    }
+    throw httpError(400, `Invalid ${name}: ${value}, use true or false`)
+}
+
+function required<T>(contract: T | undefined, name: string): T {
+    if (!contract) {
+        throw httpError(404, `${name} is not deployed`)
+    }
+    return contract
+}
+
+/**
+ * Turn a revert of a missing task or game into 404
+ */
+async function orNotFound<T>(promise: Promise<T>): Promise<T> {
+    try {
+        return await promise
+    } catch (e) {
+        const reason = revertReason(e)
+        if (/there is no task|does not exists/.test(reason)) {
+            throw httpError(404, reason)
+        }
+        throw e
+    }
+}
+
+async function ownerTasks(contracts: ApiContracts, params: string[], query: URLSearchParams): Promise<DecodedTask[]> {
+    const todo = required(contracts.todo, "CryptoTodo")
+    const owner = parseAddress(params[0])
+
+    const [tasks, ids, isExpired] = await todo.tasksOf(
+        owner,
+        parseFlag(query, "expired") ?? false,
+        parseFlag(query, "removed") ?? false
+    )
+    return tasks.map((task, i) => decodeTask(ids[i], task, isExpired[i]))
+}
+
+async function task(contracts: ApiContracts, params: string[]): Promise<DecodedTask> {
+    const todo = required(contracts.todo, "CryptoTodo")
+    const id = parseId(params[0])
+
+    const [data, isExpired] = await orNotFound(todo.task(id))
+    return decodeTask(id, data, isExpired)
+}
+
+async function games(contracts: ApiContracts, params: string[], query: URLSearchParams): Promise<DecodedGame[]> {
+    const ttt = required(contracts.ttt, "TicTacToe")
+    const phase = query.get("phase")?.toLowerCase()
+    const player = query.get("player") ? parseAddress(query.get("player") as string) : undefined
+    const offset = parseCount(query, "offset", 0)
+    const limit = parseCount(query, "limit", GAMES_PAGE_SIZE)
+    if (limit === 0 || limit > GAMES_PAGE_SIZE) {
+        throw httpError(400, `Invalid limit: ${limit}, use 1 to ${GAMES_PAGE_SIZE}`)
+    }
+
+    // There is no games counter in the contract, so ids are taken from the creation events.
+    // Only the games of the page are fetched, so the filters apply to them
+    const events = await ttt.queryFilter(ttt.filters.GameCreated())
+    const result: DecodedGame[] = []
+    for (const event of events.slice(offset, offset + limit)) {
+        const game = await fetchGame(ttt as unknown as Contract, event.args.gameId)
+        if (phase && game.phase.toLowerCase() !== phase) {
+            continue
+        }
+        if (player && game.p1 !== player && game.p2 !== player) {
+            continue
+        }
+        result.push(game)
+    }
+    return result
+}
+
+async function game(contracts: ApiContracts, params: string[]): Promise<DecodedGame> {
+    const ttt = required(contracts.ttt, "TicTacToe")
+    const id = parseId(params[0])
+
+    return orNotFound(fetchGame(ttt as unknown as Contract, id))
+}
+
+async function stats(contracts: ApiContracts, params: string[]) {
+    const ttt = required(contracts.ttt, "TicTacToe")
+    const user = parseAddress(params[0])
+
+    const decoded = decodeStats(await ttt.statsBy(user))
+    // `winRateBy` divides by the number of games
+    const winRate = decoded.gameNum === 0 ? 0 : (await ttt.winRateBy(user)).toNumber()
+    return { user, ...decoded, winRate }
+}
+
+async function walletTransactions(
+    contracts: ApiContracts,
+    params: string[],
+    query: URLSearchParams
+): Promise<DecodedWalletTransaction[]> {
+    const wallet = required(contracts.wallet, "MultiSigWallet")
+    const pending = parseFlag(query, "pending")
+
+    const count = (await wallet.getTransactionCount()).toNumber()
+    const requiredConfirmations = await wallet.numConfirmationsRequired()
+    const result: DecodedWalletTransaction[] = []
+    for (let index = 0; index < count; index++) {
+        const transaction = decodeWalletTransaction(index, await wallet.getTransaction(index), requiredConfirmations)
+        if (pending === undefined || pending !== transaction.isExecuted) {
+            result.push(transaction)
+        }
+    }
+    return result
+}
+
+const ROUTES: [RegExp, Handler][] = [
+    [/^\/todo\/([^/]+)\/tasks$/, ownerTasks],
+    [/^\/todo\/([^/]+)$/, task],
+    [/^\/games$/, games],
+    [/^\/games\/([^/]+)$/, game],
+    [/^\/players\/([^/]+)\/stats$/, stats],
+    [/^\/wallet\/transactions$/, walletTransactions],
+]
+
+/**
+ * Route the request and build the JSON response. Errors are returned as `{ error }` with the status.
+ */
+export async function handleRequest(contracts: ApiContracts, method: string, url: string): Promise<ApiResponse> {
+    if (method !== "GET") {
+        return { status: 405, body: { error: "Method not allowed" } }
+    }
+
+    let parsed: URL
+    try {
+        parsed = new URL(url, "http://localhost")
+    } catch (e) {
+        return { status: 400, body: { error: `Invalid URL: ${url}` } }
+    }
+    const { pathname, searchParams } = parsed
+
+    for (const [pattern, handler] of ROUTES) {
+        const match = pathname.replace(/\/$/, "").match(pattern)
+        if (!match) {
+            continue
+        }
+
+        try {
+            return { status: 200, body: await handler(contracts, match.slice(1), searchParams) }
+        } catch (e) {
+            const status = (e as ApiError).status ?? 500
+            return { status, body: { error: status === 500 ? revertReason(e) : (e as Error).message } }
+        }
+    }
+
+    return { status: 404, body: { error: "Not found" } }
+}
+
+/**
+ * Create an HTTP server for the API. It does not listen until `listen` is called.
+ */
+export function createApiServer(contracts: ApiContracts): http.Server {
+    return http.createServer((req, res) => {
+        handleRequest(contracts, req.method ?? "GET", req.url ?? "/")
+            // The handlers catch their errors, so this is only a failure of the server itself
+            .catch((e): ApiResponse => ({ status: 500, body: { error: (e as Error).message } }))
+            .then(({ status, body }) => {
+                res.writeHead(status, {
+                    "Content-Type": "application/json",
+                    "Access-Control-Allow-Origin": "*",
+                })
+                res.end(JSON.stringify(body))
+            })
+    })
+}
+
+/**
+ * Connect the contracts at the addresses with the hardhat provider
+ */
+export async function connectApiContracts(
+    hre: HardhatRuntimeEnvironment,
+    addresses: ApiAddresses
+): Promise<ApiContracts> {
+    return {
+        todo: addresses.todo
+            ? ((await hre.ethers.getContractAt("CryptoTodo", addresses.todo)) as unknown as CryptoTodo)
+            : undefined,
+        ttt: addresses.ttt
+            ? ((await hre.ethers.getContractAt("TicTacToeV2", addresses.ttt)) as unknown as TicTacToeV2)
+            : undefined,
+        wallet: addresses.wallet
+            ? ((await hre.ethers.getContractAt("MultiSigWallet", addresses.wallet)) as unknown as MultiSigWallet)
+            : undefined,
+    }
+}
@@ -0,0 +1,286 @@
+import { BigNumber, constants, Contract, utils } from "ethers"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { fetchBoard, GameStruct, Phase, Players } from "./game"
+import { MatchStruct } from "./match"
+import { Board, BOARD_SIZE, calculateWinner, Cell, emptyCells, opponentOf, placeMark } from "./rules"
+import { ensureAllowance, isEth } from "./tokens"
+
+export type Difficulty = "random" | "greedy" | "perfect"
+
+export const DIFFICULTIES: Difficulty[] = ["random", "greedy", "perfect"]
+
+export interface BotOptions {
+    hre: HardhatRuntimeEnvironment
+    // TicTacToe contract connected to the bot's signer
+    contract: Contract
+    player: string
+    difficulty: Difficulty
+    // Max stake of a game to join in units of the game token (e.g. "1.5")
+    maxStake: string
+    // Block to look for games from
+    fromBlock?: number
+    random?: () => number
+    log?: (message: string) => void
+}
+
+const WIN_SCORE = 10
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase()
+}
+
+function randomCell(cells: Cell[], random: () => number): Cell {
+    return cells[Math.floor(random() * cells.length)]
+}
+
+function findWinningCell(board: Board, player: Players): Cell | undefined {
+    return emptyCells(board).find((cell) => calculateWinner(placeMark(board, cell, player)) === player)
+}
+
+/**
+ * Score the board for the player with alpha-beta pruning: faster wins and slower losses are better
+ */
+function minimax(board: Board, toMove: Players, player: Players, depth: number, alpha: number, beta: number): number {
+    const winner = calculateWinner(board)
+    if (winner === player) {
+        return WIN_SCORE - depth
+    }
+    if (winner === opponentOf(player)) {
+        return depth - WIN_SCORE
+    }
+    if (winner === Players.Both) {
+        return 0
+    }
+
+    const isMaximizing = toMove === player
+    let best = isMaximizing ? -Infinity : Infinity
+    for (const cell of emptyCells(board)) {
+        const score = minimax(placeMark(board, cell, toMove), opponentOf(toMove), player, depth + 1, alpha, beta)
+        if (isMaximizing) {
+            best = Math.max(best, score)
+            alpha = Math.max(alpha, best)
+        } else {
+            best = Math.min(best, score)
+            beta = Math.min(beta, best)
+        }
+        if (beta <= alpha) {
+            break
+        }
+    }
+    return best
+}
+
+/**
+ * Choose a cell for the player's move
+ * @param board The board of the game
+ * @param player The player who moves
+ * @param difficulty random - any empty cell, greedy - win or block the opponent's win if possible, perfect - minimax
+ * @param random Random number generator for the random choices
+ */
+export function chooseMove(board: Board, player: Players, difficulty: Difficulty, random = Math.random): Cell {
+    const cells = emptyCells(board)
+    if (cells.length === 0) {
+        throw new Error("TicTacToe: the board is full")
+    }
+
+    if (difficulty === "random") {
+        return randomCell(cells, random)
+    }
+
+    if (difficulty === "greedy") {
+        return findWinningCell(board, player) ?? findWinningCell(board, opponentOf(player)) ?? randomCell(cells, random)
+    }
+
+    let bestCell = cells[0]
+    let bestScore = -Infinity
+    for (const cell of cells) {
+        const score = minimax(placeMark(board, cell, player), opponentOf(player), player, 1, -Infinity, Infinity)
+        if (score > bestScore) {
+            bestScore = score
+            bestCell = cell
+        }
+    }
+    return bestCell
+}
+
+/**
+ * A bot playing as the configured signer: joins open games under the stake limit, replies to the opponent's moves,
+ * finishes games when the opponent has timed out and claims prizes.
+ */
+export class TicTacToeBot {
+    private _fromBlock: number
+    private _isRunning = false
+    // Games which the bot can join or plays
+    private readonly _games = new Set<number>()
+
+    constructor(private readonly _options: BotOptions) {
+        this._fromBlock = _options.fromBlock ?? 0
+    }
+
+    /**
+     * Look for new events and act in every game of the bot once
+     */
+    async tick(): Promise<void> {
+        await this._discover()
+
+        for (const id of Array.from(this._games)) {
+            await this._act(id)
+        }
+    }
+
+    /**
+     * Act until the bot is stopped
+     * @param interval Polling interval in milliseconds
+     */
+    async run(interval: number): Promise<void> {
+        this._isRunning = true
+        this._log(`Bot ${this._options.player} is playing (${this._options.difficulty})`)
+
+        while (this._isRunning) {
+            try {
+                await this.tick()
+            } catch (e) {
+                this._log(`Bot error: ${e instanceof Error ? e.message : e}`)
+            }
+            await sleep(interval)
+        }
+    }
+
+    stop(): void {
+        this._isRunning = false
+    }
+
+    private _log(message: string): void {
+        const log = this._options.log ?? console.log
+        log(message)
+    }
+
+    private async _discover(): Promise<void> {
+        const { contract } = this._options
+        const latest = await contract.provider.getBlockNumber()
+        if (latest < this._fromBlock) {
+            return
+        }
+
+        const filters = [
+            contract.filters.GameCreated(),
+            contract.filters.PlayerJoinedGame(),
+            contract.filters.PlayerMove(),
+        ]
+        for (const filter of filters) {
+            const events = await contract.queryFilter(filter, this._fromBlock, latest)
+            events.forEach((event) => this._games.add(BigNumber.from(event.args?.gameId).toNumber()))
+        }
+
+        this._fromBlock = latest + 1
+    }
+
+    private async _act(id: number): Promise<void> {
+        const { contract, player } = this._options
+        const game: GameStruct = await contract.gameById(id)
+
+        if (game.phase === Phase.Join) {
+            await this._join(id, game)
+            return
+        }
+
+        const isP1 = sameAddress(game.p1, player)
+        const isP2 = sameAddress(game.p2, player)
+        if (!isP1 && !isP2) {
+            this._games.delete(id)
+            return
+        }
+
+        if (game.phase === Phase.Finished) {
+            // Each player claims its own share of a draw
+            const isMyPrize =
+                (game.winner === Players.P1 && isP1) ||
+                (game.winner === Players.P2 && isP2) ||
+                (game.winner === Players.Both && !BigNumber.from(game.amount).isZero())
+            if (isMyPrize && !(await contract.isPrizeClaimed(id, player))) {
+                const tx = await contract.sendPrize(id)
+                await tx.wait()
+                this._log(`Game #${id}: prize has been claimed`)
+            }
+            this._games.delete(id)
+            return
+        }
+
+        const { timestamp } = await contract.provider.getBlock("latest")
+        const isTimedOut = BigNumber.from(game.turnAt).lt(timestamp)
+        const isMyTurn = (game.phase === Phase.P1Turn && isP1) || (game.phase === Phase.P2Turn && isP2)
+
+        if (isMyTurn && !isTimedOut) {
+            const me = isP1 ? Players.P1 : Players.P2
+            const cell = chooseMove(game.board, me, this._options.difficulty, this._options.random)
+            const tx = await contract.move(id, cell.x, cell.y)
+            await tx.wait()
+            this._log(`Game #${id}: moved to x=${cell.x}, y=${cell.y}`)
+        } else if (!isMyTurn && isTimedOut) {
+            const tx = await contract.getWinner(id)
+            await tx.wait()
+            this._log(`Game #${id}: the opponent has timed out`)
+        }
+    }
+
+    private async _join(id: number, game: GameStruct): Promise<void> {
+        const { hre, contract, player, maxStake } = this._options
+        if (sameAddress(game.p1, player)) {
+            return
+        }
+
+        const stake = BigNumber.from(game.stake)
+        if (stake.gt(utils.parseUnits(maxStake, game.tokenDecimals))) {
+            this._games.delete(id)
+            return
+        }
+
+        // The bot plays only 3x3 boards of TicTacToeV2
+        const board = await fetchBoard(contract, id)
+        if (board && board.size !== BOARD_SIZE) {
+            this._games.delete(id)
+            return
+        }
+
+        // Challenges of other players and invite-only games are not open to the bot
+        const opponent: string = await contract.challengedPlayerOf(id)
+        if (
+            (opponent !== constants.AddressZero && !sameAddress(opponent, player)) ||
+            (await contract.isInviteOnly(id))
+        ) {
+            this._games.delete(id)
+            return
+        }
+
+        // The bot plays single games, the rounds of a match are played for one stake
+        const match: MatchStruct = await contract.matchById(id)
+        if (match.rounds !== 0) {
+            this._games.delete(id)
+            return
+        }
+
+        // The game cannot be joined after its join deadline, it can only be cancelled
+        const deadline: BigNumber = await contract.joinDeadlineOf(id)
+        const { timestamp } = await contract.provider.getBlock("latest")
+        if (!deadline.isZero() && deadline.lte(timestamp)) {
+            this._games.delete(id)
+            return
+        }
+
+        let value = BigNumber.from(0)
+        if (isEth(game.tokenAddress)) {
+            value = stake
+        } else {
+            await ensureAllowance(hre, contract.signer, game.tokenAddress, contract.address, stake)
+        }
+
+        const tx = await contract.join(id, { value })
+        await tx.wait()
+        this._log(`Game #${id}: joined`)
+    }
+}
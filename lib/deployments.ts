@@ -0,0 +1,17 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+/**
+ * Get the contract address: the passed one, or the address of the deployment in build/deployments
+ */
+export async function resolveAddress(
+    hre: HardhatRuntimeEnvironment,
+    name: string,
+    address?: string
+): Promise<string | undefined> {
+    if (address) {
+        return address
+    }
+
+    const deployment = await hre.deployments.getOrNull(name)
+    return deployment?.address
+}
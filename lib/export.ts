@@ -0,0 +1,122 @@
+import { DecodedTask } from "./todo"
+
+export type ExportFormat = "json" | "csv" | "ics"
+
+export const EXPORT_FORMATS: ExportFormat[] = ["json", "csv", "ics"]
+
+export interface CalendarOptions {
+    chainId: number
+    // CryptoTodo address, a part of the task UIDs
+    address: string
+    // Timestamp of the export in seconds, DTSTAMP of the tasks
+    timestamp: number
+}
+
+const CSV_COLUMNS: (keyof DecodedTask)[] = ["id", "owner", "text", "expDate", "doneDate", "isRemoved", "isExpired"]
+
+// Max length of a content line in octets before it is folded
+const ICS_LINE_LENGTH = 75
+
+function csvField(value: unknown): string {
+    const text = value === null || value === undefined ? "" : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Format the tasks as CSV with a header, which the `import` task can read back
+ */
+export function formatTasksCsv(tasks: DecodedTask[]): string {
+    const lines = [CSV_COLUMNS.join(",")]
+    tasks.forEach((task) => lines.push(CSV_COLUMNS.map((column) => csvField(task[column])).join(",")))
+    return lines.join("\n") + "\n"
+}
+
+export function formatTasksJson(tasks: DecodedTask[]): string {
+    return JSON.stringify(tasks, null, 2) + "\n"
+}
+
+/**
+ * 2024-05-01T12:00:00.000Z -> 20240501T120000Z
+ */
+function icsDate(isoDate: string): string {
+    return isoDate.replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function icsText(text: string): string {
+    return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+/**
+ * Fold the content line into lines of at most 75 octets, continuation lines start with a space
+ */
+function foldLine(line: string): string {
+    const chunks: string[] = []
+    let chunk = ""
+    let size = 0
+    for (const char of Array.from(line)) {
+        const charSize = Buffer.byteLength(char)
+        // Continuation lines have one octet less because of the leading space
+        if (size + charSize > ICS_LINE_LENGTH - (chunks.length === 0 ? 0 : 1)) {
+            chunks.push(chunk)
+            chunk = ""
+            size = 0
+        }
+        chunk += char
+        size += charSize
+    }
+    chunks.push(chunk)
+    return chunks.join("\r\n ")
+}
+
+/**
+ * Removed and missed tasks are cancelled, as they cannot be completed on time anymore,
+ * done tasks are completed and the rest still need an action.
+ * Expired tasks (missed or done late) also get the Expired category.
+ */
+function icsStatus(task: DecodedTask): string {
+    if (task.isRemoved || (task.isExpired && task.doneDate === null)) {
+        return "CANCELLED"
+    }
+    return task.doneDate === null ? "NEEDS-ACTION" : "COMPLETED"
+}
+
+/**
+ * Format the tasks as an iCalendar file with a VTODO for each task
+ */
+export function formatTasksIcs(tasks: DecodedTask[], options: CalendarOptions): string {
+    const stamp = icsDate(new Date(options.timestamp * 1000).toISOString())
+    const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//CryptoTodo//Task export//EN", "CALSCALE:GREGORIAN"]
+
+    for (const task of tasks) {
+        lines.push(
+            "BEGIN:VTODO",
+            `UID:${task.id}.${options.address.toLowerCase()}.${options.chainId}@cryptotodo`,
+            `DTSTAMP:${stamp}`,
+            `SUMMARY:${icsText(task.text)}`,
+            `DUE:${icsDate(task.expDate)}`
+        )
+        if (task.doneDate !== null) {
+            lines.push(`COMPLETED:${icsDate(task.doneDate)}`)
+        }
+        lines.push(`STATUS:${icsStatus(task)}`)
+        if (task.isExpired) {
+            lines.push("CATEGORIES:Expired")
+        }
+        lines.push(`X-CRYPTOTODO-OWNER:${task.owner}`, "END:VTODO")
+    }
+
+    lines.push("END:VCALENDAR")
+    // iCalendar lines end with CRLF
+    return lines.map(foldLine).join("\r\n") + "\r\n"
+}
+
+export function formatTasksAs(tasks: DecodedTask[], format: ExportFormat, options: CalendarOptions): string {
+    switch (format) {
+        case "json":
+            return formatTasksJson(tasks)
+        case "csv":
+            return formatTasksCsv(tasks)
+        case "ics":
+            return formatTasksIcs(tasks, options)
+    }
+}
@@ -0,0 +1,104 @@
+import { TypedDataDomain, TypedDataSigner } from "@ethersproject/abstract-signer"
+import { BigNumber, Signer, utils } from "ethers"
+
+/**
+ * `decimals` of TicTacToe: a percentage fee of 10^18 is 100%, an absolute fee is in units of an 18 decimal token
+ */
+export const FEE_DECIMALS = 18
+
+export const FEE_DOMAIN_NAME = "TicTacToe"
+export const FEE_DOMAIN_VERSION = "1"
+
+export const CHANGE_FEE_TYPES = {
+    changeFee: [
+        { name: "_fee", type: "uint256" },
+        { name: "_isAbsFee", type: "bool" },
+    ],
+}
+
+export type FeeKind = "percent" | "absolute"
+
+export const FEE_KINDS: FeeKind[] = ["percent", "absolute"]
+
+export interface FeeChange {
+    fee: BigNumber
+    // The docs of `initialize` and `changeFee` say it means a percentage,
+    // while `addStake` takes the fee as an absolute amount when it is true
+    isAbsFee: boolean
+}
+
+/**
+ * Signed `changeFee` arguments, which can be applied by any account
+ */
+export interface SignedFeeChange {
+    chainId: number
+    address: string
+    fee: string
+    isAbsFee: boolean
+    signer: string
+    signature: string
+}
+
+/**
+ * Parse a fee in human units: "1.5" is 1.5% of a stake or 1.5 tokens of a stake
+ */
+export function parseFee(amount: string, kind: FeeKind): FeeChange {
+    if (kind === "absolute") {
+        return { fee: utils.parseUnits(amount, FEE_DECIMALS), isAbsFee: true }
+    }
+
+    const fee = utils.parseUnits(amount, FEE_DECIMALS - 2)
+    if (fee.gt(BigNumber.from(10).pow(FEE_DECIMALS))) {
+        throw new Error(`TicTacToe: a percentage fee cannot be more than 100%, got ${amount}%`)
+    }
+    return { fee, isAbsFee: false }
+}
+
+/**
+ * Format the fee in human units: a percentage with "%" or an absolute amount
+ */
+export function formatFee(fee: BigNumber, isAbsFee: boolean, decimals = FEE_DECIMALS): string {
+    if (isAbsFee) {
+        return utils.formatUnits(fee, decimals)
+    }
+    return `${utils.formatUnits(fee.mul(100), decimals)}%`
+}
+
+/**
+ * EIP-712 domain of TicTacToe at the proxy address
+ */
+export function feeDomain(chainId: number, address: string): TypedDataDomain {
+    return { name: FEE_DOMAIN_NAME, version: FEE_DOMAIN_VERSION, chainId, verifyingContract: address }
+}
+
+/**
+ * Sign `changeFee` arguments, no network requests are made with a local signer
+ * @param chainId Chain of the contract
+ * @param address Address of the TicTacToe proxy
+ */
+export async function signFeeChange(
+    signer: Signer & TypedDataSigner,
+    chainId: number,
+    address: string,
+    change: FeeChange
+): Promise<SignedFeeChange> {
+    const value = { _fee: change.fee.toString(), _isAbsFee: change.isAbsFee }
+    const signature = await signer._signTypedData(feeDomain(chainId, address), CHANGE_FEE_TYPES, value)
+
+    return {
+        chainId,
+        address,
+        fee: change.fee.toString(),
+        isAbsFee: change.isAbsFee,
+        signer: await signer.getAddress(),
+        signature,
+    }
+}
+
+/**
+ * Recover the address which has signed the fee change
+ */
+export function recoverFeeSigner(signed: SignedFeeChange): string {
+    const value = { _fee: signed.fee, _isAbsFee: signed.isAbsFee }
+    return utils.verifyTypedData(feeDomain(signed.chainId, signed.address), CHANGE_FEE_TYPES, value, signed.signature)
+}
@@ -0,0 +1,253 @@
+import { BigNumber, BigNumberish, constants, Contract, utils } from "ethers"
+
+import { isEth } from "./tokens"
+
+export enum Phase {
+    Join,
+    P1Turn,
+    P2Turn,
+    Finished,
+}
+
+export enum Players {
+    None,
+    P1,
+    P2,
+    Both,
+}
+
+export type PhaseName = keyof typeof Phase
+export type PlayersName = keyof typeof Players
+
+/**
+ * Raw `Game` struct as returned by `gameById`
+ */
+export interface GameStruct {
+    p1: string
+    p2: string
+    createdAt: BigNumberish
+    turnAt: BigNumberish
+    phase: number
+    winner: number
+    board: number[][]
+    turnNum: BigNumberish
+    tokenAddress: string
+    tokenDecimals: BigNumberish
+    amount: BigNumberish
+    stake: BigNumberish
+}
+
+/**
+ * Raw `Stats` struct as returned by `statsBy`
+ */
+export interface StatsStruct {
+    gameNum: BigNumberish
+    drawNum: BigNumberish
+    winNum: BigNumberish
+}
+
+export interface DecodedGame {
+    id: number
+    p1: string
+    p2: string
+    createdAt: string
+    // Deadline of the current turn, null until the game has started
+    turnAt: string | null
+    phase: PhaseName
+    winner: PlayersName
+    // Indexed as the contract does: board[x][y]
+    board: Players[][]
+    // Number of marks in a row to win
+    winLength: number
+    turnNum: number
+    // Zero address means ETH
+    tokenAddress: string
+    tokenDecimals: number
+    stake: string
+    amount: string
+}
+
+/**
+ * Board of the game as returned by `boardOf` of TicTacToeV2
+ */
+export interface DecodedBoard {
+    size: number
+    winLength: number
+    // Indexed as the contract does: board[x][y]
+    board: Players[][]
+}
+
+export interface DecodedStats {
+    gameNum: number
+    drawNum: number
+    winNum: number
+}
+
+const CELL_SYMBOLS: Record<Players, string> = {
+    [Players.None]: " ",
+    [Players.P1]: "X",
+    [Players.P2]: "O",
+    [Players.Both]: "?",
+}
+
+function toIsoDate(timestamp: BigNumberish): string {
+    return new Date(BigNumber.from(timestamp).toNumber() * 1000).toISOString()
+}
+
+/**
+ * Decode the raw `Game` struct into a readable object
+ * @param id The id of the game
+ * @param game Raw game data
+ */
+export function decodeGame(id: BigNumberish, game: GameStruct): DecodedGame {
+    const tokenDecimals = BigNumber.from(game.tokenDecimals).toNumber()
+    const turnAt = BigNumber.from(game.turnAt)
+
+    return {
+        id: BigNumber.from(id).toNumber(),
+        p1: game.p1,
+        p2: game.p2,
+        createdAt: toIsoDate(game.createdAt),
+        turnAt: turnAt.isZero() ? null : toIsoDate(turnAt),
+        phase: Phase[game.phase] as PhaseName,
+        winner: Players[game.winner] as PlayersName,
+        board: game.board.map((column) => column.map((cell) => cell as Players)),
+        winLength: game.board.length,
+        turnNum: BigNumber.from(game.turnNum).toNumber(),
+        tokenAddress: game.tokenAddress,
+        tokenDecimals,
+        stake: utils.formatUnits(game.stake, tokenDecimals),
+        amount: utils.formatUnits(game.amount, tokenDecimals),
+    }
+}
+
+/**
+ * Get the game from the contract and decode it, with the board of TicTacToeV2 if the contract has been upgraded
+ */
+export async function fetchGame(contract: Contract, id: BigNumberish): Promise<DecodedGame> {
+    const game = decodeGame(id, await contract.gameById(id))
+
+    const board = await fetchBoard(contract, id)
+    if (board) {
+        game.board = board.board
+        game.winLength = board.winLength
+    }
+    return game
+}
+
+/**
+ * Get the board of the game from TicTacToeV2, which keeps boards of other sizes than 3x3 apart from the game
+ * @param contract TicTacToe contract connected with the ABI of TicTacToeV2
+ * @return Undefined if the contract has not been upgraded to TicTacToeV2
+ */
+export async function fetchBoard(contract: Contract, id: BigNumberish): Promise<DecodedBoard | undefined> {
+    if (!contract.functions.boardOf) {
+        return undefined
+    }
+
+    let result: [number, number, number[]]
+    try {
+        result = await contract.boardOf(id)
+    } catch (e) {
+        // TicTacToe before the upgrade has no `boardOf`, the existence of the game is checked by `gameById` first
+        if (isCallException(e)) {
+            return undefined
+        }
+        throw e
+    }
+
+    const [size, winLength, cells] = result
+    const board = Array.from({ length: size }, (_, x) => cells.slice(x * size, (x + 1) * size) as Players[])
+    return { size, winLength, board }
+}
+
+/**
+ * Get the id of the first game whose prize claims are tracked by the contract
+ * @return Zero if the proxy has been deployed with the implementation which sent the prizes without tracking the claims
+ */
+export async function fetchClaimsStartId(contract: Contract): Promise<BigNumber> {
+    try {
+        return await contract.claimsStartId()
+    } catch (e) {
+        // The legacy implementation has no `claimsStartId`
+        if (isCallException(e)) {
+            return constants.Zero
+        }
+        throw e
+    }
+}
+
+/**
+ * Check if the call has been reverted by the contract, e.g. as the function is missing in its implementation,
+ * rather than failed on the way to the node
+ */
+export function isCallException(error: unknown): boolean {
+    const { code, error: cause } = error as { code?: string; error?: unknown }
+    // ethers reports the failed requests of calls as call exceptions too, with the error of the request inside
+    if (code === utils.Logger.errors.CALL_EXCEPTION && cause === undefined) {
+        return true
+    }
+    const failure = cause ?? error
+    const message = failure instanceof Error ? failure.message : String(failure)
+    return /revert/.test(message)
+}
+
+/**
+ * Decode the raw `Stats` struct
+ */
+export function decodeStats(stats: StatsStruct): DecodedStats {
+    return {
+        gameNum: BigNumber.from(stats.gameNum).toNumber(),
+        drawNum: BigNumber.from(stats.drawNum).toNumber(),
+        winNum: BigNumber.from(stats.winNum).toNumber(),
+    }
+}
+
+/**
+ * Draw the board in ASCII: X is the first player, O is the second one.
+ * Columns are X coordinates (from left to right), rows are Y coordinates (from top to bottom)
+ * like in `move`.
+ */
+export function renderBoard(board: Players[][]): string {
+    const indexes = board.map((_, i) => i)
+    // Labels and cells take the width of the largest index, so the columns of boards wider than 10 are aligned
+    const width = String(board.length - 1).length
+    const pad = (text: string | number) => String(text).padStart(width)
+
+    const header = `${"y\\x".padEnd(width + 4)}${indexes.map(pad).join("   ")}`
+    const separator = `${" ".repeat(width + 3)}${indexes.map(() => "-".repeat(width + 2)).join("+")}`
+    const rows = indexes.map((y) => `${pad(y)}    ${indexes.map((x) => pad(CELL_SYMBOLS[board[x][y]])).join(" | ")}`)
+
+    return [header, rows.join(`\n${separator}\n`)].join("\n")
+}
+
+/**
+ * Format the decoded game for printing
+ */
+export function formatGame(game: DecodedGame): string {
+    const currency = isEth(game.tokenAddress) ? "ETH" : game.tokenAddress
+
+    return [
+        `Game #${game.id}`,
+        `Phase:    ${game.phase}`,
+        `Winner:   ${game.winner}`,
+        `Player 1: ${game.p1} (X)`,
+        `Player 2: ${game.p2} (O)`,
+        `Stake:    ${game.stake} ${currency}`,
+        `Amount:   ${game.amount} ${currency}`,
+        `Board:    ${game.board.length}x${game.board.length}, ${game.winLength} in a row to win`,
+        `Turns:    ${game.turnNum}`,
+        `Deadline: ${game.turnAt ?? "-"}`,
+        "",
+        renderBoard(game.board),
+    ].join("\n")
+}
+
+/**
+ * Format the decoded stats for printing
+ */
+export function formatStats(user: string, stats: DecodedStats): string {
+    return [`Stats of ${user}`, `Games: ${stats.gameNum}`, `Wins:  ${stats.winNum}`, `Draws: ${stats.drawNum}`].join(
+        "\n"
+    )
+}
@@ -0,0 +1,182 @@
+import { BigNumber, Contract, Event } from "ethers"
+
+import { revertReason } from "./play"
+
+export type ImportFormat = "csv" | "json"
+
+export const IMPORT_FORMATS: ImportFormat[] = ["csv", "json"]
+
+/**
+ * Task to create from an input row
+ */
+export interface TaskRow {
+    // 1-based number of the record in the input, the CSV header is not counted
+    row: number
+    text: string
+    expDate: number
+}
+
+export interface ImportedTask {
+    row: number
+    id: number
+}
+
+export interface ImportOptions {
+    // Max number of tasks in one transaction
+    batchSize: number
+    // Max gas of one transaction, batches are halved until they fit
+    maxGas: number
+    log?: (message: string) => void
+}
+
+/**
+ * Parse a timestamp in seconds or a date string, e.g. 2024-05-01T12:00:00Z
+ */
+function parseDate(value: unknown, row: number): number {
+    if (typeof value === "number") {
+        return value
+    }
+
+    const text = String(value ?? "").trim()
+    if (/^\d+$/.test(text)) {
+        return Number(text)
+    }
+    const ms = Date.parse(text)
+    if (Number.isNaN(ms)) {
+        throw new Error(`CryptoTodo: row ${row} has an invalid date ${text}`)
+    }
+    return Math.floor(ms / 1000)
+}
+
+/**
+ * Split a CSV line into fields, quoted fields may have commas and doubled quotes
+ */
+function splitCsvLine(line: string): string[] {
+    const fields: string[] = []
+    let field = ""
+    let isQuoted = false
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i]
+        if (isQuoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"'
+                i++
+            } else if (char === '"') {
+                isQuoted = false
+            } else {
+                field += char
+            }
+        } else if (char === '"') {
+            isQuoted = true
+        } else if (char === ",") {
+            fields.push(field)
+            field = ""
+        } else {
+            field += char
+        }
+    }
+    fields.push(field)
+    return fields
+}
+
+function parseCsv(content: string): Record<string, string>[] {
+    const lines = content.split(/\r?\n/).filter((line) => line.trim() !== "")
+    if (lines.length === 0) {
+        return []
+    }
+
+    const header = splitCsvLine(lines[0]).map((name) => name.trim())
+    return lines.slice(1).map((line) => {
+        const fields = splitCsvLine(line)
+        const record: Record<string, string> = {}
+        header.forEach((name, i) => (record[name] = fields[i] ?? ""))
+        return record
+    })
+}
+
+/**
+ * Parse tasks from CSV with a header or from a JSON array of objects.
+ * Each record has `text` and `expDate` (or `date`): a timestamp in seconds or a date string.
+ */
+export function parseTaskRows(content: string, format: ImportFormat): TaskRow[] {
+    let records: Record<string, unknown>[]
+    if (format === "json") {
+        records = JSON.parse(content)
+        if (!Array.isArray(records)) {
+            throw new Error("CryptoTodo: the JSON of tasks is not an array")
+        }
+    } else {
+        records = parseCsv(content)
+    }
+
+    return records.map((record, i) => ({
+        row: i + 1,
+        text: String(record.text ?? ""),
+        expDate: parseDate(record.expDate ?? record.date, i + 1),
+    }))
+}
+
+/**
+ * Check the rows as `create` does, so an import does not stop in the middle
+ * @param now Timestamp of the latest block
+ */
+export function validateTaskRows(rows: TaskRow[], now: number): void {
+    for (const row of rows) {
+        if (row.text === "") {
+            throw new Error(`CryptoTodo: row ${row.row} has an empty text`)
+        }
+        if (row.expDate <= now) {
+            throw new Error(`CryptoTodo: row ${row.row} has an exp date which is not in the future`)
+        }
+    }
+}
+
+/**
+ * Create the tasks with `createBatch` in batches which fit into the gas limit
+ * @param contract CryptoTodo connected to the owner of the tasks
+ * @return Ids of the new tasks by input rows
+ */
+export async function importTasks(
+    contract: Contract,
+    rows: TaskRow[],
+    options: ImportOptions
+): Promise<ImportedTask[]> {
+    const imported: ImportedTask[] = []
+
+    for (let start = 0; start < rows.length; ) {
+        let batch = rows.slice(start, start + options.batchSize)
+        for (;;) {
+            const args = [batch.map((row) => row.text), batch.map((row) => row.expDate)]
+            let gas: BigNumber
+            try {
+                gas = await contract.estimateGas.createBatch(...args)
+            } catch (e) {
+                // The index of the failed item is relative to the batch
+                const reason = revertReason(e).replace(
+                    /batch item (\d+) failed/,
+                    (_, index) => `row ${batch[Number(index)].row} failed`
+                )
+                throw new Error(reason)
+            }
+            if (gas.lte(options.maxGas) || batch.length === 1) {
+                break
+            }
+            batch = batch.slice(0, Math.ceil(batch.length / 2))
+        }
+
+        const tx = await contract.createBatch(
+            batch.map((row) => row.text),
+            batch.map((row) => row.expDate)
+        )
+        const rc = await tx.wait()
+        const ids = rc.events
+            .filter((e: Event) => e.event === "TaskCreated")
+            .map((e: Event) => (e.args?.id as BigNumber).toNumber())
+        batch.forEach((row, i) => imported.push({ row: row.row, id: ids[i] }))
+
+        options.log?.(`Created ${batch.length} tasks in ${tx.hash} with ${rc.gasUsed} gas`)
+        start += batch.length
+    }
+    return imported
+}
@@ -0,0 +1,387 @@
+import fs from "fs"
+import path from "path"
+import { BigNumber, Contract, providers, utils } from "ethers"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+export type IndexedContract = "CryptoTodo" | "TicTacToe" | "MultiSigWallet"
+
+export const INDEXED_CONTRACTS: IndexedContract[] = ["CryptoTodo", "TicTacToe", "MultiSigWallet"]
+
+export const INDEXED_EVENTS: Record<IndexedContract, string[]> = {
+    CryptoTodo: ["TaskCreated", "TaskToggled", "TaskRemoved", "TaskRestored", "TaskTextEdited", "TaskExpDateExtended"],
+    TicTacToe: [
+        "GameCreated",
+        "PlayerJoinedGame",
+        "PlayerMove",
+        "GameOver",
+        "GameCancelled",
+        "ChallengeCreated",
+        "InviteOnlyGameCreated",
+        "MatchCreated",
+        "RoundStarted",
+    ],
+    MultiSigWallet: ["SubmitTransaction", "ConfirmTransaction", "RevokeConfirmation", "ExecuteTransaction", "Deposit"],
+}
+
+export type EventArgs = Record<string, string | number | boolean>
+
+export interface IndexedEvent {
+    contract: IndexedContract
+    event: string
+    // BigNumbers are stored as decimal strings
+    args: EventArgs
+    blockNumber: number
+    blockHash: string
+    timestamp: number
+    transactionHash: string
+    logIndex: number
+    // Sender of the transaction and the called method if the transaction was sent to the contract
+    from: string
+    method?: string
+}
+
+export interface Checkpoint {
+    number: number
+    hash: string
+}
+
+export interface IndexerState {
+    version: number
+    chainId: number
+    contracts: Partial<Record<IndexedContract, string>>
+    fromBlock: number
+    lastBlock: number
+    // Hashes of recently processed blocks to find a common ancestor after a reorg
+    checkpoints: Checkpoint[]
+    events: IndexedEvent[]
+}
+
+export interface IndexerOptions {
+    provider: providers.Provider
+    contracts: Partial<Record<IndexedContract, Contract>>
+    store: JsonStore
+    fromBlock?: number
+    // Max number of blocks in one `eth_getLogs` request
+    batchSize?: number
+    // Number of checkpoints to keep
+    reorgDepth?: number
+    log?: (message: string) => void
+}
+
+// Bumped when indexed events change, so older indexes are rebuilt
+const STATE_VERSION = 8
+const BATCH_SIZE = 2000
+const REORG_DEPTH = 64
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function encodeArgs(description: utils.LogDescription): EventArgs {
+    const args: EventArgs = {}
+    description.eventFragment.inputs.forEach((input, i) => {
+        const value = description.args[i]
+        args[input.name] = BigNumber.isBigNumber(value) ? value.toString() : value
+    })
+    return args
+}
+
+/**
+ * Get the default path of the index for the network: build/index/<network>.json
+ */
+export function defaultStorePath(hre: HardhatRuntimeEnvironment): string {
+    return path.join(hre.config.paths.root, "build", "index", `${hre.network.name}.json`)
+}
+
+/**
+ * Indexer state kept in a JSON file, or in memory only if there is no path
+ */
+export class JsonStore {
+    private _state: IndexerState | undefined
+
+    constructor(readonly path?: string) {}
+
+    load(): IndexerState | undefined {
+        if (this.path && fs.existsSync(this.path)) {
+            this._state = JSON.parse(fs.readFileSync(this.path, "utf8"))
+        }
+        return this._state
+    }
+
+    save(state: IndexerState): void {
+        this._state = state
+        if (!this.path) {
+            return
+        }
+
+        // Write a temporary file first, so an interrupted write does not corrupt the index
+        fs.mkdirSync(path.dirname(this.path), { recursive: true })
+        const tmpPath = `${this.path}.tmp`
+        fs.writeFileSync(tmpPath, JSON.stringify(state))
+        fs.renameSync(tmpPath, this.path)
+    }
+}
+
+/**
+ * Backfill and follow events of the contracts into the store.
+ * The indexer resumes from the last processed block of the store and rolls back events of blocks
+ * which are not in the chain anymore (a reorg, or `evm_revert` on a local node).
+ */
+export class Indexer {
+    private _state: IndexerState | undefined
+    private _isRunning = false
+
+    constructor(private readonly _options: IndexerOptions) {}
+
+    /**
+     * Events of the index in the chain order, optionally of one contract and one event name
+     */
+    events(contract?: IndexedContract, event?: string): IndexedEvent[] {
+        const events = this._state?.events ?? []
+        return events.filter((e) => (!contract || e.contract === contract) && (!event || e.event === event))
+    }
+
+    /**
+     * Address of the indexed contract, if it is indexed
+     */
+    addressOf(contract: IndexedContract): string | undefined {
+        return this._state?.contracts[contract]
+    }
+
+    get lastBlock(): number {
+        return this._state?.lastBlock ?? -1
+    }
+
+    /**
+     * Process new blocks up to the latest one
+     * @return The number of new events
+     */
+    async sync(): Promise<number> {
+        const state = await this._init()
+        await this._rewind(state)
+
+        const latest = await this._options.provider.getBlockNumber()
+        const batchSize = this._options.batchSize ?? BATCH_SIZE
+        const eventsBefore = state.events.length
+
+        for (let from = state.lastBlock + 1; from <= latest; from += batchSize) {
+            const to = Math.min(from + batchSize - 1, latest)
+            const events = await this._fetch(from, to)
+            const block = await this._options.provider.getBlock(to)
+
+            state.events.push(...events)
+            state.lastBlock = to
+            state.checkpoints.push({ number: to, hash: block.hash })
+            state.checkpoints = state.checkpoints.slice(-(this._options.reorgDepth ?? REORG_DEPTH))
+            this._options.store.save(state)
+        }
+
+        return state.events.length - eventsBefore
+    }
+
+    /**
+     * Sync until the indexer is stopped
+     * @param interval Polling interval in milliseconds
+     */
+    async run(interval: number): Promise<void> {
+        this._isRunning = true
+
+        while (this._isRunning) {
+            try {
+                const count = await this.sync()
+                if (count > 0) {
+                    this._log(`Indexed ${count} events up to block ${this.lastBlock}`)
+                }
+            } catch (e) {
+                this._log(`Indexer error: ${e instanceof Error ? e.message : e}`)
+            }
+            await sleep(interval)
+        }
+    }
+
+    stop(): void {
+        this._isRunning = false
+    }
+
+    private _log(message: string): void {
+        const log = this._options.log ?? console.log
+        log(message)
+    }
+
+    private _addresses(): Partial<Record<IndexedContract, string>> {
+        const addresses: Partial<Record<IndexedContract, string>> = {}
+        INDEXED_CONTRACTS.forEach((name) => {
+            const contract = this._options.contracts[name]
+            if (contract) {
+                addresses[name] = contract.address
+            }
+        })
+        return addresses
+    }
+
+    /**
+     * Load the state from the store, or start a new one if the store is for another chain or other contracts
+     */
+    private async _init(): Promise<IndexerState> {
+        if (this._state) {
+            return this._state
+        }
+
+        const { chainId } = await this._options.provider.getNetwork()
+        const contracts = this._addresses()
+        const fromBlock = this._options.fromBlock ?? 0
+
+        const stored = this._options.store.load()
+        if (
+            stored &&
+            stored.version === STATE_VERSION &&
+            stored.chainId === chainId &&
+            stored.fromBlock === fromBlock &&
+            JSON.stringify(stored.contracts) === JSON.stringify(contracts)
+        ) {
+            this._state = stored
+            return stored
+        }
+
+        this._state = {
+            version: STATE_VERSION,
+            chainId,
+            contracts,
+            fromBlock,
+            lastBlock: fromBlock - 1,
+            checkpoints: [],
+            events: [],
+        }
+        return this._state
+    }
+
+    /**
+     * Roll the state back to the latest checkpoint which is still in the chain
+     */
+    private async _rewind(state: IndexerState): Promise<void> {
+        const { checkpoints } = state
+        let ancestor = state.fromBlock - 1
+
+        for (let i = checkpoints.length - 1; i >= 0; i--) {
+            const block = await this._options.provider.getBlock(checkpoints[i].number)
+            if (block && block.hash === checkpoints[i].hash) {
+                ancestor = checkpoints[i].number
+                break
+            }
+        }
+
+        if (ancestor >= state.lastBlock) {
+            return
+        }
+
+        this._log(`Reorg detected: rolling back from block ${state.lastBlock} to ${ancestor}`)
+        state.events = state.events.filter((e) => e.blockNumber <= ancestor)
+        state.checkpoints = checkpoints.filter((checkpoint) => checkpoint.number <= ancestor)
+        state.lastBlock = ancestor
+        this._options.store.save(state)
+    }
+
+    private async _fetch(from: number, to: number): Promise<IndexedEvent[]> {
+        const { provider } = this._options
+        const events: IndexedEvent[] = []
+        const timestamps = new Map<number, number>()
+        const transactions = new Map<string, providers.TransactionResponse>()
+
+        for (const name of INDEXED_CONTRACTS) {
+            const contract = this._options.contracts[name]
+            if (!contract) {
+                continue
+            }
+
+            const topics = INDEXED_EVENTS[name].map((event) => contract.interface.getEventTopic(event))
+            const logs = await provider.getLogs({
+                address: contract.address,
+                topics: [topics],
+                fromBlock: from,
+                toBlock: to,
+            })
+
+            for (const log of logs) {
+                if (!timestamps.has(log.blockNumber)) {
+                    timestamps.set(log.blockNumber, (await provider.getBlock(log.blockNumber)).timestamp)
+                }
+                if (!transactions.has(log.transactionHash)) {
+                    transactions.set(log.transactionHash, await provider.getTransaction(log.transactionHash))
+                }
+                const tx = transactions.get(log.transactionHash) as providers.TransactionResponse
+
+                let method: string | undefined
+                if (tx.to && tx.to.toLowerCase() === contract.address.toLowerCase()) {
+                    try {
+                        method = contract.interface.parseTransaction(tx).name
+                    } catch (e) {
+                        // Unknown method, e.g. a fallback call
+                    }
+                }
+
+                const description = contract.interface.parseLog(log)
+                events.push({
+                    contract: name,
+                    event: description.name,
+                    args: encodeArgs(description),
+                    blockNumber: log.blockNumber,
+                    blockHash: log.blockHash,
+                    timestamp: timestamps.get(log.blockNumber) as number,
+                    transactionHash: log.transactionHash,
+                    logIndex: log.logIndex,
+                    from: tx.from,
+                    method,
+                })
+            }
+        }
+
+        return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+    }
+}
+
+/**
+ * Open the index built by the `index` task and sync it with the chain, so queries see the latest blocks
+ * @param storePath Path of the index (build/index/<network>.json if not set)
+ */
+export async function openIndex(hre: HardhatRuntimeEnvironment, storePath?: string): Promise<Indexer> {
+    const store = new JsonStore(storePath ?? defaultStorePath(hre))
+    const state = store.load()
+    if (!state) {
+        throw new Error(`Indexer: there is no index at ${store.path}, run the index task first`)
+    }
+
+    const contracts: Partial<Record<IndexedContract, Contract>> = {}
+    for (const name of INDEXED_CONTRACTS) {
+        const address = state.contracts[name]
+        if (address) {
+            contracts[name] = await hre.ethers.getContractAt(name, address)
+        }
+    }
+
+    const indexer = new Indexer({
+        provider: hre.ethers.provider,
+        contracts,
+        store,
+        fromBlock: state.fromBlock,
+        log: () => undefined,
+    })
+    await indexer.sync()
+    return indexer
+}
+
+/**
+ * Open the index like `openIndex` and check it has the contract at the address
+ */
+export async function openIndexOf(
+    hre: HardhatRuntimeEnvironment,
+    contract: IndexedContract,
+    address: string,
+    storePath?: string
+): Promise<Indexer> {
+    const indexer = await openIndex(hre, storePath)
+    const indexed = indexer.addressOf(contract)
+    if (!indexed || indexed.toLowerCase() !== address.toLowerCase()) {
+        throw new Error(`Indexer: the index does not have ${contract} at ${address}`)
+    }
+    return indexer
+}
@@ -0,0 +1,53 @@
+import { TypedDataSigner } from "@ethersproject/abstract-signer"
+import { Signer, utils } from "ethers"
+
+import { feeDomain } from "./fee"
+
+export const INVITE_TYPES = {
+    Invite: [
+        { name: "gameId", type: "uint256" },
+        { name: "player", type: "address" },
+        { name: "deadline", type: "uint256" },
+    ],
+}
+
+/**
+ * An invite of the first player to join the invite-only game, which only the invited player can use
+ */
+export interface SignedInvite {
+    chainId: number
+    address: string
+    gameId: number
+    player: string
+    // Timestamp after which the invite has expired
+    deadline: number
+    signer: string
+    signature: string
+}
+
+/**
+ * Sign an invite to the game, no network requests are made with a local signer
+ * @param chainId Chain of the contract
+ * @param address Address of the TicTacToe proxy
+ */
+export async function signInvite(
+    signer: Signer & TypedDataSigner,
+    chainId: number,
+    address: string,
+    gameId: number,
+    player: string,
+    deadline: number
+): Promise<SignedInvite> {
+    const value = { gameId, player, deadline }
+    const signature = await signer._signTypedData(feeDomain(chainId, address), INVITE_TYPES, value)
+
+    return { chainId, address, gameId, player, deadline, signer: await signer.getAddress(), signature }
+}
+
+/**
+ * Recover the address which has signed the invite
+ */
+export function recoverInviteSigner(invite: SignedInvite): string {
+    const value = { gameId: invite.gameId, player: invite.player, deadline: invite.deadline }
+    return utils.verifyTypedData(feeDomain(invite.chainId, invite.address), INVITE_TYPES, value, invite.signature)
+}
@@ -0,0 +1,173 @@
+import { BigNumber, BigNumberish, Contract } from "ethers"
+
+import { DecodedGame, fetchGame, PhaseName, PlayersName } from "./game"
+import { isEth } from "./tokens"
+
+/**
+ * Raw `Match` struct as returned by `matchById`
+ */
+export interface MatchStruct {
+    rounds: number
+    roundNum: number
+    p1Wins: number
+    p2Wins: number
+    roundId: BigNumberish
+}
+
+export interface DecodedMatch {
+    id: number
+    // The first player of the match is X in odd rounds, the players are swapped each round
+    p1: string
+    p2: string
+    phase: PhaseName
+    winner: PlayersName
+    rounds: number
+    // Number of started rounds
+    roundNum: number
+    p1Wins: number
+    p2Wins: number
+    // The id of the game of the current round, null until the match has been joined
+    roundId: number | null
+    // Zero address means ETH
+    tokenAddress: string
+    tokenDecimals: number
+    stake: string
+    amount: string
+}
+
+export interface FollowOptions {
+    // TicTacToe contract
+    contract: Contract
+    id: number
+    // Polling interval in milliseconds until the match is over
+    interval: number
+    log?: (message: string) => void
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase()
+}
+
+/**
+ * Decode the raw `Match` struct with the game of the match, which holds its players and stakes
+ */
+export function decodeMatch(game: DecodedGame, data: MatchStruct): DecodedMatch {
+    const roundId = BigNumber.from(data.roundId).toNumber()
+
+    return {
+        id: game.id,
+        p1: game.p1,
+        p2: game.p2,
+        phase: game.phase,
+        winner: game.winner,
+        rounds: data.rounds,
+        roundNum: data.roundNum,
+        p1Wins: data.p1Wins,
+        p2Wins: data.p2Wins,
+        roundId: roundId === 0 ? null : roundId,
+        tokenAddress: game.tokenAddress,
+        tokenDecimals: game.tokenDecimals,
+        stake: game.stake,
+        amount: game.amount,
+    }
+}
+
+/**
+ * Get the match from the contract and decode it
+ * @param id The id of the game of the match
+ */
+export async function fetchMatch(contract: Contract, id: BigNumberish): Promise<DecodedMatch> {
+    const game = await fetchGame(contract, id)
+    const data: MatchStruct = await contract.matchById(id)
+    if (data.rounds === 0) {
+        throw new Error(`TicTacToe: game #${game.id} is not a match`)
+    }
+
+    return decodeMatch(game, data)
+}
+
+/**
+ * Get the ids of the games of the started rounds from `RoundStarted` events, in the order of the rounds
+ */
+export async function fetchRoundIds(contract: Contract, id: BigNumberish): Promise<number[]> {
+    const events = await contract.queryFilter(contract.filters.RoundStarted(id))
+    return events.map((event) => BigNumber.from(event.args?.gameId).toNumber())
+}
+
+/**
+ * Format the decoded match for printing
+ */
+export function formatMatch(match: DecodedMatch): string {
+    const currency = isEth(match.tokenAddress) ? "ETH" : match.tokenAddress
+    const round = match.roundId === null ? "-" : `${match.roundNum} of ${match.rounds}, game #${match.roundId}`
+
+    return [
+        `Match #${match.id}, best of ${match.rounds}`,
+        `Phase:    ${match.phase}`,
+        `Winner:   ${match.winner}`,
+        `Player 1: ${match.p1}`,
+        `Player 2: ${match.p2}`,
+        `Stake:    ${match.stake} ${currency}`,
+        `Amount:   ${match.amount} ${currency}`,
+        `Score:    ${match.p1Wins} - ${match.p2Wins}`,
+        `Round:    ${round}`,
+    ].join("\n")
+}
+
+/**
+ * Format the result of the finished round with the players of the match
+ */
+export function formatRound(match: DecodedMatch, roundNum: number, round: DecodedGame): string {
+    let result = "draw"
+    if (round.winner === "P1" || round.winner === "P2") {
+        const winner = round.winner === "P1" ? round.p1 : round.p2
+        result = `won by ${sameAddress(winner, match.p1) ? "player 1" : "player 2"} ${winner}`
+    }
+    return `Round ${roundNum} of ${match.rounds} (game #${round.id}): ${result}`
+}
+
+/**
+ * Follow the match until it is over and log the start and the result of each round
+ * @return The match after it has been finished
+ */
+export async function followMatch(options: FollowOptions): Promise<DecodedMatch> {
+    const { contract, id, interval } = options
+    const log = options.log ?? console.log
+
+    let match = await fetchMatch(contract, id)
+    log(formatMatch(match))
+    if (match.phase === "Join") {
+        log("Waiting for the second player to join...")
+    }
+
+    let startedNum = 0
+    let finishedNum = 0
+    for (;;) {
+        // The match is fetched before the rounds, so all its rounds are logged once it is over
+        const roundIds = await fetchRoundIds(contract, id)
+        for (; finishedNum < roundIds.length; finishedNum++) {
+            const round = await fetchGame(contract, roundIds[finishedNum])
+            if (startedNum === finishedNum) {
+                log(`Round ${finishedNum + 1} of ${match.rounds} (game #${round.id}) has started, X: ${round.p1}`)
+                startedNum++
+            }
+            if (round.phase !== "Finished") {
+                break
+            }
+            log(formatRound(match, finishedNum + 1, round))
+        }
+
+        if (match.phase === "Finished") {
+            break
+        }
+        await sleep(interval)
+        match = await fetchMatch(contract, id)
+    }
+
+    log(`Match over, score: ${match.p1Wins} - ${match.p2Wins}, winner: ${match.winner}`)
+    return match
+}
@@ -0,0 +1,121 @@
+import { TypedDataDomain, TypedDataSigner } from "@ethersproject/abstract-signer"
+import { Signer, utils } from "ethers"
+
+export const TODO_DOMAIN_NAME = "CryptoTodo"
+export const TODO_DOMAIN_VERSION = "1"
+
+const ID_REQUEST = [
+    { name: "signer", type: "address" },
+    { name: "id", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+]
+
+export const TODO_REQUEST_TYPES = {
+    Create: [
+        { name: "signer", type: "address" },
+        { name: "text", type: "string" },
+        { name: "expDate", type: "uint32" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+    Toggle: ID_REQUEST,
+    SoftRemove: ID_REQUEST,
+    Restore: ID_REQUEST,
+}
+
+export type TodoAction = "create" | "toggle" | "softRemove" | "restore"
+
+export const TODO_ACTIONS: TodoAction[] = ["create", "toggle", "softRemove", "restore"]
+
+const TYPE_NAMES: Record<TodoAction, keyof typeof TODO_REQUEST_TYPES> = {
+    create: "Create",
+    toggle: "Toggle",
+    softRemove: "SoftRemove",
+    restore: "Restore",
+}
+
+/**
+ * Request to CryptoTodo which is signed by the owner and submitted by a relayer
+ */
+export interface TodoRequest {
+    action: TodoAction
+    signer: string
+    // Text and expiration date of a new task for `create`, the task id for other actions
+    text?: string
+    expDate?: number
+    id?: number
+    nonce: string
+    // Timestamp after which the signature cannot be used
+    deadline: number
+}
+
+export interface SignedTodoRequest extends TodoRequest {
+    chainId: number
+    address: string
+    signature: string
+}
+
+/**
+ * EIP-712 domain of CryptoTodo at the address
+ */
+export function todoDomain(chainId: number, address: string): TypedDataDomain {
+    return { name: TODO_DOMAIN_NAME, version: TODO_DOMAIN_VERSION, chainId, verifyingContract: address }
+}
+
+function typedValue(request: TodoRequest): Record<string, unknown> {
+    const common = { signer: request.signer, nonce: request.nonce, deadline: request.deadline }
+    if (request.action === "create") {
+        return { ...common, text: request.text, expDate: request.expDate }
+    }
+    return { ...common, id: request.id }
+}
+
+function typesOf(action: TodoAction) {
+    const name = TYPE_NAMES[action]
+    if (!name) {
+        throw new Error(`CryptoTodo: unknown action ${action}, use ${TODO_ACTIONS.join(", ")}`)
+    }
+    return { [name]: TODO_REQUEST_TYPES[name] }
+}
+
+/**
+ * Sign the request, no network requests are made with a local signer
+ * @param chainId Chain of the contract
+ * @param address Address of CryptoTodo
+ */
+export async function signTodoRequest(
+    signer: Signer & TypedDataSigner,
+    chainId: number,
+    address: string,
+    request: TodoRequest
+): Promise<SignedTodoRequest> {
+    const signature = await signer._signTypedData(
+        todoDomain(chainId, address),
+        typesOf(request.action),
+        typedValue(request)
+    )
+    return { ...request, chainId, address, signature }
+}
+
+/**
+ * Recover the address which has signed the request
+ */
+export function recoverTodoSigner(signed: SignedTodoRequest): string {
+    return utils.verifyTypedData(
+        todoDomain(signed.chainId, signed.address),
+        typesOf(signed.action),
+        typedValue(signed),
+        signed.signature
+    )
+}
+
+/**
+ * Get the contract method and its arguments which submit the signed request
+ */
+export function requestCall(signed: SignedTodoRequest): [string, unknown[]] {
+    if (signed.action === "create") {
+        return ["createBySig", [signed.signer, signed.text, signed.expDate, signed.deadline, signed.signature]]
+    }
+    return [`${signed.action}BySig`, [signed.signer, signed.id, signed.deadline, signed.signature]]
+}
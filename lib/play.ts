@@ -0,0 +1,237 @@
+import { Contract, providers } from "ethers"
+import readline from "readline"
+
+import { DecodedGame, fetchGame, formatGame } from "./game"
+
+export interface PlayOptions {
+    // TicTacToe contract connected to the player's signer
+    contract: Contract
+    id: number
+    player: string
+    input: NodeJS.ReadableStream
+    output: NodeJS.WritableStream
+    // Polling interval in milliseconds while waiting for the opponent
+    interval: number
+}
+
+const BOARD_SIZE = 3
+const SECONDS_PER_MINUTE = 60
+const SECONDS_PER_HOUR = 3600
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase()
+}
+
+function pad(value: number): string {
+    return value < 10 ? `0${value}` : `${value}`
+}
+
+/**
+ * Format seconds left as hh:mm:ss
+ */
+export function formatCountdown(seconds: number): string {
+    const left = Math.max(seconds, 0)
+    const hours = Math.floor(left / SECONDS_PER_HOUR)
+    const minutes = Math.floor((left % SECONDS_PER_HOUR) / SECONDS_PER_MINUTE)
+    return `${pad(hours)}:${pad(minutes)}:${pad(left % SECONDS_PER_MINUTE)}`
+}
+
+/**
+ * Get a revert reason of the failed transaction if there is one
+ */
+export function revertReason(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error)
+    const match = message.match(/reverted with reason string '([^']*)'/)
+    return match ? match[1] : message
+}
+
+/**
+ * Parse a cell typed by the player: "x y" or "x,y"
+ */
+export function parseCell(answer: string, size = BOARD_SIZE): { x: number; y: number } | undefined {
+    const match = answer.trim().match(/^(\d+)\s*[ ,]\s*(\d+)$/)
+    if (!match) {
+        return undefined
+    }
+
+    const x = Number(match[1])
+    const y = Number(match[2])
+    if (x >= size || y >= size) {
+        return undefined
+    }
+    return { x, y }
+}
+
+/**
+ * Get the current time of the chain. The latest block can be old on a local node, so the wall clock is used then.
+ */
+async function currentTime(provider: providers.Provider): Promise<number> {
+    const { timestamp } = await provider.getBlock("latest")
+    return Math.max(timestamp, Math.floor(Date.now() / 1000))
+}
+
+function deadlineOf(game: DecodedGame): number {
+    return game.turnAt ? Math.floor(Date.parse(game.turnAt) / 1000) : 0
+}
+
+function isPlayerTurn(game: DecodedGame, player: string): boolean {
+    return (
+        (game.phase === "P1Turn" && sameAddress(game.p1, player)) ||
+        (game.phase === "P2Turn" && sameAddress(game.p2, player))
+    )
+}
+
+function isPlayerOf(game: DecodedGame, player: string): boolean {
+    return sameAddress(game.p1, player) || sameAddress(game.p2, player)
+}
+
+function hasPrize(game: DecodedGame, player: string): boolean {
+    // Rounds of matches have no stakes, the prize is held by the game of the match
+    if (Number(game.amount) === 0) {
+        return false
+    }
+    return (
+        (game.winner === "Both" && isPlayerOf(game, player)) ||
+        (game.winner === "P1" && sameAddress(game.p1, player)) ||
+        (game.winner === "P2" && sameAddress(game.p2, player))
+    )
+}
+
+/**
+ * Attach to the game and play it in the terminal: prompt the player for a cell on the player's turn,
+ * wait for the opponent's moves otherwise, finish the game when the opponent has timed out
+ * and send the prize when the game is over.
+ * @return The game after it has been finished
+ */
+export async function playGame(options: PlayOptions): Promise<DecodedGame> {
+    const { contract, id, player, output, interval } = options
+    const { provider } = contract
+
+    let waiting = false
+
+    const rl = readline.createInterface({ input: options.input, terminal: false })
+    const lines = rl[Symbol.asyncIterator]()
+
+    const isTTY = Boolean((output as NodeJS.WriteStream).isTTY)
+    const print = (text: string): void => {
+        output.write(`${isTTY && waiting ? "\n" : ""}${text}\n`)
+        waiting = false
+    }
+    const ask = async (question: string): Promise<string> => {
+        output.write(`${isTTY && waiting ? "\n" : ""}${question}`)
+        waiting = false
+        const line = await lines.next()
+        if (line.done) {
+            throw new Error("TicTacToe: the input has been closed")
+        }
+        return line.value.trim()
+    }
+    const confirm = async (question: string): Promise<boolean> => {
+        const answer = await ask(`${question} (y/n) `)
+        return answer.toLowerCase().startsWith("y")
+    }
+
+    let fromBlock = (await provider.getBlockNumber()) + 1
+    let game = await fetchGame(contract, id)
+    let offeredWinner = false
+
+    // Print the opponent's moves since the last refresh and redraw the board if the game has changed
+    const refresh = async (): Promise<void> => {
+        const latest = await provider.getBlockNumber()
+        if (latest < fromBlock) {
+            return
+        }
+
+        const moves = await contract.queryFilter(contract.filters.PlayerMove(id), fromBlock, latest)
+        const overs = await contract.queryFilter(contract.filters.GameOver(id), fromBlock, latest)
+        fromBlock = latest + 1
+
+        for (const move of moves) {
+            if (!sameAddress(move.args?.player, player)) {
+                print(`${move.args?.player} moved to x=${move.args?.x}, y=${move.args?.y}`)
+            }
+        }
+
+        const updated = await fetchGame(contract, id)
+        if (moves.length > 0 || overs.length > 0 || updated.phase !== game.phase) {
+            print(formatGame(updated))
+        }
+        game = updated
+    }
+
+    print(formatGame(game))
+
+    try {
+        while (game.phase !== "Finished") {
+            const secondsLeft = deadlineOf(game) - (await currentTime(provider))
+
+            if (isPlayerTurn(game, player) && secondsLeft >= 0) {
+                const cell = parseCell(
+                    await ask(`Your move "x y" (${formatCountdown(secondsLeft)} left): `),
+                    game.board.length
+                )
+                if (!cell) {
+                    print(`Type two coordinates from 0 to ${game.board.length - 1}, e.g. "1 2"`)
+                    continue
+                }
+
+                try {
+                    const tx = await contract.move(id, cell.x, cell.y)
+                    await tx.wait()
+                } catch (e) {
+                    print(revertReason(e))
+                    continue
+                }
+
+                await refresh()
+                continue
+            }
+
+            if (game.phase !== "Join" && secondsLeft < 0 && isPlayerOf(game, player) && !offeredWinner) {
+                offeredWinner = true
+                if (isPlayerTurn(game, player)) {
+                    print("Your time for turn is over")
+                    continue
+                }
+
+                if (await confirm("The opponent has timed out. Finish the game with getWinner?")) {
+                    const tx = await contract.getWinner(id)
+                    await tx.wait()
+                    await refresh()
+                }
+                continue
+            }
+
+            const status =
+                game.phase === "Join"
+                    ? "Waiting for players to join..."
+                    : `Waiting for the opponent's move (${formatCountdown(secondsLeft)} left)...`
+            // Keep the countdown ticking in one line of a terminal
+            if (isTTY) {
+                output.write(`\r${status}`)
+            } else if (!waiting) {
+                print(status)
+            }
+            waiting = true
+
+            await sleep(interval)
+            await refresh()
+        }
+
+        print(`Game over, winner: ${game.winner}`)
+
+        if (hasPrize(game, player) && (await confirm("Send the prize?"))) {
+            const tx = await contract.sendPrize(id)
+            await tx.wait()
+            print("The prize has been sent")
+        }
+    } finally {
+        rl.close()
+    }
+
+    return game
+}
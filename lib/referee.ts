@@ -0,0 +1,688 @@
+import { BigNumber, BigNumberish, constants } from "ethers"
+
+import { Phase, Players } from "./game"
+import { recoverInviteSigner, SignedInvite } from "./invite"
+import { Board, BOARD_SIZE, calculateWinner, emptyBoard } from "./rules"
+import { isEth } from "./tokens"
+
+export interface RefereeOptions {
+    // Addresses of the TicTacToe contract and its MultiSigWallet, used as balance holders
+    address: string
+    wallet: string
+    // Absolute amount or percentage of a player's stake, as passed to `initialize`
+    fee: BigNumberish
+    isAbsFee: boolean
+    // Seconds for a turn (1 day by default)
+    turnTimeout?: number
+}
+
+export interface RefereeGame {
+    p1: string
+    p2: string
+    createdAt: number
+    turnAt: number
+    phase: Phase
+    winner: Players
+    board: Board
+    turnNum: number
+    tokenAddress: string
+    tokenDecimals: number
+    amount: BigNumber
+    stake: BigNumber
+}
+
+export interface RefereeMatch {
+    rounds: number
+    roundNum: number
+    p1Wins: number
+    p2Wins: number
+    roundId: number
+}
+
+export interface RefereeStats {
+    gameNum: number
+    drawNum: number
+    winNum: number
+}
+
+// Context of a transaction: msg.sender, block.timestamp and msg.value of payable functions
+export interface RefereeCall {
+    sender: string
+    now: number
+    value?: BigNumberish
+}
+
+export interface PrizeSplit {
+    p1: BigNumber
+    p2: BigNumber
+}
+
+const DECIMALS = 18
+const TURN_TIMEOUT = 24 * 60 * 60
+
+/**
+ * Split the amount of the finished game as `claimPrize` does: on a draw P1 gets a half rounded down and P2 gets the rest
+ */
+export function prizeSplit(amount: BigNumberish, winner: Players): PrizeSplit {
+    const share = BigNumber.from(amount)
+    const zero = BigNumber.from(0)
+
+    if (winner === Players.Both) {
+        const share1 = share.div(2)
+        return { p1: share1, p2: share.sub(share1) }
+    }
+    if (winner === Players.P1) {
+        return { p1: share, p2: zero }
+    }
+    if (winner === Players.P2) {
+        return { p1: zero, p2: share }
+    }
+    return { p1: zero, p2: zero }
+}
+
+function sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase()
+}
+
+function emptyMatch(): RefereeMatch {
+    return { rounds: 0, roundNum: 0, p1Wins: 0, p2Wins: 0, roundId: 0 }
+}
+
+function emptyGame(): RefereeGame {
+    return {
+        p1: constants.AddressZero,
+        p2: constants.AddressZero,
+        createdAt: 0,
+        turnAt: 0,
+        phase: Phase.Join,
+        winner: Players.None,
+        board: emptyBoard(),
+        turnNum: 0,
+        tokenAddress: constants.AddressZero,
+        tokenDecimals: 0,
+        amount: BigNumber.from(0),
+        stake: BigNumber.from(0),
+    }
+}
+
+/**
+ * An off-chain TicTacToe engine which applies calls the same way the contract does and throws its revert reasons.
+ * A reverted call leaves no changes, so every call checks all the requirements first.
+ * Token allowances and balances of players are assumed to be enough, balances are tracked as changes since the start.
+ */
+export class TicTacToeReferee {
+    private _fee: BigNumber
+    private _isAbsFee: boolean
+    private _isFeeRefundable = false
+    private _totalGames = 0
+    private readonly _turnTimeout: number
+    private readonly _games = new Map<number, RefereeGame>()
+    private readonly _joinDeadlines = new Map<number, number>()
+    private readonly _heldFees = new Map<number, BigNumber>()
+    private readonly _prizeClaims = new Set<string>()
+    private readonly _withdrawables = new Map<string, BigNumber>()
+    private readonly _challengedPlayers = new Map<number, string>()
+    private readonly _inviteOnlyGames = new Set<number>()
+    private readonly _matches = new Map<number, RefereeMatch>()
+    private readonly _roundMatches = new Map<number, number>()
+    private readonly _stats = new Map<string, RefereeStats>()
+    private readonly _balances = new Map<string, BigNumber>()
+
+    constructor(private readonly _options: RefereeOptions) {
+        this._fee = BigNumber.from(_options.fee)
+        this._isAbsFee = _options.isAbsFee
+        this._turnTimeout = _options.turnTimeout ?? TURN_TIMEOUT
+    }
+
+    gameById(id: number): RefereeGame {
+        this._exists(id)
+        return this._game(id)
+    }
+
+    statsBy(user: string): RefereeStats {
+        return { ...this._statsOf(user) }
+    }
+
+    /**
+     * Get the balance change of the account in the token (ETH if it is not set) since the start
+     */
+    balanceChangeOf(account: string, tokenAddress: string = constants.AddressZero): BigNumber {
+        return this._balances.get(this._balanceKey(account, tokenAddress)) ?? BigNumber.from(0)
+    }
+
+    newGame(call: RefereeCall, stake: BigNumberish, tokenAddress: string, tokenDecimals: number): number {
+        const game = emptyGame()
+        game.createdAt = call.now
+        game.stake = BigNumber.from(stake)
+        game.tokenAddress = tokenAddress
+        game.tokenDecimals = isEth(tokenAddress) ? DECIMALS : tokenDecimals
+
+        this._totalGames++
+        this._games.set(this._totalGames, game)
+        return this._totalGames
+    }
+
+    newMyGame(call: RefereeCall, stake: BigNumberish, tokenAddress: string, tokenDecimals: number): number {
+        const game = emptyGame()
+        game.p1 = call.sender
+        game.createdAt = call.now
+        game.tokenAddress = tokenAddress
+        game.tokenDecimals = isEth(tokenAddress) ? DECIMALS : tokenDecimals
+        game.stake = BigNumber.from(stake)
+
+        const fee = this._stakeFee(call, game)
+
+        this._totalGames++
+        this._games.set(this._totalGames, game)
+
+        this._pay(call)
+        this._statsOf(call.sender).gameNum++
+        this._addStake(call, this._totalGames, game, fee)
+        return this._totalGames
+    }
+
+    newChallenge(
+        call: RefereeCall,
+        stake: BigNumberish,
+        tokenAddress: string,
+        tokenDecimals: number,
+        opponent: string
+    ): number {
+        if (opponent === constants.AddressZero) {
+            throw new Error("TicTacToe: Invalid opponent address")
+        }
+        if (sameAddress(opponent, call.sender)) {
+            throw new Error("TicTacToe: you cannot challenge yourself")
+        }
+
+        const id = this.newMyGame(call, stake, tokenAddress, tokenDecimals)
+        this._challengedPlayers.set(id, opponent)
+        return id
+    }
+
+    newInviteGame(call: RefereeCall, stake: BigNumberish, tokenAddress: string, tokenDecimals: number): number {
+        const id = this.newMyGame(call, stake, tokenAddress, tokenDecimals)
+        this._inviteOnlyGames.add(id)
+        return id
+    }
+
+    newMatch(
+        call: RefereeCall,
+        stake: BigNumberish,
+        tokenAddress: string,
+        tokenDecimals: number,
+        rounds: number
+    ): number {
+        if (rounds % 2 !== 1) {
+            throw new Error("TicTacToe: Invalid number of rounds")
+        }
+
+        const id = this.newMyGame(call, stake, tokenAddress, tokenDecimals)
+        this._matches.set(id, { ...emptyMatch(), rounds })
+        return id
+    }
+
+    join(call: RefereeCall, id: number): void {
+        this._exists(id)
+        this._addPlayer(call, id, false)
+    }
+
+    /**
+     * Join the game as `joinWithInvite` does, the invite is checked for the sender and the game
+     */
+    joinWithInvite(call: RefereeCall, id: number, invite: SignedInvite): void {
+        this._exists(id)
+
+        if (invite.deadline <= call.now) {
+            throw new Error("TicTacToe: the invite has expired")
+        }
+        const signer = recoverInviteSigner({
+            ...invite,
+            address: this._options.address,
+            gameId: id,
+            player: call.sender,
+        })
+        if (!sameAddress(signer, this._game(id).p1)) {
+            throw new Error("TicTacToe: invalid invite signer (non-creator)")
+        }
+
+        this._addPlayer(call, id, true)
+    }
+
+    challengedPlayerOf(id: number): string {
+        this._exists(id)
+        return this._challengedPlayers.get(id) ?? constants.AddressZero
+    }
+
+    isInviteOnly(id: number): boolean {
+        this._exists(id)
+        return this._inviteOnlyGames.has(id)
+    }
+
+    matchById(id: number): RefereeMatch {
+        this._exists(id)
+        return { ...(this._matches.get(id) ?? emptyMatch()) }
+    }
+
+    matchOfRound(id: number): number {
+        this._exists(id)
+        return this._roundMatches.get(id) ?? 0
+    }
+
+    joinDeadlineOf(id: number): number {
+        this._exists(id)
+        return this._joinDeadlines.get(id) ?? 0
+    }
+
+    setJoinDeadline(call: RefereeCall, id: number, deadline: number): void {
+        this._exists(id)
+        const game = this._game(id)
+        this._onlyJoinPhase(game)
+
+        if (!sameAddress(call.sender, game.p1)) {
+            throw new Error("TicTacToe: only the first player can set the join deadline")
+        }
+        if (deadline !== 0 && deadline <= call.now) {
+            throw new Error("TicTacToe: the join deadline is in the past")
+        }
+        this._joinDeadlines.set(id, deadline)
+    }
+
+    /**
+     * Cancel the game as `cancel` does: the amount and the held fee go back to the first player
+     * @return The refund
+     */
+    cancel(call: RefereeCall, id: number): BigNumber {
+        this._exists(id)
+        const game = this._game(id)
+        this._onlyJoinPhase(game)
+
+        if (game.p1 === constants.AddressZero) {
+            throw new Error("TicTacToe: there is no stake to refund")
+        }
+        const deadline = this.joinDeadlineOf(id)
+        if (!sameAddress(call.sender, game.p1) && (deadline === 0 || deadline > call.now)) {
+            throw new Error("TicTacToe: only the first player can cancel the game before the join deadline")
+        }
+
+        const refund = game.amount.add(this._heldFee(id))
+        game.amount = BigNumber.from(0)
+        this._heldFees.delete(id)
+        game.phase = Phase.Finished
+        this._statsOf(game.p1).gameNum--
+
+        this._transfer(game.tokenAddress, this._options.address, game.p1, refund)
+        return refund
+    }
+
+    move(call: RefereeCall, id: number, x: number, y: number): void {
+        this._exists(id)
+        const game = this._game(id)
+        this._onlyActiveGame(id, game)
+
+        if (x >= BOARD_SIZE || y >= BOARD_SIZE) {
+            throw new Error("TicTacToe: coordinates off the board")
+        }
+        if (!sameAddress(call.sender, this._currentPlayer(game))) {
+            throw new Error("TicTacToe: there is not your turn")
+        }
+        if (game.board[x][y] !== Players.None) {
+            throw new Error("TicTacToe: cell on the board is already taken")
+        }
+        if (game.turnAt <= call.now) {
+            throw new Error("TicTacToe: the time for turn is over")
+        }
+
+        game.board[x][y] = game.phase === Phase.P1Turn ? Players.P1 : Players.P2
+        game.turnAt = call.now + this._turnTimeout
+        game.turnNum++
+
+        if (game.turnNum >= 5 && this._finish(call, id, game) !== Players.None) {
+            return
+        }
+
+        game.phase = game.phase === Phase.P1Turn ? Phase.P2Turn : Phase.P1Turn
+    }
+
+    getWinner(call: RefereeCall, id: number): Players {
+        this._exists(id)
+        const game = this._game(id)
+        this._onlyActiveGame(id, game)
+
+        return this._finish(call, id, game)
+    }
+
+    isPrizeClaimed(id: number, player: string): boolean {
+        this._exists(id)
+        return this._prizeClaims.has(this._claimKey(id, player))
+    }
+
+    withdrawableOf(player: string, tokenAddress: string = constants.AddressZero): BigNumber {
+        return this._withdrawables.get(this._balanceKey(player, tokenAddress)) ?? BigNumber.from(0)
+    }
+
+    /**
+     * Credit the prize share of the sender as `claimPrize` does
+     * @return The share
+     */
+    claimPrize(call: RefereeCall, id: number): BigNumber {
+        this._exists(id)
+        const game = this._game(id)
+
+        if (!sameAddress(game.p1, call.sender) && !sameAddress(game.p2, call.sender)) {
+            throw new Error("TicTacToe: you are not player of the game")
+        }
+        if (game.phase !== Phase.Finished) {
+            throw new Error("TicTacToe: game is not finished yet")
+        }
+        if (this.isPrizeClaimed(id, call.sender)) {
+            throw new Error("TicTacToe: the prize has already been claimed")
+        }
+        const split = prizeSplit(game.amount, game.winner)
+        const share = sameAddress(game.p1, call.sender) ? split.p1 : split.p2
+        if (share.isZero()) {
+            throw new Error("TicTacToe: there is no prize for you")
+        }
+
+        this._prizeClaims.add(this._claimKey(id, call.sender))
+        const key = this._balanceKey(call.sender, game.tokenAddress)
+        this._withdrawables.set(key, this.withdrawableOf(call.sender, game.tokenAddress).add(share))
+        return share
+    }
+
+    /**
+     * Send all the credited prizes of the sender in the token as `withdraw` does
+     * @return The withdrawn amount
+     */
+    withdraw(call: RefereeCall, tokenAddress: string): BigNumber {
+        const amount = this.withdrawableOf(call.sender, tokenAddress)
+        if (amount.isZero()) {
+            throw new Error("TicTacToe: there is nothing to withdraw")
+        }
+
+        this._withdrawables.delete(this._balanceKey(call.sender, tokenAddress))
+        this._transfer(tokenAddress, this._options.address, call.sender, amount)
+        return amount
+    }
+
+    /**
+     * Claim the prize share of the sender and withdraw it at once as `sendPrize` does.
+     * The withdrawal cannot fail after a successful claim, as credited prizes are always held by the contract.
+     */
+    sendPrize(call: RefereeCall, id: number): void {
+        this.claimPrize(call, id)
+        this._pay(call)
+        this.withdraw(call, this._game(id).tokenAddress)
+    }
+
+    changeFee(fee: BigNumberish, isAbsFee: boolean): void {
+        const newFee = BigNumber.from(fee)
+        if (!isAbsFee && newFee.gt(BigNumber.from(10).pow(DECIMALS))) {
+            throw new Error("TicTacToe: Invalid Fee")
+        }
+
+        this._fee = newFee
+        this._isAbsFee = isAbsFee
+    }
+
+    changeFeeRefund(isFeeRefundable: boolean): void {
+        this._isFeeRefundable = isFeeRefundable
+    }
+
+    private _game(id: number): RefereeGame {
+        let game = this._games.get(id)
+        if (!game) {
+            // Game #0 passes `exists` and has the default values
+            game = emptyGame()
+            this._games.set(id, game)
+        }
+        return game
+    }
+
+    private _statsOf(user: string): RefereeStats {
+        const key = user.toLowerCase()
+        let stats = this._stats.get(key)
+        if (!stats) {
+            stats = { gameNum: 0, drawNum: 0, winNum: 0 }
+            this._stats.set(key, stats)
+        }
+        return stats
+    }
+
+    private _balanceKey(account: string, tokenAddress: string): string {
+        return `${tokenAddress.toLowerCase()}:${account.toLowerCase()}`
+    }
+
+    private _claimKey(id: number, player: string): string {
+        return `${id}:${player.toLowerCase()}`
+    }
+
+    private _transfer(tokenAddress: string, from: string, to: string, amount: BigNumber): void {
+        const fromKey = this._balanceKey(from, tokenAddress)
+        const toKey = this._balanceKey(to, tokenAddress)
+        this._balances.set(fromKey, this.balanceChangeOf(from, tokenAddress).sub(amount))
+        this._balances.set(toKey, this.balanceChangeOf(to, tokenAddress).add(amount))
+    }
+
+    private _pay(call: RefereeCall): void {
+        this._transfer(constants.AddressZero, call.sender, this._options.address, BigNumber.from(call.value ?? 0))
+    }
+
+    private _exists(id: number): void {
+        if (id > this._totalGames) {
+            throw new Error("TicTacToe: game does not exists")
+        }
+    }
+
+    private _heldFee(id: number): BigNumber {
+        return this._heldFees.get(id) ?? BigNumber.from(0)
+    }
+
+    private _onlyJoinPhase(game: RefereeGame): void {
+        if (game.phase !== Phase.Join) {
+            throw new Error("TicTacToe: game is not in the join phase")
+        }
+    }
+
+    private _onlyActiveGame(id: number, game: RefereeGame): void {
+        if (game.phase === Phase.Join) {
+            throw new Error("TicTacToe: game has not started yet")
+        }
+        if (game.phase === Phase.Finished) {
+            throw new Error("TicTacToe: game has already been finished")
+        }
+        if (this._matches.has(id)) {
+            throw new Error("TicTacToe: the match is played in its rounds")
+        }
+    }
+
+    private _currentPlayer(game: RefereeGame): string {
+        if (game.phase === Phase.P1Turn) {
+            return game.p1
+        }
+        if (game.phase === Phase.P2Turn) {
+            return game.p2
+        }
+        return constants.AddressZero
+    }
+
+    private _addPlayer(call: RefereeCall, id: number, isInvited: boolean): void {
+        const game = this._game(id)
+
+        if (game.phase !== Phase.Join) {
+            throw new Error("TicTacToe: game is full")
+        }
+        if (sameAddress(call.sender, game.p1)) {
+            throw new Error("TicTacToe: you are already in the game")
+        }
+        const deadline = this.joinDeadlineOf(id)
+        if (deadline !== 0 && deadline <= call.now) {
+            throw new Error("TicTacToe: the join deadline has passed")
+        }
+        const challenged = this._challengedPlayers.get(id)
+        if (challenged && !sameAddress(challenged, call.sender)) {
+            throw new Error("TicTacToe: you are not the challenged player")
+        }
+        if (!isInvited && this._inviteOnlyGames.has(id)) {
+            throw new Error("TicTacToe: the game requires an invite")
+        }
+        const fee = this._stakeFee(call, game)
+
+        this._pay(call)
+        this._statsOf(call.sender).gameNum++
+
+        if (game.p1 === constants.AddressZero) {
+            game.p1 = call.sender
+            this._addStake(call, id, game, fee)
+        } else {
+            game.p2 = call.sender
+            this._addStake(call, id, game, fee)
+            this._transfer(game.tokenAddress, this._options.address, this._options.wallet, this._heldFee(id))
+            this._heldFees.delete(id)
+
+            game.phase = Phase.P1Turn
+            game.turnAt = call.now + this._turnTimeout
+
+            if (this._matches.has(id)) {
+                this._startRound(call, id)
+            }
+        }
+    }
+
+    /**
+     * Check the requirements of `addStake` and calculate the fee
+     */
+    private _stakeFee(call: RefereeCall, game: RefereeGame): BigNumber {
+        let fee: BigNumber
+        if (this._isAbsFee) {
+            if (game.tokenDecimals > DECIMALS) {
+                fee = this._fee.mul(BigNumber.from(10).pow(game.tokenDecimals - DECIMALS))
+            } else {
+                fee = this._fee.div(BigNumber.from(10).pow(DECIMALS - game.tokenDecimals))
+            }
+            if (game.stake.lt(fee)) {
+                throw new Error("TicTacToe: Not enough for stake payment")
+            }
+        } else {
+            fee = game.stake.mul(this._fee).div(BigNumber.from(10).pow(DECIMALS))
+        }
+
+        if (isEth(game.tokenAddress) && !BigNumber.from(call.value ?? 0).eq(game.stake)) {
+            throw new Error("TicTacToe: Invalid ETH for stake")
+        }
+        return fee
+    }
+
+    private _addStake(call: RefereeCall, id: number, game: RefereeGame, fee: BigNumber): void {
+        const { address, wallet } = this._options
+        if (!isEth(game.tokenAddress)) {
+            this._transfer(game.tokenAddress, call.sender, address, game.stake)
+        }
+        // The fee of the first player is held in the contract while it is refundable
+        if (this._isFeeRefundable && game.p2 === constants.AddressZero) {
+            this._heldFees.set(id, fee)
+        } else {
+            this._transfer(game.tokenAddress, address, wallet, fee)
+        }
+        game.amount = game.amount.add(game.stake.sub(fee))
+    }
+
+    /**
+     * Finish the game as `getWinner` does: on timeout the player who has no turn wins, otherwise the board decides
+     */
+    private _finish(call: RefereeCall, id: number, game: RefereeGame): Players {
+        if (game.turnAt < call.now) {
+            const winner = game.phase === Phase.P1Turn ? Players.P2 : Players.P1
+            this._finishGame(call, id, game, winner)
+            return winner
+        }
+
+        const player = calculateWinner(game.board)
+        if (player !== Players.None) {
+            this._finishGame(call, id, game, player)
+        }
+        return player
+    }
+
+    /**
+     * Finish the game as `finishGame` does and count the result in the match of the round
+     */
+    private _finishGame(call: RefereeCall, id: number, game: RefereeGame, winner: Players): void {
+        game.phase = Phase.Finished
+        game.winner = winner
+
+        if (winner === Players.Both) {
+            this._statsOf(game.p1).drawNum++
+            this._statsOf(game.p2).drawNum++
+        } else if (winner === Players.P1) {
+            this._statsOf(game.p1).winNum++
+        } else if (winner === Players.P2) {
+            this._statsOf(game.p2).winNum++
+        }
+
+        const matchId = this._roundMatches.get(id)
+        if (matchId !== undefined) {
+            this._finishRound(call, matchId, game)
+        }
+    }
+
+    /**
+     * Start the next round of the match as a game without stakes, the first player is swapped each round
+     */
+    private _startRound(call: RefereeCall, matchId: number): void {
+        const matchGame = this._game(matchId)
+        const match = this._matches.get(matchId) as RefereeMatch
+        const isSwapped = match.roundNum % 2 === 1
+
+        const round = emptyGame()
+        round.p1 = isSwapped ? matchGame.p2 : matchGame.p1
+        round.p2 = isSwapped ? matchGame.p1 : matchGame.p2
+        round.createdAt = call.now
+        round.turnAt = call.now + this._turnTimeout
+        round.phase = Phase.P1Turn
+        round.tokenAddress = matchGame.tokenAddress
+        round.tokenDecimals = matchGame.tokenDecimals
+
+        this._totalGames++
+        this._games.set(this._totalGames, round)
+
+        match.roundNum++
+        match.roundId = this._totalGames
+        this._roundMatches.set(this._totalGames, matchId)
+        // The first round is counted when the players create and join the match
+        if (match.roundNum > 1) {
+            this._statsOf(round.p1).gameNum++
+            this._statsOf(round.p2).gameNum++
+        }
+    }
+
+    /**
+     * Count the finished round in the match, then start the next round or finish the match with its own winner
+     */
+    private _finishRound(call: RefereeCall, matchId: number, round: RefereeGame): void {
+        const matchGame = this._game(matchId)
+        const match = this._matches.get(matchId) as RefereeMatch
+
+        if (round.winner === Players.P1 || round.winner === Players.P2) {
+            const winner = round.winner === Players.P1 ? round.p1 : round.p2
+            if (sameAddress(winner, matchGame.p1)) {
+                match.p1Wins++
+            } else {
+                match.p2Wins++
+            }
+        }
+
+        const majority = Math.floor(match.rounds / 2) + 1
+        if (match.p1Wins < majority && match.p2Wins < majority && match.roundNum < match.rounds) {
+            this._startRound(call, matchId)
+            return
+        }
+
+        matchGame.phase = Phase.Finished
+        if (match.p1Wins === match.p2Wins) {
+            matchGame.winner = Players.Both
+        } else {
+            matchGame.winner = match.p1Wins > match.p2Wins ? Players.P1 : Players.P2
+        }
+    }
+}
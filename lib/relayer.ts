@@ -0,0 +1,194 @@
+import http from "http"
+import { BigNumber, constants, Contract, Event, utils } from "ethers"
+
+import { recoverTodoSigner, requestCall, SignedTodoRequest, TODO_ACTIONS, todoDomain } from "./meta"
+import { revertReason } from "./play"
+
+export interface RelayerResponse {
+    status: number
+    body: unknown
+}
+
+type RelayerError = Error & { status: number }
+
+// Max size of a request body in bytes
+const MAX_BODY_SIZE = 64 * 1024
+
+function httpError(status: number, message: string): RelayerError {
+    const error = new Error(message) as RelayerError
+    error.status = status
+    return error
+}
+
+/**
+ * Check the uint256 field of the request: a non-negative integer number or its decimal string
+ */
+function isUint(value: unknown): boolean {
+    if (typeof value === "number") {
+        return Number.isSafeInteger(value) && value >= 0
+    }
+    return typeof value === "string" && /^\d+$/.test(value) && BigNumber.from(value).lte(constants.MaxUint256)
+}
+
+/**
+ * Parse the signed request and check its fields before any contract call
+ */
+function parseRequest(body: string): SignedTodoRequest {
+    let request: SignedTodoRequest
+    try {
+        request = JSON.parse(body)
+    } catch (e) {
+        throw httpError(400, "Invalid JSON")
+    }
+
+    if (!request || !TODO_ACTIONS.includes(request.action)) {
+        throw httpError(400, `Invalid action, use ${TODO_ACTIONS.join(", ")}`)
+    }
+    if (!utils.isAddress(request.signer ?? "")) {
+        throw httpError(400, `Invalid signer: ${request.signer}`)
+    }
+    if (!utils.isHexString(request.signature ?? "")) {
+        throw httpError(400, "Invalid signature")
+    }
+    if (!isUint(request.nonce)) {
+        throw httpError(400, `Invalid nonce: ${request.nonce}`)
+    }
+    if (!isUint(request.deadline)) {
+        throw httpError(400, `Invalid deadline: ${request.deadline}`)
+    }
+    return request
+}
+
+/**
+ * Validate the signed request, simulate it and submit it from the account of the contract signer
+ */
+async function relay(contract: Contract, body: string) {
+    const request = parseRequest(body)
+
+    const { chainId } = await contract.provider.getNetwork()
+    if (request.chainId !== chainId || request.address?.toLowerCase() !== contract.address.toLowerCase()) {
+        throw httpError(
+            400,
+            `The request is signed for another contract, relaying to ${contract.address} on ${chainId}`
+        )
+    }
+
+    let recovered: string
+    try {
+        recovered = recoverTodoSigner(request)
+    } catch (e) {
+        throw httpError(400, "Invalid signature")
+    }
+    if (recovered.toLowerCase() !== request.signer.toLowerCase()) {
+        throw httpError(401, `The request is signed by ${recovered}, not by ${request.signer}`)
+    }
+
+    const { timestamp } = await contract.provider.getBlock("latest")
+    if (request.deadline < timestamp) {
+        throw httpError(400, "The signature has expired")
+    }
+    const nonce = await contract.nonces(request.signer)
+    if (!nonce.eq(request.nonce)) {
+        throw httpError(409, `Invalid nonce ${request.nonce}, the next nonce of the signer is ${nonce}`)
+    }
+
+    // Simulate first, so the relayer does not pay for a reverted transaction
+    const [method, args] = requestCall(request)
+    try {
+        await contract.callStatic[method](...args)
+    } catch (e) {
+        throw httpError(422, revertReason(e))
+    }
+
+    const tx = await contract[method](...args)
+    const rc = await tx.wait()
+    const created = rc.events?.find((e: Event) => e.event === "TaskCreated")
+    return {
+        action: request.action,
+        signer: request.signer,
+        transactionHash: tx.hash,
+        blockNumber: rc.blockNumber,
+        id: created ? created.args?.id.toNumber() : request.id,
+    }
+}
+
+async function nonceOf(contract: Contract, signer: string) {
+    if (!utils.isAddress(signer)) {
+        throw httpError(400, `Invalid address: ${signer}`)
+    }
+    return { signer: utils.getAddress(signer), nonce: (await contract.nonces(signer)).toString() }
+}
+
+function parsePath(url: string): string {
+    try {
+        return new URL(url, "http://localhost").pathname.replace(/\/$/, "")
+    } catch (e) {
+        throw httpError(400, `Invalid URL: ${url}`)
+    }
+}
+
+async function domain(contract: Contract) {
+    const { chainId } = await contract.provider.getNetwork()
+    return todoDomain(chainId, contract.address)
+}
+
+/**
+ * Route the request of the relayer and build the JSON response. Errors are returned as `{ error }` with the status.
+ * @param contract CryptoTodo connected to the funded account which pays for the transactions
+ */
+export async function handleRelayRequest(
+    contract: Contract,
+    method: string,
+    url: string,
+    body = ""
+): Promise<RelayerResponse> {
+    try {
+        const path = parsePath(url)
+        const nonceMatch = path.match(/^\/nonces\/([^/]+)$/)
+
+        if (method === "POST" && path === "/relay") {
+            return { status: 200, body: await relay(contract, body) }
+        }
+        if (method === "GET" && nonceMatch) {
+            return { status: 200, body: await nonceOf(contract, nonceMatch[1]) }
+        }
+        if (method === "GET" && path === "/domain") {
+            return { status: 200, body: await domain(contract) }
+        }
+    } catch (e) {
+        const status = (e as RelayerError).status ?? 500
+        return { status, body: { error: status === 500 ? revertReason(e) : (e as Error).message } }
+    }
+
+    return { status: 404, body: { error: "Not found" } }
+}
+
+/**
+ * Create an HTTP server for the relayer. It does not listen until `listen` is called.
+ * @param contract CryptoTodo connected to the funded account which pays for the transactions
+ */
+export function createRelayerServer(contract: Contract): http.Server {
+    return http.createServer((req, res) => {
+        let body = ""
+        let isTooLarge = false
+        req.on("data", (chunk) => {
+            if (!isTooLarge) {
+                body += chunk
+                isTooLarge = body.length > MAX_BODY_SIZE
+            }
+        })
+        req.on("end", async () => {
+            let result: RelayerResponse
+            try {
+                result = isTooLarge
+                    ? { status: 413, body: { error: "Request is too large" } }
+                    : await handleRelayRequest(contract, req.method ?? "GET", req.url ?? "/", body)
+            } catch (e) {
+                // The handler catches its errors, so this is only a failure of the server itself
+                result = { status: 500, body: { error: (e as Error).message } }
+            }
+            res.writeHead(result.status, { "Content-Type": "application/json" })
+            res.end(JSON.stringify(result.body))
+        })
+    })
+}
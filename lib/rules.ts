@@ -0,0 +1,116 @@
+import { Players } from "./game"
+
+// Indexed as the contract does: board[x][y]
+export type Board = Players[][]
+
+export interface Cell {
+    x: number
+    y: number
+}
+
+export const BOARD_SIZE = 3
+
+/**
+ * Create an empty 3x3 board
+ */
+export function emptyBoard(): Board {
+    return [0, 1, 2].map(() => [Players.None, Players.None, Players.None])
+}
+
+/**
+ * Get empty cells of the board (column by column, like `isBoardFull` walks it)
+ */
+export function emptyCells(board: Board): Cell[] {
+    const cells: Cell[] = []
+    for (let x = 0; x < BOARD_SIZE; x++) {
+        for (let y = 0; y < BOARD_SIZE; y++) {
+            if (board[x][y] === Players.None) {
+                cells.push({ x, y })
+            }
+        }
+    }
+    return cells
+}
+
+/**
+ * Copy the board with the player's mark in the cell
+ */
+export function placeMark(board: Board, cell: Cell, player: Players): Board {
+    const next = board.map((column) => column.slice())
+    next[cell.x][cell.y] = player
+    return next
+}
+
+/**
+ * Calculate winner in a row as `checkRow` does
+ */
+export function checkRow(board: Board): Players {
+    for (let x = 0; x < BOARD_SIZE; x++) {
+        if (board[x][0] === board[x][1] && board[x][1] === board[x][2] && board[x][0] !== Players.None) {
+            return board[x][0]
+        }
+    }
+
+    return Players.None
+}
+
+/**
+ * Calculate winner in a column as `checkColumn` does
+ */
+export function checkColumn(board: Board): Players {
+    for (let y = 0; y < BOARD_SIZE; y++) {
+        if (board[0][y] === board[1][y] && board[1][y] === board[2][y] && board[0][y] !== Players.None) {
+            return board[0][y]
+        }
+    }
+
+    return Players.None
+}
+
+/**
+ * Calculate winner in a diagonal as `checkDiagonal` does
+ */
+export function checkDiagonal(board: Board): Players {
+    if (board[0][0] === board[1][1] && board[1][1] === board[2][2] && board[0][0] !== Players.None) {
+        return board[0][0]
+    }
+
+    if (board[0][2] === board[1][1] && board[1][1] === board[2][0] && board[0][2] !== Players.None) {
+        return board[0][2]
+    }
+
+    return Players.None
+}
+
+/**
+ * Check if board is already full as `isBoardFull` does
+ */
+export function isBoardFull(board: Board): boolean {
+    return emptyCells(board).length === 0
+}
+
+/**
+ * Calculate winner via parsing board as `calculateWinner` does: Both means a draw, None means the game goes on
+ */
+export function calculateWinner(board: Board): Players {
+    const checks = [checkRow, checkColumn, checkDiagonal]
+    for (const check of checks) {
+        const player = check(board)
+        if (player !== Players.None) {
+            return player
+        }
+    }
+
+    if (isBoardFull(board)) {
+        return Players.Both
+    }
+
+    return Players.None
+}
+
+/**
+ * Get the opponent of the player
+ */
+export function opponentOf(player: Players): Players {
+    return player === Players.P1 ? Players.P2 : Players.P1
+}
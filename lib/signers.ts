@@ -0,0 +1,14 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+/**
+ * Get a signer by its address or the first account of the network
+ */
+export async function getSigner(hre: HardhatRuntimeEnvironment, from?: string): Promise<SignerWithAddress> {
+    if (from) {
+        return hre.ethers.getSigner(from)
+    }
+
+    const [signer] = await hre.ethers.getSigners()
+    return signer
+}
@@ -0,0 +1,322 @@
+import { BigNumber, BigNumberish, constants, Contract, utils } from "ethers"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { getTokenDecimals } from "./tokens"
+
+/**
+ * Raw `Task` struct as returned by `task`, `personalTasks` and `listTasks`
+ */
+export interface TaskStruct {
+    owner: string
+    text: string
+    expDate: number
+    doneDate: number
+    isRemoved: boolean
+}
+
+export interface DecodedTask {
+    id: number
+    owner: string
+    text: string
+    expDate: string
+    // Completion date, null while the task is not done
+    doneDate: string | null
+    isRemoved: boolean
+    isExpired: boolean
+}
+
+function toIsoDate(timestamp: number): string {
+    return new Date(timestamp * 1000).toISOString()
+}
+
+/**
+ * Decode the raw `Task` struct into a readable object
+ * @param id The id of the task
+ * @param task Raw task data
+ * @param isExpired Whether the task is expired, as returned along with the task
+ */
+export function decodeTask(id: BigNumberish, task: TaskStruct, isExpired: boolean): DecodedTask {
+    return {
+        id: BigNumber.from(id).toNumber(),
+        owner: task.owner,
+        text: task.text,
+        expDate: toIsoDate(task.expDate),
+        doneDate: task.doneDate === 0 ? null : toIsoDate(task.doneDate),
+        isRemoved: task.isRemoved,
+        isExpired,
+    }
+}
+
+/**
+ * Default number of tasks or owners in one paged call
+ */
+export const PAGE_SIZE = 100
+
+/**
+ * Get all the owner's tasks with `tasksOfPaged`, page by page
+ * @return Decoded tasks with the expiration flag
+ */
+export async function fetchTasksOf(
+    contract: Contract,
+    owner: string,
+    withExpired: boolean,
+    withRemoved: boolean,
+    pageSize = PAGE_SIZE
+): Promise<DecodedTask[]> {
+    const [created]: BigNumber[] = await contract.personalStats(owner)
+
+    const result: DecodedTask[] = []
+    for (let offset = BigNumber.from(0); offset.lt(created); ) {
+        const [tasks, ids, isExpired, next] = await contract.tasksOfPaged(
+            owner,
+            offset,
+            pageSize,
+            withExpired,
+            withRemoved
+        )
+        tasks.forEach((task: TaskStruct, i: number) => result.push(decodeTask(ids[i], task, isExpired[i])))
+        offset = next
+    }
+    return result
+}
+
+/**
+ * Get percentage of on-time completed tasks for each owner with `onTimeTaskPercentsPaged`, page by page
+ * @return Owners and their percents, as `onTimeTaskPercents` returns them
+ */
+export async function fetchOnTimePercents(contract: Contract, pageSize = PAGE_SIZE): Promise<[string[], BigNumber[]]> {
+    const total: BigNumber = await contract.totalOwners()
+
+    const result: [string[], BigNumber[]] = [[], []]
+    for (let offset = 0; total.gt(offset); offset += pageSize) {
+        const [owners, percents] = await contract.onTimeTaskPercentsPaged(offset, pageSize)
+        result[0].push(...owners)
+        result[1].push(...percents)
+    }
+    return result
+}
+
+/**
+ * Format the task as one line: id, check box, text, dates and flags
+ */
+function formatTask(task: DecodedTask): string {
+    const flags = [task.isExpired ? "expired" : "", task.isRemoved ? "removed" : ""].filter(Boolean)
+    return [
+        `#${task.id}`,
+        task.doneDate ? "[x]" : "[ ]",
+        task.text,
+        `expires: ${task.expDate}`,
+        task.doneDate ? `done: ${task.doneDate}` : "",
+        flags.length > 0 ? `(${flags.join(", ")})` : "",
+    ]
+        .filter(Boolean)
+        .join("  ")
+}
+
+/**
+ * Format tasks as a list, one task per line
+ */
+export function formatTasks(tasks: DecodedTask[]): string {
+    if (tasks.length === 0) {
+        return "No tasks"
+    }
+
+    return tasks.map(formatTask).join("\n")
+}
+
+export interface ListTask extends DecodedTask {
+    // Null while the task is not assigned
+    assignee: string | null
+}
+
+export interface DecodedList {
+    id: number
+    owner: string
+    name: string
+    members: string[]
+    tasks: ListTask[]
+}
+
+/**
+ * Get the shared list with its members and tasks along with their assignees
+ */
+export async function fetchList(
+    contract: Contract,
+    listId: number,
+    withExpired: boolean,
+    withRemoved: boolean
+): Promise<DecodedList> {
+    const { owner, name, members } = await contract.list(listId)
+    const [tasks, ids, isExpired] = await contract.listTasks(listId, withExpired, withRemoved)
+
+    const listTasks: ListTask[] = []
+    for (let i = 0; i < tasks.length; i++) {
+        const { assignee } = await contract.assignment(ids[i])
+        listTasks.push({
+            ...decodeTask(ids[i], tasks[i], isExpired[i]),
+            assignee: assignee === constants.AddressZero ? null : assignee,
+        })
+    }
+    return { id: listId, owner, name, members, tasks: listTasks }
+}
+
+/**
+ * Format the list with its members and tasks, one task per line
+ */
+export function formatList(list: DecodedList): string {
+    const header = [
+        `List #${list.id}: ${list.name}`,
+        `Owner: ${list.owner}`,
+        `Members: ${list.members.length > 0 ? list.members.join(", ") : "none"}`,
+    ]
+    const lines = formatTasks(list.tasks).split("\n")
+    if (list.tasks.length > 0) {
+        list.tasks.forEach((task, i) => {
+            lines[i] += `  assignee: ${task.assignee ?? "none"}`
+        })
+    }
+    return [...header, ...lines].join("\n")
+}
+
+/**
+ * Raw `Bounty` struct as returned by `bounty`
+ */
+export interface BountyStruct {
+    token: string
+    amount: BigNumber
+    isSettled: boolean
+}
+
+/**
+ * Locked until the task is completed on time (claimable by the owner) or expired (forfeitable by anyone)
+ */
+export type BountyStatus = "Locked" | "Claimable" | "Forfeitable" | "Settled"
+
+export interface DecodedBounty {
+    id: number
+    // Zero address for ETH
+    token: string
+    // Amount in token units
+    amount: string
+    status: BountyStatus
+}
+
+/**
+ * Get the bounty of the task with its status
+ * @return Null if the task has no bounty
+ */
+export async function fetchBounty(
+    hre: HardhatRuntimeEnvironment,
+    contract: Contract,
+    id: number
+): Promise<DecodedBounty | null> {
+    const bounty: BountyStruct = await contract.bounty(id)
+    if (bounty.amount.isZero()) {
+        return null
+    }
+
+    const [task, isExpired]: [TaskStruct, boolean] = await contract.task(id)
+    let status: BountyStatus = "Locked"
+    if (bounty.isSettled) {
+        status = "Settled"
+    } else if (task.doneDate !== 0 && task.doneDate <= task.expDate) {
+        status = "Claimable"
+    } else if (isExpired) {
+        status = "Forfeitable"
+    }
+
+    return {
+        id,
+        token: bounty.token,
+        amount: utils.formatUnits(bounty.amount, await getTokenDecimals(hre, bounty.token)),
+        status,
+    }
+}
+
+/**
+ * Raw `Recurrence` struct as returned by `recurrence`
+ */
+export interface RecurrenceStruct {
+    period: number
+    hasPrevious: boolean
+    hasNext: boolean
+    previousId: BigNumber
+    nextId: BigNumber
+}
+
+/**
+ * Get all the occurrences of the recurring task from the first one to the latest one
+ * @param id The id of any occurrence
+ * @return Decoded occurrences, only the task itself if it is not recurring
+ */
+export async function fetchRecurrenceChain(contract: Contract, id: number): Promise<DecodedTask[]> {
+    let first = id
+    let recurrence: RecurrenceStruct = await contract.recurrence(id)
+    while (recurrence.hasPrevious) {
+        first = recurrence.previousId.toNumber()
+        recurrence = await contract.recurrence(first)
+    }
+
+    const chain: DecodedTask[] = []
+    for (let current: number | undefined = first; current !== undefined; ) {
+        const [task, isExpired] = await contract.task(current)
+        chain.push(decodeTask(current, task, isExpired))
+
+        recurrence = await contract.recurrence(current)
+        current = recurrence.hasNext ? recurrence.nextId.toNumber() : undefined
+    }
+    return chain
+}
+
+/**
+ * Format the occurrences with the recurrence period, one occurrence per line
+ * @param period The recurrence period in seconds, 0 if the task is not recurring
+ */
+export function formatRecurrenceChain(chain: DecodedTask[], period: number): string {
+    const header = period === 0 ? "Not recurring" : `Recurring every ${period} seconds`
+    return `${header}\n${formatTasks(chain)}`
+}
+
+export interface TaskNode extends DecodedTask {
+    // Ids of tasks which block the task until they are done
+    dependencies: number[]
+    children: TaskNode[]
+}
+
+/**
+ * Get the task with all its descendants
+ * @param withRemoved Whether to include soft-removed subtasks with their descendants
+ */
+export async function fetchTaskTree(contract: Contract, id: number, withRemoved = true): Promise<TaskNode> {
+    const [task, isExpired] = await contract.task(id)
+    const { children, dependencies } = await contract.links(id)
+
+    const node: TaskNode = {
+        ...decodeTask(id, task, isExpired),
+        dependencies: dependencies.map((dependency: BigNumber) => dependency.toNumber()),
+        children: [],
+    }
+    for (const child of children) {
+        const childNode = await fetchTaskTree(contract, child.toNumber(), withRemoved)
+        if (withRemoved || !childNode.isRemoved) {
+            node.children.push(childNode)
+        }
+    }
+    return node
+}
+
+/**
+ * Format the task and its descendants as a tree, one task per line
+ */
+export function formatTaskTree(node: TaskNode, prefix = "", childPrefix = ""): string {
+    const blockedBy =
+        node.dependencies.length > 0 ? `  blocked by: ${node.dependencies.map((id) => `#${id}`).join(", ")}` : ""
+    const lines = [`${prefix}${formatTask(node)}${blockedBy}`]
+    node.children.forEach((child, i) => {
+        const isLast = i === node.children.length - 1
+        lines.push(
+            formatTaskTree(child, `${childPrefix}${isLast ? "└─ " : "├─ "}`, `${childPrefix}${isLast ? "   " : "│  "}`)
+        )
+    })
+    return lines.join("\n")
+}
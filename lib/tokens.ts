@@ -0,0 +1,75 @@
+import { BigNumber, constants, PayableOverrides, Signer } from "ethers"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+const ETH_DECIMALS = 18
+
+/**
+ * Check the address means ETH (zero address) instead of an ERC20 token
+ */
+export function isEth(tokenAddress?: string): boolean {
+    return !tokenAddress || tokenAddress === constants.AddressZero
+}
+
+/**
+ * Get decimals of the token (18 for ETH)
+ */
+export async function getTokenDecimals(hre: HardhatRuntimeEnvironment, tokenAddress?: string): Promise<number> {
+    if (isEth(tokenAddress)) {
+        return ETH_DECIMALS
+    }
+
+    const token = await hre.ethers.getContractAt("IERC20Metadata", tokenAddress as string)
+    return token.decimals()
+}
+
+/**
+ * Parse an amount in human units (e.g. "1.5") into the smallest units of the token
+ */
+export async function parseTokenAmount(
+    hre: HardhatRuntimeEnvironment,
+    amount: string,
+    tokenAddress?: string
+): Promise<BigNumber> {
+    const decimals = await getTokenDecimals(hre, tokenAddress)
+    return hre.ethers.utils.parseUnits(amount, decimals)
+}
+
+/**
+ * Approve the spender if the current token allowance of the owner is too low
+ * @return Bool variable is the approve transaction sent
+ */
+export async function ensureAllowance(
+    hre: HardhatRuntimeEnvironment,
+    owner: Signer,
+    tokenAddress: string,
+    spender: string,
+    amount: BigNumber
+): Promise<boolean> {
+    const token = await hre.ethers.getContractAt("IERC20Metadata", tokenAddress, owner)
+    const allowance = await token.allowance(await owner.getAddress(), spender)
+    if (allowance.gte(amount)) {
+        return false
+    }
+
+    const tx = await token.approve(spender, amount)
+    await tx.wait()
+    return true
+}
+
+/**
+ * Prepare a stake payment: ETH is sent as value, ERC20 is approved for the contract if needed
+ */
+export async function prepareStake(
+    hre: HardhatRuntimeEnvironment,
+    signer: Signer,
+    contractAddress: string,
+    tokenAddress: string,
+    stake: BigNumber
+): Promise<PayableOverrides> {
+    if (isEth(tokenAddress)) {
+        return { value: stake }
+    }
+
+    await ensureAllowance(hre, signer, tokenAddress, contractAddress, stake)
+    return {}
+}
@@ -0,0 +1,262 @@
+import { BigNumber, BigNumberish, constants, Contract, utils } from "ethers"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { formatFee } from "./fee"
+import { isEth } from "./tokens"
+
+/**
+ * Fee settings of TicTacToe, which has no getters for them
+ */
+export interface FeeSettings {
+    fee: BigNumber
+    isAbsFee: boolean
+    // Decimals of the fee
+    decimals: number
+    wallet: string
+}
+
+export interface TreasuryRow {
+    // Zero address for ETH
+    token: string
+    symbol: string
+    decimals: number
+    games: number
+    // Number of stakes whose fees have been paid to the wallet
+    stakes: number
+    // Amounts in token units
+    expected: string
+    balance: string
+    difference: string
+}
+
+export interface TreasuryReport {
+    wallet: string
+    fee: string
+    isAbsFee: boolean
+    rows: TreasuryRow[]
+}
+
+/**
+ * Transaction to submit to the wallet
+ */
+export interface WalletCall {
+    to: string
+    // In wei
+    value: string
+    data: string
+}
+
+interface StorageLayout {
+    storage: { label: string; slot: string; offset: number; type: string }[]
+    // `value` is the type of the values of mappings
+    types: Record<string, { numberOfBytes: string; value?: string }>
+}
+
+/**
+ * Read a state variable of the contract by the storage layout of its compilation
+ * @param key The key of the value if the variable is a mapping with uint256 keys
+ */
+async function readStorage(
+    hre: HardhatRuntimeEnvironment,
+    contractName: string,
+    address: string,
+    label: string,
+    key?: BigNumberish
+): Promise<string> {
+    const { sourceName } = await hre.artifacts.readArtifact(contractName)
+    const buildInfo = await hre.artifacts.getBuildInfo(`${sourceName}:${contractName}`)
+    const output = buildInfo?.output.contracts[sourceName][contractName] as { storageLayout?: StorageLayout }
+    const variable = output?.storageLayout?.storage.find((item) => item.label === label)
+    if (!output?.storageLayout || !variable) {
+        throw new Error(`Treasury: there is no ${label} in the storage layout of ${contractName}`)
+    }
+
+    let { slot, type, offset } = variable
+    if (key !== undefined) {
+        // A value of the mapping is stored at the hash of its key and the slot of the mapping
+        slot = utils.keccak256(utils.defaultAbiCoder.encode(["uint256", "uint256"], [key, slot]))
+        type = output.storageLayout.types[type].value as string
+        offset = 0
+    }
+
+    // Variables are packed from the right of the slot
+    const size = Number(output.storageLayout.types[type].numberOfBytes)
+    const word = await hre.ethers.provider.getStorageAt(address, BigNumber.from(slot).toHexString())
+    return utils.hexDataSlice(word, 32 - offset - size, 32 - offset)
+}
+
+/**
+ * Read the current fee settings of TicTacToe from its storage
+ */
+export async function readFeeSettings(hre: HardhatRuntimeEnvironment, address: string): Promise<FeeSettings> {
+    const fee = BigNumber.from(await readStorage(hre, "TicTacToe", address, "fee"))
+    const isAbsFee = !BigNumber.from(await readStorage(hre, "TicTacToe", address, "isAbsFee")).isZero()
+    const decimals = BigNumber.from(await readStorage(hre, "TicTacToe", address, "decimals")).toNumber()
+    const wallet = utils.getAddress(await readStorage(hre, "TicTacToe", address, "wallet"))
+    return { fee, isAbsFee, decimals, wallet }
+}
+
+/**
+ * Calculate the fee of one stake as `addStake` does
+ */
+export function stakeFee(settings: FeeSettings, stake: BigNumber, tokenDecimals: number): BigNumber {
+    if (!settings.isAbsFee) {
+        return stake.mul(settings.fee).div(BigNumber.from(10).pow(settings.decimals))
+    }
+    if (tokenDecimals > settings.decimals) {
+        return settings.fee.mul(BigNumber.from(10).pow(tokenDecimals - settings.decimals))
+    }
+    return settings.fee.div(BigNumber.from(10).pow(settings.decimals - tokenDecimals))
+}
+
+async function tokenSymbol(hre: HardhatRuntimeEnvironment, tokenAddress: string): Promise<string> {
+    if (isEth(tokenAddress)) {
+        return "ETH"
+    }
+
+    const token = await hre.ethers.getContractAt("IERC20Metadata", tokenAddress)
+    try {
+        return await token.symbol()
+    } catch (e) {
+        // The token has no metadata
+        return tokenAddress
+    }
+}
+
+async function walletBalance(hre: HardhatRuntimeEnvironment, wallet: string, tokenAddress: string): Promise<BigNumber> {
+    if (isEth(tokenAddress)) {
+        return hre.ethers.provider.getBalance(wallet)
+    }
+
+    const token = await hre.ethers.getContractAt("IERC20Metadata", tokenAddress)
+    return token.balanceOf(wallet)
+}
+
+/**
+ * Add up fees of the paid stakes per token with the current fee settings
+ * and compare them with the balances of the wallet.
+ * Fees of games played before a fee change are calculated with the current fee as well.
+ * Rounds of matches are skipped, their stakes are counted in the games of the matches.
+ * Fees held until the second player joins are not counted, as well as the ones refunded by cancelling the games.
+ * @param contract TicTacToe contract
+ * @param fromBlock Block to look for games from
+ */
+export async function buildTreasuryReport(
+    hre: HardhatRuntimeEnvironment,
+    contract: Contract,
+    fromBlock = 0
+): Promise<TreasuryReport> {
+    const settings = await readFeeSettings(hre, contract.address)
+    const totals = new Map<string, { decimals: number; games: number; stakes: number; expected: BigNumber }>()
+
+    // The refund of a cancelled game is the whole stake if its fee has been held
+    const refunds = new Map<string, BigNumber>()
+    for (const event of await contract.queryFilter(contract.filters.GameCancelled(), fromBlock)) {
+        refunds.set(event.args?.gameId.toString(), event.args?.refund)
+    }
+
+    const events = await contract.queryFilter(contract.filters.GameCreated(), fromBlock)
+    for (const event of events) {
+        // Rounds of matches are created without stakes, the stakes are paid in the games of the matches
+        if (!(await contract.matchOfRound(event.args?.gameId)).isZero()) {
+            continue
+        }
+
+        const game = await contract.gameById(event.args?.gameId)
+        // Each player has paid the stake when joined
+        let stakes = [game.p1, game.p2].filter((player: string) => player !== constants.AddressZero).length
+        const refund = refunds.get(event.args?.gameId.toString())
+        const heldFee = await readStorage(hre, "TicTacToe", contract.address, "heldFees", event.args?.gameId)
+        if ((refund && refund.eq(game.stake)) || !BigNumber.from(heldFee).isZero()) {
+            stakes--
+        }
+        const tokenDecimals = game.tokenDecimals.toNumber()
+
+        const total = totals.get(game.tokenAddress) ?? {
+            decimals: tokenDecimals,
+            games: 0,
+            stakes: 0,
+            expected: BigNumber.from(0),
+        }
+        total.games++
+        total.stakes += stakes
+        total.expected = total.expected.add(stakeFee(settings, game.stake, tokenDecimals).mul(stakes))
+        totals.set(game.tokenAddress, total)
+    }
+
+    const rows: TreasuryRow[] = []
+    for (const [token, total] of Array.from(totals.entries())) {
+        const balance = await walletBalance(hre, settings.wallet, token)
+        rows.push({
+            token,
+            symbol: await tokenSymbol(hre, token),
+            decimals: total.decimals,
+            games: total.games,
+            stakes: total.stakes,
+            expected: utils.formatUnits(total.expected, total.decimals),
+            balance: utils.formatUnits(balance, total.decimals),
+            difference: utils.formatUnits(balance.sub(total.expected), total.decimals),
+        })
+    }
+
+    return {
+        wallet: settings.wallet,
+        fee: formatFee(settings.fee, settings.isAbsFee, settings.decimals),
+        isAbsFee: settings.isAbsFee,
+        rows,
+    }
+}
+
+/**
+ * Draft wallet transactions which send the whole balances of the tokens to the target
+ * @param tokens Token addresses, the zero address for ETH
+ */
+export async function sweepCalls(
+    hre: HardhatRuntimeEnvironment,
+    wallet: string,
+    tokens: string[],
+    target: string
+): Promise<WalletCall[]> {
+    const calls: WalletCall[] = []
+    for (const token of tokens) {
+        const balance = await walletBalance(hre, wallet, token)
+        if (balance.isZero()) {
+            throw new Error(`Treasury: the wallet has no ${await tokenSymbol(hre, token)} to sweep`)
+        }
+
+        if (isEth(token)) {
+            calls.push({ to: target, value: balance.toString(), data: "0x" })
+        } else {
+            const erc20 = await hre.ethers.getContractAt("IERC20Metadata", token)
+            const data = erc20.interface.encodeFunctionData("transfer", [target, balance])
+            calls.push({ to: token, value: "0", data })
+        }
+    }
+    return calls
+}
+
+/**
+ * Format the report as a table, one token per row
+ */
+export function formatTreasuryReport(report: TreasuryReport): string {
+    const header = `Wallet: ${report.wallet}\nFee: ${report.fee} (${report.isAbsFee ? "absolute" : "percentage"})`
+    if (report.rows.length === 0) {
+        return `${header}\nNo games`
+    }
+
+    const table = [
+        ["Token", "Decimals", "Games", "Stakes", "Expected", "Balance", "Difference"],
+        ...report.rows.map((row) => [
+            row.symbol,
+            String(row.decimals),
+            String(row.games),
+            String(row.stakes),
+            row.expected,
+            row.balance,
+            row.difference,
+        ]),
+    ]
+    const widths = table[0].map((_, i) => Math.max(...table.map((cells) => cells[i].length)))
+    const lines = table.map((cells) => cells.map((cell, i) => cell.padEnd(widths[i])).join("  "))
+    return [header, ...lines].join("\n")
+}
@@ -0,0 +1,366 @@
+import { BigNumber, constants, utils } from "ethers"
+
+import { PhaseName, Players, PlayersName } from "./game"
+import { IndexedEvent } from "./indexer"
+
+export interface TaskView {
+    id: number
+    owner: string
+    text: string
+    expDate: number
+    doneDate: number
+    isRemoved: boolean
+    isExpired: boolean
+}
+
+export type TaskChange = "Created" | "TextEdited" | "ExpDateExtended"
+
+/**
+ * Text and exp date of a task after a change
+ */
+export interface TaskRevision {
+    change: TaskChange
+    text: string
+    expDate: number
+    timestamp: number
+    blockNumber: number
+    transactionHash: string
+}
+
+export interface OnTimePercent {
+    owner: string
+    percent: number
+}
+
+export interface MoveView {
+    player: string
+    x: number
+    y: number
+}
+
+export interface GameView {
+    id: number
+    creator: string
+    p1: string
+    p2: string
+    phase: PhaseName
+    winner: PlayersName
+    moves: MoveView[]
+    tokenAddress: string
+    tokenDecimals: number
+    stake: string
+    createdAt: string
+    // The only player who can join a challenge
+    opponent?: string
+    // Whether the second player needs an invite of the first one
+    isInviteOnly?: boolean
+    // Number of rounds of a match, which holds the stakes of its rounds
+    rounds?: number
+    // The match of a round and the number of the round in it
+    matchId?: number
+    roundNum?: number
+}
+
+export interface WalletTransactionView {
+    index: number
+    owner: string
+    to: string
+    value: string
+    data: string
+    confirmations: string[]
+    isExecuted: boolean
+}
+
+// Methods of TicTacToe which create a game with the creator as the first player
+const OWN_GAME_METHODS = ["newMyGame", "newChallenge", "newInviteGame", "newMatch"]
+
+function sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase()
+}
+
+function toNumber(value: string | number | boolean): number {
+    return BigNumber.from(value).toNumber()
+}
+
+/**
+ * Check the task has expired as `_isExpired` does
+ */
+function isExpired(task: TaskView, now: number): boolean {
+    return task.doneDate > task.expDate || (task.doneDate === 0 && task.expDate < now)
+}
+
+/**
+ * Build all the tasks of CryptoTodo from its events
+ * @param events Indexed events in the chain order
+ * @param now Timestamp to check expiration at (the latest block timestamp for parity with the contract)
+ */
+export function taskViews(events: IndexedEvent[], now: number): TaskView[] {
+    const tasks = new Map<number, TaskView>()
+
+    events
+        .filter((e) => e.contract === "CryptoTodo")
+        .forEach((e) => {
+            const id = toNumber(e.args.id)
+            if (e.event === "TaskCreated") {
+                tasks.set(id, {
+                    id,
+                    // Not the sender: relayers, batches and wallets create tasks of other owners
+                    owner: e.args.owner as string,
+                    text: e.args.text as string,
+                    expDate: toNumber(e.args.expDate),
+                    doneDate: 0,
+                    isRemoved: false,
+                    isExpired: false,
+                })
+                return
+            }
+
+            const task = tasks.get(id)
+            if (!task) {
+                return
+            }
+            if (e.event === "TaskToggled") {
+                task.doneDate = e.args.isCompleted ? e.timestamp : 0
+            } else if (e.event === "TaskRemoved") {
+                task.isRemoved = true
+            } else if (e.event === "TaskRestored") {
+                task.isRemoved = false
+            } else if (e.event === "TaskTextEdited") {
+                task.text = e.args.text as string
+            } else if (e.event === "TaskExpDateExtended") {
+                task.expDate = toNumber(e.args.expDate)
+            }
+        })
+
+    return Array.from(tasks.values())
+        .sort((a, b) => a.id - b.id)
+        .map((task) => ({ ...task, isExpired: isExpired(task, now) }))
+}
+
+/**
+ * Get the owner's tasks with the same filters as `personalTasks`
+ */
+export function personalTaskViews(
+    events: IndexedEvent[],
+    owner: string,
+    withExpired: boolean,
+    withRemoved: boolean,
+    now: number
+): TaskView[] {
+    return taskViews(events, now).filter(
+        (task) => sameAddress(task.owner, owner) && (withRemoved || !task.isRemoved) && (withExpired || !task.isExpired)
+    )
+}
+
+/**
+ * Rebuild the edit history of the task: its text and exp date after the creation and each edit
+ */
+export function taskHistory(events: IndexedEvent[], id: number): TaskRevision[] {
+    const revisions: TaskRevision[] = []
+
+    events
+        .filter((e) => e.contract === "CryptoTodo" && toNumber(e.args.id) === id)
+        .forEach((e) => {
+            const last = revisions[revisions.length - 1]
+            let revision: Pick<TaskRevision, "change" | "text" | "expDate">
+            if (e.event === "TaskCreated") {
+                revision = { change: "Created", text: e.args.text as string, expDate: toNumber(e.args.expDate) }
+            } else if (e.event === "TaskTextEdited" && last) {
+                revision = { change: "TextEdited", text: e.args.text as string, expDate: last.expDate }
+            } else if (e.event === "TaskExpDateExtended" && last) {
+                revision = { change: "ExpDateExtended", text: last.text, expDate: toNumber(e.args.expDate) }
+            } else {
+                return
+            }
+
+            revisions.push({
+                ...revision,
+                timestamp: e.timestamp,
+                blockNumber: e.blockNumber,
+                transactionHash: e.transactionHash,
+            })
+        })
+
+    return revisions
+}
+
+/**
+ * Format the edit history, one revision per line
+ */
+export function formatTaskHistory(revisions: TaskRevision[]): string {
+    if (revisions.length === 0) {
+        return "No history"
+    }
+
+    return revisions
+        .map((revision) =>
+            [
+                new Date(revision.timestamp * 1000).toISOString(),
+                revision.change.padEnd(15),
+                `expires: ${new Date(revision.expDate * 1000).toISOString()}`,
+                `text: ${revision.text}`,
+            ].join("  ")
+        )
+        .join("\n")
+}
+
+/**
+ * Get percentage of on-time completed tasks for each owner as `onTimeTaskPercents` does
+ */
+export function onTimePercentViews(events: IndexedEvent[], now: number): OnTimePercent[] {
+    const owners: string[] = []
+    const totals = new Map<string, { all: number; onTime: number }>()
+
+    taskViews(events, now).forEach((task) => {
+        let total = totals.get(task.owner)
+        if (!total) {
+            total = { all: 0, onTime: 0 }
+            totals.set(task.owner, total)
+            owners.push(task.owner)
+        }
+
+        total.all++
+        if (task.doneDate !== 0 && task.doneDate <= task.expDate) {
+            total.onTime++
+        }
+    })
+
+    return owners.map((owner) => {
+        const total = totals.get(owner) as { all: number; onTime: number }
+        return { owner, percent: Math.floor((total.onTime * 100) / total.all) }
+    })
+}
+
+/**
+ * Build all the games of TicTacToe from its events
+ */
+export function gameViews(events: IndexedEvent[]): GameView[] {
+    const games = new Map<number, GameView>()
+
+    events
+        .filter((e) => e.contract === "TicTacToe")
+        .forEach((e) => {
+            const id = toNumber(e.args.gameId)
+            if (e.event === "GameCreated") {
+                const tokenAddress = e.args.token as string
+                // The event has the passed decimals, while the contract uses 18 for ETH
+                const tokenDecimals = tokenAddress === constants.AddressZero ? 18 : toNumber(e.args.tokenDecimals)
+                const creator = e.args.creator as string
+                games.set(id, {
+                    id,
+                    creator,
+                    // Only `newMyGame` and its variants make the creator the first player, without PlayerJoinedGame
+                    p1: OWN_GAME_METHODS.includes(e.method ?? "") ? creator : constants.AddressZero,
+                    p2: constants.AddressZero,
+                    phase: "Join",
+                    winner: "None",
+                    moves: [],
+                    tokenAddress,
+                    tokenDecimals,
+                    stake: utils.formatUnits(e.args.stake as string, tokenDecimals),
+                    createdAt: new Date(e.timestamp * 1000).toISOString(),
+                })
+                return
+            }
+
+            const game = games.get(id)
+            if (!game) {
+                return
+            }
+            if (e.event === "PlayerJoinedGame") {
+                if (toNumber(e.args.playerNum) === 1) {
+                    game.p1 = e.args.player as string
+                } else {
+                    game.p2 = e.args.player as string
+                    game.phase = "P1Turn"
+                }
+            } else if (e.event === "PlayerMove") {
+                game.moves.push({ player: e.args.player as string, x: toNumber(e.args.x), y: toNumber(e.args.y) })
+                game.phase = game.phase === "P1Turn" ? "P2Turn" : "P1Turn"
+            } else if (e.event === "GameOver") {
+                game.phase = "Finished"
+                game.winner = Players[toNumber(e.args.winner)] as PlayersName
+            } else if (e.event === "GameCancelled") {
+                // A cancelled game is finished without a winner
+                game.phase = "Finished"
+            } else if (e.event === "ChallengeCreated") {
+                game.opponent = e.args.opponent as string
+            } else if (e.event === "InviteOnlyGameCreated") {
+                game.isInviteOnly = true
+            } else if (e.event === "MatchCreated") {
+                game.rounds = toNumber(e.args.rounds)
+            } else if (e.event === "RoundStarted") {
+                game.matchId = toNumber(e.args.matchId)
+                game.roundNum = toNumber(e.args.roundNum)
+            }
+        })
+
+    return Array.from(games.values()).sort((a, b) => a.id - b.id)
+}
+
+/**
+ * Build all the transactions of MultiSigWallet from its events
+ */
+export function walletTransactionViews(events: IndexedEvent[]): WalletTransactionView[] {
+    const transactions = new Map<number, WalletTransactionView>()
+
+    events
+        .filter((e) => e.contract === "MultiSigWallet" && e.event !== "Deposit")
+        .forEach((e) => {
+            const index = toNumber(e.args.txIndex)
+            const owner = e.args.owner as string
+            if (e.event === "SubmitTransaction") {
+                transactions.set(index, {
+                    index,
+                    owner,
+                    to: e.args.to as string,
+                    value: e.args.value as string,
+                    data: e.args.data as string,
+                    confirmations: [],
+                    isExecuted: false,
+                })
+                return
+            }
+
+            const transaction = transactions.get(index)
+            if (!transaction) {
+                return
+            }
+            if (e.event === "ConfirmTransaction") {
+                transaction.confirmations.push(owner)
+            } else if (e.event === "RevokeConfirmation") {
+                transaction.confirmations = transaction.confirmations.filter((item) => !sameAddress(item, owner))
+            } else if (e.event === "ExecuteTransaction") {
+                transaction.isExecuted = true
+            }
+        })
+
+    return Array.from(transactions.values()).sort((a, b) => a.index - b.index)
+}
+
+/**
+ * Format games as a list, one game per line
+ */
+export function formatGameViews(games: GameView[]): string {
+    if (games.length === 0) {
+        return "No games"
+    }
+
+    return games
+        .map((game) => {
+            const token = game.tokenAddress === constants.AddressZero ? "ETH" : game.tokenAddress
+            return [
+                `#${game.id}`,
+                game.phase.padEnd(8),
+                `${game.p1} vs ${game.p2}`,
+                `stake: ${game.stake} ${token}`,
+                `moves: ${game.moves.length}`,
+                `winner: ${game.winner}`,
+                ...(game.opponent ? [`challenged: ${game.opponent}`] : []),
+                ...(game.isInviteOnly ? ["invite only"] : []),
+                ...(game.rounds ? [`best of ${game.rounds}`] : []),
+                ...(game.matchId ? [`round ${game.roundNum} of match #${game.matchId}`] : []),
+            ].join("  ")
+        })
+        .join("\n")
+}
@@ -0,0 +1,172 @@
+import { BigNumber, BigNumberish, Contract, utils } from "ethers"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+/**
+ * Raw transaction as returned by `getTransaction`
+ */
+export interface WalletTransactionStruct {
+    to: string
+    value: BigNumberish
+    data: string
+    executed: boolean
+    numConfirmations: BigNumberish
+}
+
+export interface DecodedWalletTransaction {
+    index: number
+    to: string
+    // In ETH
+    value: string
+    data: string
+    isExecuted: boolean
+    confirmations: number
+    // Number of confirmations required to execute the transaction
+    required: number
+}
+
+/**
+ * Decode the raw wallet transaction into a readable object
+ * @param index The index of the transaction
+ * @param transaction Raw transaction data
+ * @param required `numConfirmationsRequired` of the wallet
+ */
+export function decodeWalletTransaction(
+    index: BigNumberish,
+    transaction: WalletTransactionStruct,
+    required: BigNumberish
+): DecodedWalletTransaction {
+    return {
+        index: BigNumber.from(index).toNumber(),
+        to: transaction.to,
+        value: utils.formatEther(transaction.value),
+        data: transaction.data,
+        isExecuted: transaction.executed,
+        confirmations: BigNumber.from(transaction.numConfirmations).toNumber(),
+        required: BigNumber.from(required).toNumber(),
+    }
+}
+
+/**
+ * Call of a wallet transaction decoded with a known ABI
+ */
+export interface DecodedCall {
+    signature: string
+    args: string[]
+}
+
+export interface WalletTransactionDetails extends DecodedWalletTransaction {
+    // Owners who have confirmed the transaction
+    confirmedBy: string[]
+    // The transaction is not executed and has enough confirmations
+    isExecutable: boolean
+    // The decoded calldata, if it is not empty and matches a known ABI
+    call?: DecodedCall
+}
+
+function formatArg(value: unknown): string {
+    if (BigNumber.isBigNumber(value)) {
+        return value.toString()
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(formatArg).join(", ")}]`
+    }
+    return String(value)
+}
+
+/**
+ * Interfaces of all the compiled contracts, to decode calldata of wallet transactions
+ */
+export async function artifactInterfaces(hre: HardhatRuntimeEnvironment): Promise<utils.Interface[]> {
+    const names = await hre.artifacts.getAllFullyQualifiedNames()
+    const interfaces: utils.Interface[] = []
+    for (const name of names) {
+        const { abi } = await hre.artifacts.readArtifact(name)
+        if (abi.length > 0) {
+            interfaces.push(new utils.Interface(abi))
+        }
+    }
+    return interfaces
+}
+
+/**
+ * Decode the calldata with the first interface which has its function
+ */
+export function decodeCall(interfaces: utils.Interface[], data: string): DecodedCall | undefined {
+    if (utils.hexDataLength(data) < 4) {
+        return undefined
+    }
+
+    for (const iface of interfaces) {
+        try {
+            const { signature, args } = iface.parseTransaction({ data })
+            return { signature, args: args.map(formatArg) }
+        } catch (e) {
+            // The function is not in this interface
+        }
+    }
+    return undefined
+}
+
+/**
+ * Get the transaction of the wallet with its confirmations
+ * @param contract MultiSigWallet contract
+ * @param index The index of the transaction
+ * @param interfaces Interfaces to decode the calldata with
+ */
+export async function fetchWalletTransaction(
+    contract: Contract,
+    index: number,
+    interfaces: utils.Interface[] = []
+): Promise<WalletTransactionDetails> {
+    const count: BigNumber = await contract.getTransactionCount()
+    if (count.lte(index)) {
+        throw new Error("MultiSigWallet: tx does not exist")
+    }
+
+    const transaction = decodeWalletTransaction(
+        index,
+        await contract.getTransaction(index),
+        await contract.numConfirmationsRequired()
+    )
+
+    const owners: string[] = await contract.getOwners()
+    const confirmedBy: string[] = []
+    for (const owner of owners) {
+        if (await contract.isConfirmed(index, owner)) {
+            confirmedBy.push(owner)
+        }
+    }
+
+    return {
+        ...transaction,
+        confirmedBy,
+        isExecutable: !transaction.isExecuted && transaction.confirmations >= transaction.required,
+        call: decodeCall(interfaces, transaction.data),
+    }
+}
+
+/**
+ * Format the transaction as a few lines of text
+ */
+export function formatWalletTransaction(transaction: WalletTransactionDetails): string {
+    let status = "pending"
+    if (transaction.isExecuted) {
+        status = "executed"
+    } else if (transaction.isExecutable) {
+        status = "ready to execute"
+    }
+
+    const lines = [
+        `#${transaction.index}  ${status}`,
+        `to: ${transaction.to}`,
+        `value: ${transaction.value} ETH`,
+        `confirmations: ${transaction.confirmations}/${transaction.required}` +
+            (transaction.confirmedBy.length > 0 ? ` (${transaction.confirmedBy.join(", ")})` : ""),
+    ]
+    if (transaction.call) {
+        lines.push(`call: ${transaction.call.signature} with (${transaction.call.args.join(", ")})`)
+    } else if (transaction.data !== "0x") {
+        lines.push(`data: ${transaction.data}`)
+    }
+    return lines.join("\n")
+}
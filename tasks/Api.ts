@@ -0,0 +1,27 @@
+import { task, types } from "hardhat/config"
+
+import { resolveAddress } from "../lib/deployments"
+
+task("api", "serve a read-only HTTP JSON API over the deployed contracts")
+    .addOptionalParam("port", "port to listen on", 8080, types.int)
+    .addOptionalParam("host", "host to listen on", "127.0.0.1")
+    .addOptionalParam("todo", "CryptoTodo address (the deployment if not set)")
+    .addOptionalParam("ttt", "TicTacToe address (the deployment if not set)")
+    .addOptionalParam("msw", "MultiSigWallet address (the deployment if not set)")
+    .setAction(async (taskArgs, hre) => {
+        // Loaded lazily: the API uses typechain types, which are generated on compilation
+        const { connectApiContracts, createApiServer } = await import("../lib/api")
+
+        const contracts = await connectApiContracts(hre, {
+            todo: await resolveAddress(hre, "CryptoTodo", taskArgs.todo),
+            ttt: await resolveAddress(hre, "TicTacToe", taskArgs.ttt),
+            wallet: await resolveAddress(hre, "MultiSigWallet", taskArgs.msw),
+        })
+
+        const server = createApiServer(contracts)
+        server.listen(taskArgs.port, taskArgs.host)
+        console.log(`API is listening on http://${taskArgs.host}:${taskArgs.port}`)
+
+        process.on("SIGINT", () => server.close())
+        await new Promise((resolve) => server.on("close", resolve))
+    })
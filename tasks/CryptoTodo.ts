@@ -1,4 +1,32 @@
-import { task } from "hardhat/config"
+import fs from "fs"
+import path from "path"
+import { BigNumber, constants, Contract, Event } from "ethers"
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { EXPORT_FORMATS, formatTasksAs } from "../lib/export"
+import { IMPORT_FORMATS, ImportedTask, importTasks, parseTaskRows, validateTaskRows } from "../lib/import"
+import { openIndexOf } from "../lib/indexer"
+import { getSigner } from "../lib/signers"
+import { getTokenDecimals, prepareStake } from "../lib/tokens"
+import {
+    DecodedBounty,
+    DecodedList,
+    DecodedTask,
+    decodeTask,
+    fetchBounty,
+    fetchList,
+    fetchOnTimePercents,
+    fetchRecurrenceChain,
+    fetchTaskTree,
+    fetchTasksOf,
+    formatList,
+    formatRecurrenceChain,
+    formatTaskTree,
+    formatTasks,
+    PAGE_SIZE,
+} from "../lib/todo"
+import { formatTaskHistory, onTimePercentViews, personalTaskViews, taskHistory } from "../lib/views"
 
 task("task", "get task")
     .addParam("id", "id of a necessary task")
@@ -13,21 +41,54 @@ task("task", "get task")
 task("personal", "get personal task")
     .addParam("expired", "filter for returning expired tasks (true - return)")
     .addParam("removed", "filter for returning soft-removed tasks (true - return)")
+    .addOptionalParam("owner", "owner of the tasks (the first account if not set)")
+    .addFlag("indexed", "query the event index instead of the contract")
+    .addOptionalParam("store", "path of the index (build/index/<network>.json if not set)")
+    .addOptionalParam("pageSize", "number of tasks in one contract call", PAGE_SIZE, types.int)
+    .addFlag("json", "print the tasks as JSON")
     .addParam("address", "contract address")
     .setAction(async (taskArgs, hre) => {
-        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address)
+        const withExpired = taskArgs.expired === "true"
+        const withRemoved = taskArgs.removed === "true"
+        const owner = taskArgs.owner ?? (await getSigner(hre)).address
 
-        const res = await contract.personalTasks(taskArgs.expires, taskArgs.removed)
-        console.log(res)
+        let tasks: DecodedTask[]
+        if (taskArgs.indexed) {
+            const indexer = await openIndexOf(hre, "CryptoTodo", taskArgs.address, taskArgs.store)
+            const { timestamp } = await hre.ethers.provider.getBlock("latest")
+
+            tasks = personalTaskViews(indexer.events("CryptoTodo"), owner, withExpired, withRemoved, timestamp).map(
+                (view) => decodeTask(view.id, view, view.isExpired)
+            )
+        } else {
+            const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address)
+            tasks = await fetchTasksOf(contract, owner, withExpired, withRemoved, taskArgs.pageSize)
+        }
+
+        console.log(taskArgs.json ? JSON.stringify(tasks, null, 2) : formatTasks(tasks))
+        return tasks
     })
 
 task("percentages", "get percentage of on-time completed tasks for each owner")
+    .addFlag("indexed", "query the event index instead of the contract")
+    .addOptionalParam("store", "path of the index (build/index/<network>.json if not set)")
+    .addOptionalParam("pageSize", "number of owners in one contract call", PAGE_SIZE, types.int)
     .addParam("address", "contract address")
     .setAction(async (taskArgs, hre) => {
+        if (taskArgs.indexed) {
+            const indexer = await openIndexOf(hre, "CryptoTodo", taskArgs.address, taskArgs.store)
+            const { timestamp } = await hre.ethers.provider.getBlock("latest")
+
+            const percents = onTimePercentViews(indexer.events("CryptoTodo"), timestamp)
+            console.log(percents)
+            return percents
+        }
+
         const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address)
 
-        const res = await contract.onTimeTaskPercents()
+        const res = await fetchOnTimePercents(contract, taskArgs.pageSize)
         console.log(res)
+        return res
     })
 
 task("create", "create task with description and expiration date")
@@ -45,9 +106,11 @@ task("create", "create task with description and expiration date")
 
 task("toggle", "toggle task")
     .addParam("id", "id of a necessary task")
+    .addOptionalParam("from", "owner or assignee address (the first account if not set)")
     .addParam("address", "contract address")
     .setAction(async (taskArgs, hre) => {
-        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address)
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
 
         await contract.toggle(taskArgs.id)
     })
@@ -69,3 +132,400 @@ task("restore", "restore soft-removed task")
 
         await contract.restore(taskArgs.id)
     })
+
+task("import", "create tasks from a CSV or JSON file in batches, each batch is created atomically")
+    .addParam("file", "CSV with a text,expDate header or a JSON array of { text, expDate } (timestamp or date)")
+    .addOptionalParam("format", `${IMPORT_FORMATS.join(" or ")} (by the file extension if not set)`)
+    .addOptionalParam("batchSize", "max number of tasks in one transaction", 50, types.int)
+    .addOptionalParam("maxGas", "max gas of one transaction", 10_000_000, types.int)
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre): Promise<ImportedTask[]> => {
+        const format = (taskArgs.format ?? path.extname(taskArgs.file).slice(1)).toLowerCase()
+        if (!IMPORT_FORMATS.includes(format)) {
+            throw new Error(`CryptoTodo: unknown import format ${format}, use ${IMPORT_FORMATS.join(" or ")}`)
+        }
+        if (taskArgs.batchSize < 1) {
+            throw new Error("CryptoTodo: the batch size must be positive")
+        }
+
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const rows = parseTaskRows(fs.readFileSync(taskArgs.file, "utf8"), format)
+        validateTaskRows(rows, (await hre.ethers.provider.getBlock("latest")).timestamp)
+
+        const imported = await importTasks(contract, rows, {
+            batchSize: taskArgs.batchSize,
+            maxGas: taskArgs.maxGas,
+            log: console.log,
+        })
+        imported.forEach(({ row, id }) => console.log(`row ${row} -> #${id}`))
+        return imported
+    })
+
+task("task:export", "export the tasks of the owner as JSON, CSV or an iCalendar file with a VTODO for each task")
+    .addOptionalParam("expired", "filter for returning expired tasks (true - return)", "false")
+    .addOptionalParam("removed", "filter for returning soft-removed tasks (true - return)", "false")
+    .addOptionalParam("owner", "owner of the tasks (the first account if not set)")
+    .addOptionalParam("format", `${EXPORT_FORMATS.join(", ")} (by the extension of --out, or json if not set)`)
+    .addOptionalParam("out", "path of the file to write (stdout if not set)")
+    .addOptionalParam("pageSize", "number of tasks in one contract call", PAGE_SIZE, types.int)
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre): Promise<string> => {
+        const format = (taskArgs.format ?? (taskArgs.out ? path.extname(taskArgs.out).slice(1) : "json")).toLowerCase()
+        if (!EXPORT_FORMATS.includes(format)) {
+            throw new Error(`CryptoTodo: unknown export format ${format}, use ${EXPORT_FORMATS.join(", ")}`)
+        }
+
+        const owner = taskArgs.owner ?? (await getSigner(hre)).address
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address)
+        const tasks = await fetchTasksOf(
+            contract,
+            owner,
+            taskArgs.expired === "true",
+            taskArgs.removed === "true",
+            taskArgs.pageSize
+        )
+
+        const { chainId } = await hre.ethers.provider.getNetwork()
+        const { timestamp } = await hre.ethers.provider.getBlock("latest")
+        const content = formatTasksAs(tasks, format, { chainId, address: contract.address, timestamp })
+
+        if (taskArgs.out) {
+            fs.writeFileSync(taskArgs.out, content)
+            console.log(`Exported ${tasks.length} tasks to ${taskArgs.out}`)
+        } else {
+            process.stdout.write(content)
+        }
+        return content
+    })
+
+/**
+ * Print the decoded task after a change
+ */
+async function printTask(contract: Contract, id: number): Promise<DecodedTask> {
+    const [data, isExpired] = await contract.task(id)
+    const task = decodeTask(id, data, isExpired)
+    console.log(task)
+    return task
+}
+
+task("task:edit", "edit the description of the task")
+    .addParam("id", "id of a necessary task", undefined, types.int)
+    .addParam("text", "new description")
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.editText(taskArgs.id, taskArgs.text)
+        await tx.wait()
+
+        return printTask(contract, taskArgs.id)
+    })
+
+task("task:extend", "move the expiration date of the task later, before the task has expired")
+    .addParam("id", "id of a necessary task", undefined, types.int)
+    .addParam("date", "new expiration date (timestamp)", undefined, types.int)
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.extendExpDate(taskArgs.id, taskArgs.date)
+        await tx.wait()
+
+        return printTask(contract, taskArgs.id)
+    })
+
+task("recurring", "create a recurring task, its next occurrence is spawned when it is done or expired")
+    .addParam("text", "description")
+    .addParam("date", "expiration date of the first occurrence (timestamp)", undefined, types.int)
+    .addParam("period", "time between expiration dates of occurrences in seconds", undefined, types.int)
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.createRecurring(taskArgs.text, taskArgs.date, taskArgs.period)
+        const rc = await tx.wait()
+        const event = rc.events.find((e: Event) => e.event === "TaskCreated")
+
+        return printTask(contract, event.args.id.toNumber())
+    })
+
+task("recur", "spawn the next occurrence of the expired recurring task")
+    .addParam("id", "id of a necessary task", undefined, types.int)
+    .addOptionalParam("from", "sender address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.recur(taskArgs.id)
+        const rc = await tx.wait()
+        const event = rc.events.find((e: Event) => e.event === "TaskRecurred")
+
+        return printTask(contract, event.args.nextId.toNumber())
+    })
+
+task("recur:stop", "stop the recurring task, so no next occurrence is spawned after it")
+    .addParam("id", "id of the last occurrence", undefined, types.int)
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.stopRecurring(taskArgs.id)
+        await tx.wait()
+
+        return printTask(contract, taskArgs.id)
+    })
+
+task("task:chain", "show all the occurrences of the recurring task")
+    .addParam("id", "id of any occurrence", undefined, types.int)
+    .addFlag("json", "print the occurrences as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address)
+
+        const chain = await fetchRecurrenceChain(contract, taskArgs.id)
+        const { period } = await contract.recurrence(taskArgs.id)
+        console.log(taskArgs.json ? JSON.stringify(chain, null, 2) : formatRecurrenceChain(chain, period))
+        return chain
+    })
+
+task("subtask", "create a subtask, the parent cannot be done until its non-removed subtasks are done")
+    .addParam("parent", "id of a parent task", undefined, types.int)
+    .addParam("text", "description")
+    .addParam("date", "expiration date (timestamp)", undefined, types.int)
+    .addOptionalParam("from", "owner address of the parent (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.createSubtask(taskArgs.parent, taskArgs.text, taskArgs.date)
+        const rc = await tx.wait()
+        const event = rc.events.find((e: Event) => e.event === "SubtaskCreated")
+
+        return printTask(contract, event.args.id.toNumber())
+    })
+
+task("task:depend", "make the task blocked until another task is done")
+    .addParam("id", "id of a necessary task", undefined, types.int)
+    .addParam("on", "id of a blocking task", undefined, types.int)
+    .addFlag("remove", "remove the dependency instead")
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = taskArgs.remove
+            ? await contract.removeDependency(taskArgs.id, taskArgs.on)
+            : await contract.addDependency(taskArgs.id, taskArgs.on)
+        await tx.wait()
+
+        const { dependencies } = await contract.links(taskArgs.id)
+        const ids = dependencies.map((id: BigNumber) => id.toNumber())
+        console.log(
+            `Task #${taskArgs.id} is blocked by: ${
+                ids.length > 0 ? ids.map((id: number) => `#${id}`).join(", ") : "none"
+            }`
+        )
+        return ids
+    })
+
+task("tree", "show the task with its subtasks and their status")
+    .addParam("id", "id of a necessary task", undefined, types.int)
+    .addOptionalParam("removed", "filter for returning soft-removed subtasks (true - return)", "true")
+    .addFlag("json", "print the tree as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address)
+
+        const tree = await fetchTaskTree(contract, taskArgs.id, taskArgs.removed === "true")
+        console.log(taskArgs.json ? JSON.stringify(tree, null, 2) : formatTaskTree(tree))
+        return tree
+    })
+
+task("task:history", "show the edit history of the task from the event index")
+    .addParam("id", "id of a necessary task", undefined, types.int)
+    .addOptionalParam("store", "path of the index (build/index/<network>.json if not set)")
+    .addFlag("json", "print the history as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const indexer = await openIndexOf(hre, "CryptoTodo", taskArgs.address, taskArgs.store)
+
+        const revisions = taskHistory(indexer.events("CryptoTodo"), taskArgs.id)
+        console.log(taskArgs.json ? JSON.stringify(revisions, null, 2) : formatTaskHistory(revisions))
+        return revisions
+    })
+
+task("list:create", "create a shared list, the sender becomes its owner")
+    .addParam("name", "name of the list")
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.createList(taskArgs.name)
+        const rc = await tx.wait()
+        const event = rc.events.find((e: Event) => e.event === "ListCreated")
+        const listId = event.args.listId.toNumber()
+        console.log(listId)
+        return listId
+    })
+
+task("list:add", "add a member to the list")
+    .addParam("list", "id of a necessary list", undefined, types.int)
+    .addParam("member", "address of a new member")
+    .addOptionalParam("from", "list owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.addMember(taskArgs.list, taskArgs.member)
+        await tx.wait()
+        console.log(`Added ${taskArgs.member} to list #${taskArgs.list}`)
+    })
+
+task("list:remove", "remove a member from the list")
+    .addParam("list", "id of a necessary list", undefined, types.int)
+    .addParam("member", "address of a member")
+    .addOptionalParam("from", "list owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.removeMember(taskArgs.list, taskArgs.member)
+        await tx.wait()
+        console.log(`Removed ${taskArgs.member} from list #${taskArgs.list}`)
+    })
+
+task("list:task", "create a task in the list")
+    .addParam("list", "id of a necessary list", undefined, types.int)
+    .addParam("text", "description")
+    .addParam("date", "expiration date (timestamp)", undefined, types.int)
+    .addOptionalParam("from", "list owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.createInList(taskArgs.list, taskArgs.text, taskArgs.date)
+        const rc = await tx.wait()
+        const event = rc.events.find((e: Event) => e.event === "ListTaskCreated")
+
+        return printTask(contract, event.args.id.toNumber())
+    })
+
+task("task:assign", "assign a list task to a member of the list, who is then allowed to toggle it")
+    .addParam("id", "id of a necessary task", undefined, types.int)
+    .addOptionalParam("to", "address of a member (unassign the task if not set)")
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.assign(taskArgs.id, taskArgs.to ?? hre.ethers.constants.AddressZero)
+        await tx.wait()
+        console.log(taskArgs.to ? `Assigned task #${taskArgs.id} to ${taskArgs.to}` : `Unassigned task #${taskArgs.id}`)
+    })
+
+task("list:show", "show the list with its members and tasks")
+    .addParam("list", "id of a necessary list", undefined, types.int)
+    .addOptionalParam("expired", "filter for returning expired tasks (true - return)", "true")
+    .addOptionalParam("removed", "filter for returning soft-removed tasks (true - return)", "false")
+    .addFlag("json", "print the list as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre): Promise<DecodedList> => {
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address)
+
+        const list = await fetchList(contract, taskArgs.list, taskArgs.expired === "true", taskArgs.removed === "true")
+        console.log(taskArgs.json ? JSON.stringify(list, null, 2) : formatList(list))
+        return list
+    })
+
+/**
+ * Print the bounty of the task after a change
+ */
+async function printBounty(
+    hre: HardhatRuntimeEnvironment,
+    contract: Contract,
+    id: number
+): Promise<DecodedBounty | null> {
+    const bounty = await fetchBounty(hre, contract, id)
+    console.log(bounty ?? `Task #${id} has no bounty`)
+    return bounty
+}
+
+task("bounty", "get the bounty of the task")
+    .addParam("id", "id of a necessary task", undefined, types.int)
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address)
+
+        return printBounty(hre, contract, taskArgs.id)
+    })
+
+task("bounty:create", "create a task with a bounty, which is refunded if the task is completed on time")
+    .addParam("text", "description")
+    .addParam("date", "expiration date (timestamp)", undefined, types.int)
+    .addParam("amount", "bounty in token units (e.g. 1.5)")
+    .addOptionalParam("token", "ERC20 token address of the bounty (ETH if not set)", constants.AddressZero)
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const amount = hre.ethers.utils.parseUnits(taskArgs.amount, await getTokenDecimals(hre, taskArgs.token))
+        const overrides = await prepareStake(hre, signer, contract.address, taskArgs.token, amount)
+        const tx = await contract.createFunded(taskArgs.text, taskArgs.date, taskArgs.token, amount, overrides)
+        const rc = await tx.wait()
+        const event = rc.events.find((e: Event) => e.event === "BountyLocked")
+
+        return printTask(contract, event.args.id.toNumber())
+    })
+
+task("bounty:claim", "refund the bounty of the task completed on time")
+    .addParam("id", "id of a necessary task", undefined, types.int)
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const tx = await contract.claimBounty(taskArgs.id)
+        await tx.wait()
+
+        return printBounty(hre, contract, taskArgs.id)
+    })
+
+task("bounty:forfeit", "send the bounties of the expired tasks to the beneficiary")
+    .addParam("ids", "comma-separated ids of the tasks")
+    .addOptionalParam("from", "sender address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", taskArgs.address, signer)
+
+        const bounties: (DecodedBounty | null)[] = []
+        for (const id of taskArgs.ids.split(",").map(Number)) {
+            const tx = await contract.forfeitBounty(id)
+            await tx.wait()
+            bounties.push(await printBounty(hre, contract, id))
+        }
+        return bounties
+    })
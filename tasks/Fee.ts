@@ -0,0 +1,98 @@
+import fs from "fs"
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { resolveAddress } from "../lib/deployments"
+import { FEE_KINDS, FeeKind, formatFee, parseFee, recoverFeeSigner, SignedFeeChange, signFeeChange } from "../lib/fee"
+import { getSigner } from "../lib/signers"
+
+async function tictactoeAddress(hre: HardhatRuntimeEnvironment, address?: string): Promise<string> {
+    const resolved = await resolveAddress(hre, "TicTacToe", address)
+    if (!resolved) {
+        throw new Error("TicTacToe: there is no deployment, pass the proxy address")
+    }
+    return hre.ethers.utils.getAddress(resolved)
+}
+
+function parseKind(kind: string): FeeKind {
+    if (!FEE_KINDS.includes(kind as FeeKind)) {
+        throw new Error(`TicTacToe: unknown fee kind ${kind}, use ${FEE_KINDS.join(" or ")}`)
+    }
+    return kind as FeeKind
+}
+
+task("fee:sign", "sign a fee change as the owner of TicTacToe, the signature can be applied by any account")
+    .addParam("fee", "fee in human units: 1.5 is 1.5% of a stake or 1.5 tokens of a stake")
+    .addOptionalParam("kind", `fee kind: ${FEE_KINDS.join(" or ")}`, "percent")
+    .addOptionalParam("chainId", "chain of the contract (the network chain if not set)", undefined, types.int)
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addOptionalParam("out", "file to write the signed fee change to")
+    .addOptionalParam("address", "TicTacToe proxy address (the deployment if not set)")
+    .setAction(async (taskArgs, hre) => {
+        const address = await tictactoeAddress(hre, taskArgs.address)
+        const chainId = taskArgs.chainId ?? Number(await hre.getChainId())
+        const change = parseFee(taskArgs.fee, parseKind(taskArgs.kind))
+
+        const signer = await getSigner(hre, taskArgs.from)
+        const signed = await signFeeChange(signer, chainId, address, change)
+
+        if (taskArgs.out) {
+            fs.writeFileSync(taskArgs.out, JSON.stringify(signed, null, 2))
+            console.log(`Signed fee change to ${formatFee(change.fee, change.isAbsFee)} is written to ${taskArgs.out}`)
+        } else {
+            console.log(JSON.stringify(signed, null, 2))
+        }
+        return signed
+    })
+
+task("fee:apply", "apply the fee change signed by the owner of TicTacToe")
+    .addOptionalParam("file", "signed fee change written by fee:sign")
+    .addOptionalParam("fee", "fee in human units, if there is no file")
+    .addOptionalParam("kind", `fee kind: ${FEE_KINDS.join(" or ")}, if there is no file`, "percent")
+    .addOptionalParam("signature", "signature of the owner, if there is no file")
+    .addOptionalParam("from", "relayer address (the first account if not set)")
+    .addOptionalParam("address", "TicTacToe proxy address (the deployment if not set)")
+    .setAction(async (taskArgs, hre) => {
+        const address = await tictactoeAddress(hre, taskArgs.address)
+        const chainId = Number(await hre.getChainId())
+
+        let signed: SignedFeeChange
+        if (taskArgs.file) {
+            signed = JSON.parse(fs.readFileSync(taskArgs.file, "utf8"))
+        } else {
+            if (!taskArgs.fee || !taskArgs.signature) {
+                throw new Error("TicTacToe: pass the file of fee:sign, or the fee and the signature")
+            }
+            const change = parseFee(taskArgs.fee, parseKind(taskArgs.kind))
+            signed = {
+                chainId,
+                address,
+                fee: change.fee.toString(),
+                isAbsFee: change.isAbsFee,
+                signer: "",
+                signature: taskArgs.signature,
+            }
+        }
+
+        if (signed.chainId !== chainId) {
+            throw new Error(`TicTacToe: the fee is signed for chain ${signed.chainId}, the network is ${chainId}`)
+        }
+        if (signed.address.toLowerCase() !== address.toLowerCase()) {
+            throw new Error(`TicTacToe: the fee is signed for ${signed.address}, not for ${address}`)
+        }
+
+        // Check the signer before sending, so the relayer does not pay for a reverted transaction
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("TicTacToe", address, signer)
+        const recovered = recoverFeeSigner(signed)
+        const owner = await contract.owner()
+        if (recovered !== owner) {
+            throw new Error(`TicTacToe: the fee is signed by ${recovered}, not by the owner ${owner}`)
+        }
+
+        const tx = await contract.changeFee(signed.fee, signed.isAbsFee, signed.signature)
+        await tx.wait()
+
+        console.log(`Fee is changed to ${formatFee(hre.ethers.BigNumber.from(signed.fee), signed.isAbsFee)}`)
+        return { ...signed, signer: recovered, transactionHash: tx.hash }
+    })
@@ -0,0 +1,50 @@
+import { Contract } from "ethers"
+import { task, types } from "hardhat/config"
+
+import { resolveAddress } from "../lib/deployments"
+import { defaultStorePath, IndexedContract, Indexer, JsonStore } from "../lib/indexer"
+
+task("index", "index events of CryptoTodo, TicTacToe and MultiSigWallet into a JSON file")
+    .addOptionalParam("todo", "CryptoTodo address (the deployment if not set)")
+    .addOptionalParam("ttt", "TicTacToe address (the deployment if not set)")
+    .addOptionalParam("msw", "MultiSigWallet address (the deployment if not set)")
+    .addOptionalParam("store", "path of the index (build/index/<network>.json if not set)")
+    .addOptionalParam("fromBlock", "block to index from", 0, types.int)
+    .addFlag("follow", "keep indexing new blocks until interrupted")
+    .addOptionalParam("interval", "polling interval (ms)", 2000, types.int)
+    .setAction(async (taskArgs, hre) => {
+        const addresses: Record<IndexedContract, string | undefined> = {
+            CryptoTodo: await resolveAddress(hre, "CryptoTodo", taskArgs.todo),
+            TicTacToe: await resolveAddress(hre, "TicTacToe", taskArgs.ttt),
+            MultiSigWallet: await resolveAddress(hre, "MultiSigWallet", taskArgs.msw),
+        }
+
+        const contracts: Partial<Record<IndexedContract, Contract>> = {}
+        for (const name of Object.keys(addresses) as IndexedContract[]) {
+            const address = addresses[name]
+            if (address) {
+                contracts[name] = await hre.ethers.getContractAt(name, address)
+            }
+        }
+        if (Object.keys(contracts).length === 0) {
+            throw new Error("Indexer: there are no contracts to index, pass their addresses")
+        }
+
+        const store = new JsonStore(taskArgs.store ?? defaultStorePath(hre))
+        const indexer = new Indexer({
+            provider: hre.ethers.provider,
+            contracts,
+            store,
+            fromBlock: taskArgs.fromBlock,
+        })
+
+        if (taskArgs.follow) {
+            process.on("SIGINT", () => indexer.stop())
+            await indexer.run(taskArgs.interval)
+        } else {
+            const count = await indexer.sync()
+            console.log(`Indexed ${count} new events up to block ${indexer.lastBlock} into ${store.path}`)
+        }
+
+        return { lastBlock: indexer.lastBlock, events: indexer.events().length }
+    })
@@ -0,0 +1,198 @@
+import { BigNumber, Contract, Event } from "ethers"
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { resolveAddress } from "../lib/deployments"
+import { getSigner } from "../lib/signers"
+import { getTokenDecimals } from "../lib/tokens"
+import {
+    artifactInterfaces,
+    fetchWalletTransaction,
+    formatWalletTransaction,
+    WalletTransactionDetails,
+} from "../lib/wallet"
+
+/**
+ * Get the wallet at the address (the deployment if not set) connected with the signer
+ */
+async function getWallet(hre: HardhatRuntimeEnvironment, address?: string, from?: string): Promise<Contract> {
+    const walletAddress = await resolveAddress(hre, "MultiSigWallet", address)
+    if (!walletAddress) {
+        throw new Error("MultiSigWallet: there is no deployment, pass the contract address")
+    }
+
+    const signer = await getSigner(hre, from)
+    return hre.ethers.getContractAt("MultiSigWallet", walletAddress, signer)
+}
+
+/**
+ * Build the calldata of the submitted transaction
+ * @return Recipient of the transaction and the calldata
+ */
+async function buildCall(
+    hre: HardhatRuntimeEnvironment,
+    wallet: Contract,
+    taskArgs: Record<string, string | undefined>
+): Promise<{ to: string; data: string }> {
+    if (taskArgs.token) {
+        // A transfer of the collected fees: the whole balance of the wallet if the amount is not set
+        const token = await hre.ethers.getContractAt("IERC20Metadata", taskArgs.token)
+        const amount = taskArgs.amount
+            ? hre.ethers.utils.parseUnits(taskArgs.amount, await getTokenDecimals(hre, taskArgs.token))
+            : await token.balanceOf(wallet.address)
+        if (amount.isZero()) {
+            throw new Error("MultiSigWallet: there are no tokens to transfer")
+        }
+
+        const data = token.interface.encodeFunctionData("transfer", [taskArgs.to, amount])
+        return { to: taskArgs.token, data }
+    }
+
+    if (taskArgs.contract) {
+        if (!taskArgs.method) {
+            throw new Error("MultiSigWallet: pass the method to call")
+        }
+
+        let args: unknown[]
+        try {
+            args = JSON.parse(taskArgs.args ?? "[]")
+        } catch (e) {
+            throw new Error(`MultiSigWallet: args must be a JSON array, got ${taskArgs.args}`)
+        }
+        if (!Array.isArray(args)) {
+            throw new Error(`MultiSigWallet: args must be a JSON array, got ${taskArgs.args}`)
+        }
+
+        const { abi } = await hre.artifacts.readArtifact(taskArgs.contract)
+        const data = new hre.ethers.utils.Interface(abi).encodeFunctionData(taskArgs.method, args)
+        return { to: taskArgs.to as string, data }
+    }
+
+    return { to: taskArgs.to as string, data: "0x" }
+}
+
+/**
+ * Print the transaction as text or as JSON
+ */
+async function printTransaction(
+    hre: HardhatRuntimeEnvironment,
+    wallet: Contract,
+    index: number,
+    json: boolean
+): Promise<WalletTransactionDetails> {
+    const transaction = await fetchWalletTransaction(wallet, index, await artifactInterfaces(hre))
+    console.log(json ? JSON.stringify(transaction, null, 2) : formatWalletTransaction(transaction))
+    return transaction
+}
+
+task("msw:submit", "submit a transaction to the wallet")
+    .addParam("to", "recipient address, or the token recipient of --token")
+    .addOptionalParam("value", "ETH to send (e.g. 1.5)", "0")
+    .addOptionalParam("contract", "name of the called contract to encode the calldata with")
+    .addOptionalParam("method", "called method of --contract (a name or a signature)")
+    .addOptionalParam("args", "arguments of the method as a JSON array", "[]")
+    .addOptionalParam("token", "ERC20 token address to transfer the collected fees of")
+    .addOptionalParam("amount", "amount of --token in token units (the whole balance of the wallet if not set)")
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addFlag("json", "print the transaction as JSON")
+    .addOptionalParam("address", "contract address (the deployment if not set)")
+    .setAction(async (taskArgs, hre) => {
+        const wallet = await getWallet(hre, taskArgs.address, taskArgs.from)
+
+        const { to, data } = await buildCall(hre, wallet, taskArgs)
+        const value = hre.ethers.utils.parseEther(taskArgs.value)
+
+        const tx = await wallet.submitTransaction(to, value, data)
+        const rc = await tx.wait()
+        const event = rc.events?.find((e: Event) => e.event === "SubmitTransaction")
+        const index: BigNumber = event?.args?.txIndex
+
+        await printTransaction(hre, wallet, index.toNumber(), taskArgs.json)
+        return index.toNumber()
+    })
+
+task("msw:confirm", "confirm the transaction of the wallet")
+    .addParam("index", "index of the transaction", undefined, types.int)
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addFlag("json", "print the transaction as JSON")
+    .addOptionalParam("address", "contract address (the deployment if not set)")
+    .setAction(async (taskArgs, hre) => {
+        const wallet = await getWallet(hre, taskArgs.address, taskArgs.from)
+
+        const tx = await wallet.confirmTransaction(taskArgs.index)
+        await tx.wait()
+
+        return printTransaction(hre, wallet, taskArgs.index, taskArgs.json)
+    })
+
+task("msw:revoke", "revoke the confirmation of the transaction")
+    .addParam("index", "index of the transaction", undefined, types.int)
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addFlag("json", "print the transaction as JSON")
+    .addOptionalParam("address", "contract address (the deployment if not set)")
+    .setAction(async (taskArgs, hre) => {
+        const wallet = await getWallet(hre, taskArgs.address, taskArgs.from)
+
+        const tx = await wallet.revokeConfirmation(taskArgs.index)
+        await tx.wait()
+
+        return printTransaction(hre, wallet, taskArgs.index, taskArgs.json)
+    })
+
+task("msw:execute", "execute the transaction when it has enough confirmations")
+    .addParam("index", "index of the transaction", undefined, types.int)
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addFlag("json", "print the transaction as JSON")
+    .addOptionalParam("address", "contract address (the deployment if not set)")
+    .setAction(async (taskArgs, hre) => {
+        const wallet = await getWallet(hre, taskArgs.address, taskArgs.from)
+
+        const transaction = await fetchWalletTransaction(wallet, taskArgs.index)
+        if (!transaction.isExecuted && !transaction.isExecutable) {
+            throw new Error(
+                `MultiSigWallet: the tx has ${transaction.confirmations} of ${transaction.required} confirmations`
+            )
+        }
+
+        const tx = await wallet.executeTransaction(taskArgs.index)
+        await tx.wait()
+
+        return printTransaction(hre, wallet, taskArgs.index, taskArgs.json)
+    })
+
+task("msw:list", "list transactions of the wallet")
+    .addFlag("all", "list executed transactions too")
+    .addFlag("json", "print the transactions as JSON")
+    .addOptionalParam("address", "contract address (the deployment if not set)")
+    .setAction(async (taskArgs, hre) => {
+        const wallet = await getWallet(hre, taskArgs.address)
+        const interfaces = await artifactInterfaces(hre)
+
+        const count = (await wallet.getTransactionCount()).toNumber()
+        const transactions: WalletTransactionDetails[] = []
+        for (let index = 0; index < count; index++) {
+            const transaction = await fetchWalletTransaction(wallet, index, interfaces)
+            if (taskArgs.all || !transaction.isExecuted) {
+                transactions.push(transaction)
+            }
+        }
+
+        if (taskArgs.json) {
+            console.log(JSON.stringify(transactions, null, 2))
+        } else {
+            console.log(
+                transactions.length > 0 ? transactions.map(formatWalletTransaction).join("\n\n") : "No transactions"
+            )
+        }
+        return transactions
+    })
+
+task("msw:show", "show the transaction of the wallet")
+    .addParam("index", "index of the transaction", undefined, types.int)
+    .addFlag("json", "print the transaction as JSON")
+    .addOptionalParam("address", "contract address (the deployment if not set)")
+    .setAction(async (taskArgs, hre) => {
+        const wallet = await getWallet(hre, taskArgs.address)
+
+        return printTransaction(hre, wallet, taskArgs.index, taskArgs.json)
+    })
@@ -0,0 +1,75 @@
+import fs from "fs"
+import { task, types } from "hardhat/config"
+
+import { resolveAddress } from "../lib/deployments"
+import { SignedTodoRequest, signTodoRequest, TODO_ACTIONS, TodoAction } from "../lib/meta"
+import { createRelayerServer } from "../lib/relayer"
+import { getSigner } from "../lib/signers"
+
+task("meta:sign", "sign a CryptoTodo request, which can be submitted by any relayer")
+    .addParam("action", `action: ${TODO_ACTIONS.join(", ")}`)
+    .addOptionalParam("text", "description of a new task for create")
+    .addOptionalParam("date", "expiration date of a new task for create (timestamp)", undefined, types.int)
+    .addOptionalParam("id", "id of a necessary task for other actions", undefined, types.int)
+    .addOptionalParam("ttl", "number of seconds the signature can be used for", 3600, types.int)
+    .addOptionalParam("from", "signer address (the first account if not set)")
+    .addOptionalParam("out", "file to write the signed request to")
+    .addOptionalParam("address", "CryptoTodo address (the deployment if not set)")
+    .setAction(async (taskArgs, hre): Promise<SignedTodoRequest> => {
+        const action = taskArgs.action as TodoAction
+        if (!TODO_ACTIONS.includes(action)) {
+            throw new Error(`CryptoTodo: unknown action ${action}, use ${TODO_ACTIONS.join(", ")}`)
+        }
+        if (action === "create" ? !taskArgs.text || !taskArgs.date : taskArgs.id === undefined) {
+            throw new Error(
+                `CryptoTodo: pass ${action === "create" ? "the text and the date" : "the id"} for ${action}`
+            )
+        }
+
+        const address = await resolveAddress(hre, "CryptoTodo", taskArgs.address)
+        if (!address) {
+            throw new Error("CryptoTodo: there is no deployment, pass the address")
+        }
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", address)
+        const { timestamp } = await hre.ethers.provider.getBlock("latest")
+
+        const signed = await signTodoRequest(signer, Number(await hre.getChainId()), contract.address, {
+            action,
+            signer: signer.address,
+            text: taskArgs.text,
+            expDate: taskArgs.date,
+            id: taskArgs.id,
+            nonce: (await contract.nonces(signer.address)).toString(),
+            deadline: timestamp + taskArgs.ttl,
+        })
+
+        if (taskArgs.out) {
+            fs.writeFileSync(taskArgs.out, JSON.stringify(signed, null, 2))
+            console.log(`Signed ${action} request is written to ${taskArgs.out}`)
+        } else {
+            console.log(JSON.stringify(signed, null, 2))
+        }
+        return signed
+    })
+
+task("relayer", "serve an HTTP relayer which submits signed CryptoTodo requests from a funded account")
+    .addOptionalParam("port", "port to listen on", 8081, types.int)
+    .addOptionalParam("host", "host to listen on", "127.0.0.1")
+    .addOptionalParam("from", "funded account which pays for the transactions (the first account if not set)")
+    .addOptionalParam("address", "CryptoTodo address (the deployment if not set)")
+    .setAction(async (taskArgs, hre) => {
+        const address = await resolveAddress(hre, "CryptoTodo", taskArgs.address)
+        if (!address) {
+            throw new Error("CryptoTodo: there is no deployment, pass the address")
+        }
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt("CryptoTodo", address, signer)
+
+        const server = createRelayerServer(contract)
+        server.listen(taskArgs.port, taskArgs.host)
+        console.log(`Relayer of ${signer.address} is listening on http://${taskArgs.host}:${taskArgs.port}`)
+
+        process.on("SIGINT", () => server.close())
+        await new Promise((resolve) => server.on("close", resolve))
+    })
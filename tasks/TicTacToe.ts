@@ -1,69 +1,511 @@
-import { task } from "hardhat/config"
+import { BigNumber, constants, Contract, ContractFactory, Event, utils } from "ethers"
+import fs from "fs"
+import { task, types } from "hardhat/config"
+
+import { DIFFICULTIES, TicTacToeBot } from "../lib/bot"
+import { DecodedGame, decodeStats, fetchClaimsStartId, fetchGame, formatGame, formatStats } from "../lib/game"
+import { openIndexOf } from "../lib/indexer"
+import { recoverInviteSigner, SignedInvite, signInvite } from "../lib/invite"
+import { DecodedMatch, fetchMatch, followMatch, formatMatch } from "../lib/match"
+import { playGame } from "../lib/play"
+import { getSigner } from "../lib/signers"
+import { getTokenDecimals, isEth, prepareStake } from "../lib/tokens"
+import { formatGameViews, gameViews } from "../lib/views"
+
+// TicTacToeV2 has all the functions of TicTacToe, so its ABI works with the proxy before the upgrade as well
+const CONTRACT_NAME = "TicTacToeV2"
+
+/**
+ * Print the decoded game as a board or as JSON
+ */
+async function printGame(contract: Contract, id: number, json: boolean): Promise<DecodedGame> {
+    const game = await fetchGame(contract, id)
+    console.log(json ? JSON.stringify(game, null, 2) : formatGame(game))
+    return game
+}
+
+/**
+ * Print the decoded match as a score or as JSON
+ */
+async function printMatch(contract: Contract, id: number, json: boolean): Promise<DecodedMatch> {
+    const match = await fetchMatch(contract, id)
+    console.log(json ? JSON.stringify(match, null, 2) : formatMatch(match))
+    return match
+}
+
+task("upgrade", "upgrade the TicTacToe proxy to TicTacToeV2 with configurable boards, the games are kept")
+    .addOptionalParam("from", "owner address (the first account if not set)")
+    .addParam("address", "proxy address")
+    .addOptionalParam(
+        "unpaidGames",
+        "comma-separated ids of the games finished by the implementation before the claims were tracked, whose prizes have not been sent"
+    )
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        // The factory is typed by typechain, while the plugin takes the ethers one
+        const factory = (await hre.ethers.getContractFactory(CONTRACT_NAME, signer)) as unknown as ContractFactory
+
+        // The proxy deployed before the claims were tracked starts tracking them in the upgrade,
+        // otherwise the prizes sent by its implementation could be claimed again
+        const proxy = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address)
+        const isTracked = !(await fetchClaimsStartId(proxy)).isZero()
+        if (isTracked && taskArgs.unpaidGames) {
+            throw new Error("TicTacToe: the claims are already tracked, the unpaid games can be claimed")
+        }
+        const unpaidIds = taskArgs.unpaidGames ? taskArgs.unpaidGames.split(",").map(Number) : []
+
+        const upgraded = await hre.upgrades.upgradeProxy(taskArgs.address, factory, {
+            call: isTracked ? undefined : { fn: "initializeClaims", args: [unpaidIds] },
+        })
+        await upgraded.deployed()
+
+        const implementation = await hre.upgrades.erc1967.getImplementationAddress(upgraded.address)
+        console.log(`TicTacToe ${upgraded.address} is upgraded to ${CONTRACT_NAME} at ${implementation}`)
+        return implementation
+    })
 
 task("game", "get game")
-    .addParam("id", "id of a necessary game")
+    .addParam("id", "id of a necessary game", undefined, types.int)
+    .addFlag("json", "print the game as JSON")
     .addParam("address", "contract address")
     .setAction(async (taskArgs, hre) => {
-        const contract = await hre.ethers.getContractAt("TicTacToe", taskArgs.address)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address)
 
-        const res = await contract.gameById(taskArgs.id)
-        console.log(res)
+        return printGame(contract, taskArgs.id, taskArgs.json)
     })
 
 task("stats", "get stats by user address")
     .addParam("user", "user address")
+    .addFlag("json", "print the stats as JSON")
     .addParam("address", "contract address")
     .setAction(async (taskArgs, hre) => {
-        const contract = await hre.ethers.getContractAt("TicTacToe", taskArgs.address)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address)
 
-        const res = await contract.statsBy(taskArgs.user)
-        console.log(res)
+        const stats = decodeStats(await contract.statsBy(taskArgs.user))
+        console.log(taskArgs.json ? JSON.stringify(stats, null, 2) : formatStats(taskArgs.user, stats))
+        return stats
     })
 
 task("win-rate", "get win rate by user address")
     .addParam("user", "user address")
+    .addFlag("json", "print the win rate as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address)
+
+        const winRate = (await contract.winRateBy(taskArgs.user)).toNumber()
+        console.log(taskArgs.json ? JSON.stringify({ user: taskArgs.user, winRate }) : `${winRate}%`)
+        return winRate
+    })
+
+task("games", "list games from the event index")
+    .addOptionalParam("player", "list only games of the player")
+    .addOptionalParam("phase", "list only games in the phase: Join, P1Turn, P2Turn or Finished")
+    .addOptionalParam("store", "path of the index (build/index/<network>.json if not set)")
+    .addFlag("json", "print the games as JSON")
     .addParam("address", "contract address")
     .setAction(async (taskArgs, hre) => {
-        const contract = await hre.ethers.getContractAt("TicTacToe", taskArgs.address)
+        const indexer = await openIndexOf(hre, "TicTacToe", taskArgs.address, taskArgs.store)
 
-        const res = await contract.winRateBy(taskArgs.user)
-        console.log(res)
+        const player = taskArgs.player?.toLowerCase()
+        const games = gameViews(indexer.events("TicTacToe")).filter(
+            (game) =>
+                (!player || game.p1.toLowerCase() === player || game.p2.toLowerCase() === player) &&
+                (!taskArgs.phase || game.phase === taskArgs.phase)
+        )
+        console.log(taskArgs.json ? JSON.stringify(games, null, 2) : formatGameViews(games))
+        return games
     })
 
 task("new", "create new game")
-    .addParam("own", "if true - use me as the first player")
+    .addFlag("own", "use me as the first player (the stake is paid right away)")
+    .addParam("stake", "stake of each player in token units (e.g. 1.5)")
+    .addOptionalParam("token", "ERC20 token address of the stake (ETH if not set)", constants.AddressZero)
+    .addOptionalParam(
+        "deadline",
+        "join deadline (timestamp) after which anyone can cancel the game, only with --own",
+        undefined,
+        types.int
+    )
+    .addOptionalParam("size", "width and height of the board from 3 to 15 (3 if not set)", undefined, types.int)
+    .addOptionalParam(
+        "winLength",
+        "number of marks in a row to win (the size up to 5 if not set)",
+        undefined,
+        types.int
+    )
+    .addOptionalParam("from", "player address (the first account if not set)")
+    .addFlag("json", "print the game as JSON")
     .addParam("address", "contract address")
     .setAction(async (taskArgs, hre) => {
-        const contract = await hre.ethers.getContractAt("TicTacToe", taskArgs.address)
+        if (taskArgs.deadline !== undefined && !taskArgs.own) {
+            throw new Error("TicTacToe: only the first player can set the join deadline, use --own")
+        }
+        if (taskArgs.winLength !== undefined && taskArgs.size === undefined) {
+            throw new Error("TicTacToe: the win length is set with the size of the board, use --size")
+        }
+
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+
+        const tokenDecimals = await getTokenDecimals(hre, taskArgs.token)
+        const stake = hre.ethers.utils.parseUnits(taskArgs.stake, tokenDecimals)
+
+        // Boards of other sizes than 3x3 need the contract upgraded to TicTacToeV2
+        const size: number | undefined = taskArgs.size
+        const winLength = taskArgs.winLength ?? Math.min(size ?? 0, 5)
 
         let tx
         if (taskArgs.own) {
-            tx = await contract.newMyGame()
+            const overrides = await prepareStake(hre, signer, contract.address, taskArgs.token, stake)
+            tx =
+                size === undefined
+                    ? await contract.newMyGame(stake, taskArgs.token, tokenDecimals, overrides)
+                    : await contract.newMyGameWithBoard(
+                          stake,
+                          taskArgs.token,
+                          tokenDecimals,
+                          size,
+                          winLength,
+                          overrides
+                      )
         } else {
-            tx = await contract.newGame()
+            tx =
+                size === undefined
+                    ? await contract.newGame(stake, taskArgs.token, tokenDecimals)
+                    : await contract.newGameWithBoard(stake, taskArgs.token, tokenDecimals, size, winLength)
         }
 
         const rc = await tx.wait()
-        const event = rc.events.find((e: any) => e.event === "GameCreated")
-        console.log(event.args.gameId.toString())
+        const event = rc.events?.find((e: Event) => e.event === "GameCreated")
+        const id: BigNumber = event?.args?.gameId
+        if (taskArgs.deadline !== undefined) {
+            await (await contract.setJoinDeadline(id, taskArgs.deadline)).wait()
+        }
+
+        await printGame(contract, id.toNumber(), taskArgs.json)
+        return id.toNumber()
+    })
+
+task("join", "join the game (the stake of the game is paid right away)")
+    .addParam("id", "id of a necessary game", undefined, types.int)
+    .addOptionalParam("from", "player address (the first account if not set)")
+    .addFlag("json", "print the game as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+
+        const game = await contract.gameById(taskArgs.id)
+        const overrides = await prepareStake(hre, signer, contract.address, game.tokenAddress, game.stake)
+
+        const tx = await contract.join(taskArgs.id, overrides)
+        await tx.wait()
+
+        return printGame(contract, taskArgs.id, taskArgs.json)
     })
 
-task("join", "join the game")
-    .addParam("id", "id of a necessary game")
+task("challenge", "challenge the opponent to a game with me as the first player (the stake is paid right away)")
+    .addParam("opponent", "address of the only player who can join the game")
+    .addOptionalParam("stake", "stake of each player in token units (e.g. 1.5)")
+    .addOptionalParam("token", "ERC20 token address of the stake (ETH if not set)", constants.AddressZero)
+    .addFlag("invite", "create an invite-only game and sign an invite instead of naming the opponent on-chain")
+    .addOptionalParam("id", "sign a new invite to the existing invite-only game instead", undefined, types.int)
+    .addOptionalParam("expires", "seconds after which the invite has expired", 24 * 60 * 60, types.int)
+    .addOptionalParam("out", "file to write the invite to")
+    .addOptionalParam("from", "player address (the first account if not set)")
+    .addFlag("json", "print the game as JSON")
     .addParam("address", "contract address")
     .setAction(async (taskArgs, hre) => {
-        const contract = await hre.ethers.getContractAt("TicTacToe", taskArgs.address)
+        if (taskArgs.id === undefined && taskArgs.stake === undefined) {
+            throw new Error("TicTacToe: pass the stake of a new game or the id of an invite-only game")
+        }
+
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+
+        let id: number = taskArgs.id
+        if (id === undefined) {
+            const tokenDecimals = await getTokenDecimals(hre, taskArgs.token)
+            const stake = hre.ethers.utils.parseUnits(taskArgs.stake, tokenDecimals)
+            const overrides = await prepareStake(hre, signer, contract.address, taskArgs.token, stake)
+
+            const tx = taskArgs.invite
+                ? await contract.newInviteGame(stake, taskArgs.token, tokenDecimals, overrides)
+                : await contract.newChallenge(stake, taskArgs.token, tokenDecimals, taskArgs.opponent, overrides)
+            const rc = await tx.wait()
+            const event = rc.events?.find((e: Event) => e.event === "GameCreated")
+            id = (event?.args?.gameId as BigNumber).toNumber()
+        } else if (!(await contract.isInviteOnly(id))) {
+            throw new Error(`TicTacToe: game #${id} is not invite-only`)
+        }
+
+        await printGame(contract, id, taskArgs.json)
+        if (!taskArgs.invite && taskArgs.id === undefined) {
+            return { id }
+        }
+
+        const { timestamp } = await hre.ethers.provider.getBlock("latest")
+        const chainId = Number(await hre.getChainId())
+        const deadline = timestamp + taskArgs.expires
+        const invite = await signInvite(signer, chainId, contract.address, id, taskArgs.opponent, deadline)
+
+        if (taskArgs.out) {
+            fs.writeFileSync(taskArgs.out, JSON.stringify(invite, null, 2))
+            console.log(`Invite of ${invite.player} to game #${id} is written to ${taskArgs.out}`)
+        } else {
+            console.log(JSON.stringify(invite, null, 2))
+        }
+        return { id, invite }
+    })
+
+task("accept", "accept the challenge or the invite and join the game (the stake of the game is paid right away)")
+    .addOptionalParam("id", "id of the challenge, if there is no invite", undefined, types.int)
+    .addOptionalParam("file", "invite written by challenge --invite")
+    .addOptionalParam("from", "player address (the first account if not set)")
+    .addFlag("json", "print the game as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        if (taskArgs.id === undefined && !taskArgs.file) {
+            throw new Error("TicTacToe: pass the id of the challenge or the file of the invite")
+        }
+
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+        const player = await signer.getAddress()
+
+        let invite: SignedInvite | undefined
+        if (taskArgs.file) {
+            invite = JSON.parse(fs.readFileSync(taskArgs.file, "utf8")) as SignedInvite
+            const chainId = Number(await hre.getChainId())
+            if (invite.chainId !== chainId || invite.address.toLowerCase() !== contract.address.toLowerCase()) {
+                throw new Error(`TicTacToe: the invite is for ${invite.address} on chain ${invite.chainId}`)
+            }
+            if (invite.player.toLowerCase() !== player.toLowerCase()) {
+                throw new Error(`TicTacToe: the invite is for ${invite.player}, not for ${player}`)
+            }
+        }
+        const id: number = invite?.gameId ?? taskArgs.id
+
+        // Check the challenge before sending, so the stake is not approved for a reverted transaction
+        const game = await contract.gameById(id)
+        if (invite && recoverInviteSigner(invite).toLowerCase() !== game.p1.toLowerCase()) {
+            throw new Error(`TicTacToe: the invite is not signed by the first player ${game.p1}`)
+        }
+        const opponent: string = await contract.challengedPlayerOf(id)
+        if (opponent !== constants.AddressZero && opponent.toLowerCase() !== player.toLowerCase()) {
+            throw new Error(`TicTacToe: game #${id} is a challenge of ${opponent}`)
+        }
+
+        const overrides = await prepareStake(hre, signer, contract.address, game.tokenAddress, game.stake)
+        const tx = invite
+            ? await contract.joinWithInvite(id, invite.deadline, invite.signature, overrides)
+            : await contract.join(id, overrides)
+        await tx.wait()
 
-        await contract.join(taskArgs.id)
+        return printGame(contract, id, taskArgs.json)
     })
 
 task("move", "move to the position in the game")
-    .addParam("id", "id of a necessary game")
-    .addParam("x", "Coordinate X (horizontally, from left to right)")
-    .addParam("y", "Coordinate Y (vertically, from top to bottom)")
+    .addParam("id", "id of a necessary game", undefined, types.int)
+    .addParam("x", "Coordinate X (horizontally, from left to right)", undefined, types.int)
+    .addParam("y", "Coordinate Y (vertically, from top to bottom)", undefined, types.int)
+    .addOptionalParam("from", "player address (the first account if not set)")
+    .addFlag("json", "print the game as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+
+        const tx = await contract.move(taskArgs.id, taskArgs.x, taskArgs.y)
+        await tx.wait()
+
+        return printGame(contract, taskArgs.id, taskArgs.json)
+    })
+
+task("claim-prize", "send the prize share of the player in the finished game")
+    .addParam("id", "id of a necessary game", undefined, types.int)
+    .addOptionalParam("from", "player address (the first account if not set)")
+    .addFlag("later", "only claim the share to withdraw it later with withdraw")
+    .addFlag("json", "print the game as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+
+        const tx = taskArgs.later ? await contract.claimPrize(taskArgs.id) : await contract.sendPrize(taskArgs.id)
+        await tx.wait()
+
+        return printGame(contract, taskArgs.id, taskArgs.json)
+    })
+
+task("withdraw", "send all the claimed prizes of the player in the token")
+    .addOptionalParam("token", "token address (ETH if not set)", constants.AddressZero)
+    .addOptionalParam("from", "player address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+        const player = await signer.getAddress()
+
+        const amount: BigNumber = await contract.withdrawableOf(player, taskArgs.token)
+        const tx = await contract.withdraw(taskArgs.token)
+        await tx.wait()
+
+        const decimals = await getTokenDecimals(hre, taskArgs.token)
+        console.log(`Withdrawn ${utils.formatUnits(amount, decimals)} to ${player}`)
+        return amount
+    })
+
+task("cancel", "cancel the game nobody has joined and refund the stake of the first player")
+    .addParam("id", "id of a necessary game", undefined, types.int)
+    .addOptionalParam("from", "first player, or anyone after the join deadline (the first account if not set)")
+    .addFlag("json", "print the game as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+
+        const tx = await contract.cancel(taskArgs.id)
+        const rc = await tx.wait()
+        const event = rc.events?.find((e: Event) => e.event === "GameCancelled")
+        const game = await contract.gameById(taskArgs.id)
+        console.log(`Refunded ${utils.formatUnits(event?.args?.refund, game.tokenDecimals)} to ${event?.args?.player}`)
+
+        return printGame(contract, taskArgs.id, taskArgs.json)
+    })
+
+task("finish", "finish the game when the time for turn is over")
+    .addParam("id", "id of a necessary game", undefined, types.int)
+    .addOptionalParam("from", "caller address (the first account if not set)")
+    .addFlag("json", "print the game as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+
+        const game = await contract.gameById(taskArgs.id)
+        const { timestamp } = await hre.ethers.provider.getBlock("latest")
+        if (game.turnAt.isZero() || game.turnAt.gte(timestamp)) {
+            throw new Error("TicTacToe: the time for turn is not over yet")
+        }
+
+        const tx = await contract.getWinner(taskArgs.id)
+        await tx.wait()
+
+        return printGame(contract, taskArgs.id, taskArgs.json)
+    })
+
+task("play", "play the game in the terminal")
+    .addParam("id", "id of a necessary game", undefined, types.int)
+    .addOptionalParam("from", "player address (the first account if not set)")
+    .addOptionalParam("interval", "polling interval while waiting for the opponent (ms)", 2000, types.int)
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+
+        return playGame({
+            contract,
+            id: taskArgs.id,
+            player: signer.address,
+            input: process.stdin,
+            output: process.stdout,
+            interval: taskArgs.interval,
+        })
+    })
+
+task("bot", "run a bot which joins open games and plays them as the signer")
+    .addOptionalParam("difficulty", `bot level: ${DIFFICULTIES.join(", ")}`, "perfect")
+    .addParam("maxStake", "max stake of a game to join in token units (e.g. 1.5)")
+    .addOptionalParam("fromBlock", "block to look for games from", 0, types.int)
+    .addOptionalParam("interval", "polling interval (ms)", 2000, types.int)
+    .addOptionalParam("from", "bot address (the first account if not set)")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        if (!DIFFICULTIES.includes(taskArgs.difficulty)) {
+            throw new Error(`TicTacToe: unknown difficulty ${taskArgs.difficulty}`)
+        }
+
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+
+        const bot = new TicTacToeBot({
+            hre,
+            contract,
+            player: signer.address,
+            difficulty: taskArgs.difficulty,
+            maxStake: taskArgs.maxStake,
+            fromBlock: taskArgs.fromBlock,
+        })
+        process.on("SIGINT", () => bot.stop())
+
+        await bot.run(taskArgs.interval)
+    })
+
+task("match:new", "create a best-of-N match with me as the first player (the stake is paid once for all the rounds)")
+    .addParam("stake", "stake of each player in token units (e.g. 1.5)")
+    .addOptionalParam("token", "ERC20 token address of the stake (ETH if not set)", constants.AddressZero)
+    .addOptionalParam("rounds", "odd number of rounds, the first player is swapped each round", 3, types.int)
+    .addOptionalParam("from", "player address (the first account if not set)")
+    .addFlag("json", "print the match as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+
+        const tokenDecimals = await getTokenDecimals(hre, taskArgs.token)
+        const stake = hre.ethers.utils.parseUnits(taskArgs.stake, tokenDecimals)
+        const overrides = await prepareStake(hre, signer, contract.address, taskArgs.token, stake)
+
+        const tx = await contract.newMatch(stake, taskArgs.token, tokenDecimals, taskArgs.rounds, overrides)
+        const rc = await tx.wait()
+        const event = rc.events?.find((e: Event) => e.event === "MatchCreated")
+        const id: BigNumber = event?.args?.gameId
+
+        // The second player joins the match with join, which starts the first round
+        await printMatch(contract, id.toNumber(), taskArgs.json)
+        return id.toNumber()
+    })
+
+task("match:show", "get the match with its score and current round")
+    .addParam("id", "id of the game of the match", undefined, types.int)
+    .addFlag("json", "print the match as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address)
+
+        return printMatch(contract, taskArgs.id, taskArgs.json)
+    })
+
+task("match:follow", "follow the match and print the start and the result of each round until the match is over")
+    .addParam("id", "id of the game of the match", undefined, types.int)
+    .addOptionalParam("interval", "polling interval while the match is played (ms)", 2000, types.int)
     .addParam("address", "contract address")
     .setAction(async (taskArgs, hre) => {
-        const contract = await hre.ethers.getContractAt("TicTacToe", taskArgs.address)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address)
+
+        return followMatch({ contract, id: taskArgs.id, interval: taskArgs.interval })
+    })
+
+task("match:claim", "send the prize share of the player in the finished match")
+    .addParam("id", "id of the game of the match", undefined, types.int)
+    .addOptionalParam("from", "player address (the first account if not set)")
+    .addFlag("later", "only claim the share to withdraw it later with withdraw")
+    .addFlag("json", "print the match as JSON")
+    .addParam("address", "contract address")
+    .setAction(async (taskArgs, hre) => {
+        const signer = await getSigner(hre, taskArgs.from)
+        const contract = await hre.ethers.getContractAt(CONTRACT_NAME, taskArgs.address, signer)
+
+        // The prize of the match is held by its game, the rounds have no stakes
+        const match = await fetchMatch(contract, taskArgs.id)
+        if (match.phase !== "Finished") {
+            throw new Error(`TicTacToe: the match is not over yet, round ${match.roundNum} of ${match.rounds}`)
+        }
+
+        const tx = taskArgs.later ? await contract.claimPrize(taskArgs.id) : await contract.sendPrize(taskArgs.id)
+        await tx.wait()
 
-        await contract.move(taskArgs.id, taskArgs.x, taskArgs.y)
+        return printMatch(contract, taskArgs.id, taskArgs.json)
     })
@@ -0,0 +1,54 @@
+import { constants, Event } from "ethers"
+import { task, types } from "hardhat/config"
+
+import { resolveAddress } from "../lib/deployments"
+import { getSigner } from "../lib/signers"
+import { buildTreasuryReport, formatTreasuryReport, sweepCalls } from "../lib/treasury"
+
+task("treasury", "report fees collected by TicTacToe and sweep them from MultiSigWallet")
+    .addOptionalParam("fromBlock", "block to look for games from", 0, types.int)
+    .addOptionalParam("sweep", "comma separated tokens to sweep, eth for ETH")
+    .addOptionalParam("to", "target address of the sweep")
+    .addFlag("submit", "submit the sweep to the wallet instead of printing the draft")
+    .addOptionalParam("from", "wallet owner address (the first account if not set)")
+    .addFlag("json", "print the report as JSON")
+    .addOptionalParam("address", "TicTacToe address (the deployment if not set)")
+    .setAction(async (taskArgs, hre) => {
+        const address = await resolveAddress(hre, "TicTacToe", taskArgs.address)
+        if (!address) {
+            throw new Error("Treasury: there is no TicTacToe deployment, pass the contract address")
+        }
+        const contract = await hre.ethers.getContractAt("TicTacToe", address)
+
+        const report = await buildTreasuryReport(hre, contract, taskArgs.fromBlock)
+        console.log(taskArgs.json ? JSON.stringify(report, null, 2) : formatTreasuryReport(report))
+
+        if (!taskArgs.sweep) {
+            return report
+        }
+        if (!taskArgs.to) {
+            throw new Error("Treasury: pass the target address of the sweep")
+        }
+
+        const tokens = taskArgs.sweep
+            .split(",")
+            .map((token: string) => (token.trim().toLowerCase() === "eth" ? constants.AddressZero : token.trim()))
+        const calls = await sweepCalls(hre, report.wallet, tokens, taskArgs.to)
+
+        if (!taskArgs.submit) {
+            console.log(JSON.stringify(calls, null, 2))
+            return { report, calls }
+        }
+
+        const signer = await getSigner(hre, taskArgs.from)
+        const wallet = await hre.ethers.getContractAt("MultiSigWallet", report.wallet, signer)
+        const indexes: number[] = []
+        for (const call of calls) {
+            const tx = await wallet.submitTransaction(call.to, call.value, call.data)
+            const rc = await tx.wait()
+            const event = rc.events?.find((e: Event) => e.event === "SubmitTransaction")
+            indexes.push(event?.args?.txIndex.toNumber())
+        }
+        console.log(`Submitted wallet transactions: ${indexes.join(", ")}`)
+        return { report, calls, indexes }
+    })
@@ -1,2 +1,9 @@
 import "./utils"
 import "./CryptoTodo"
+import "./TicTacToe"
+import "./MultiSigWallet"
+import "./Fee"
+import "./Treasury"
+import "./Indexer"
+import "./Api"
+import "./Relayer"
@@ -0,0 +1,211 @@
+import { expect, use } from "chai"
+import http from "http"
+import { AddressInfo } from "net"
+import { ethers, waffle } from "hardhat"
+import { ApiContracts, createApiServer, GAMES_PAGE_SIZE } from "../lib/api"
+import { revert, snapshot } from "./utils/network"
+import {
+    prepareCryptoTodo,
+    prepareMultiSigWallet,
+    prepareSigners,
+    prepareTicTacToe,
+    upgradeTicTacToe,
+} from "./utils/prepare"
+import { latest } from "./utils/time"
+
+use(waffle.solidity)
+
+interface Response {
+    status: number
+    headers: http.IncomingHttpHeaders
+    body: any
+}
+
+describe("Api", function () {
+    const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+    const stake = ethers.utils.parseEther("1")
+    const tokenAddress = ethers.constants.AddressZero
+
+    let snapshotId: string
+    let server: http.Server
+    let baseUrl: string
+
+    function request(path: string, method = "GET"): Promise<Response> {
+        return new Promise((resolve, reject) => {
+            const req = http.request(`${baseUrl}${path}`, { method }, (res) => {
+                let data = ""
+                res.on("data", (chunk) => (data += chunk))
+                res.on("end", () =>
+                    resolve({ status: res.statusCode as number, headers: res.headers, body: JSON.parse(data) })
+                )
+            })
+            req.on("error", reject)
+            req.end()
+        })
+    }
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareCryptoTodo(this, this.owner)
+        await prepareMultiSigWallet(this, this.owner)
+        await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+        await upgradeTicTacToe(this)
+
+        const now = (await latest()).toNumber()
+        await this.CryptoTodo.connect(this.misha).create("Done", now + 1000)
+        await this.CryptoTodo.connect(this.misha).create("Removed", now + 1000)
+        await this.CryptoTodo.connect(this.bob).create("Not mine", now + 1000)
+        await this.CryptoTodo.connect(this.misha).toggle(0)
+        await this.CryptoTodo.connect(this.misha).softRemove(1)
+
+        await this.TTT.connect(this.misha).newMyGame(stake, tokenAddress, 0, { value: stake })
+        await this.TTT.connect(this.carol).newGame(stake, tokenAddress, 0)
+        await this.TTT.connect(this.bob).join(1, { value: stake })
+
+        await this.owner.sendTransaction({ to: this.MSW.address, value: stake })
+        await this.MSW.submitTransaction(this.carol.address, stake, "0x")
+        await this.MSW.submitTransaction(this.carol.address, stake, "0x")
+        await this.MSW.confirmTransaction(0)
+        await this.MSW.executeTransaction(0)
+
+        const contracts = { todo: this.CryptoTodo, ttt: this.TTT, wallet: this.MSW } as unknown as ApiContracts
+        server = createApiServer(contracts)
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+        await new Promise((resolve) => server.close(resolve))
+    })
+
+    it("should return the owner's tasks", async function () {
+        const response = await request(`/todo/${this.misha.address}/tasks`)
+        expect(response.status).to.equal(200)
+        expect(response.headers["content-type"]).to.equal("application/json")
+        expect(response.headers["access-control-allow-origin"]).to.equal("*")
+        expect(response.body.map((task: any) => task.text)).to.deep.equal(["Done"])
+        expect(response.body[0].owner).to.equal(this.misha.address)
+        expect(response.body[0].doneDate).to.be.a("string")
+
+        const withRemoved = await request(`/todo/${this.misha.address}/tasks?expired=true&removed=true`)
+        expect(withRemoved.body.map((task: any) => task.text)).to.deep.equal(["Done", "Removed"])
+        expect(withRemoved.body[1]).to.include({ id: 1, isRemoved: true, doneDate: null })
+    })
+
+    it("should return a task by id", async function () {
+        const response = await request("/todo/2")
+        expect(response.status).to.equal(200)
+        expect(response.body).to.include({ id: 2, owner: this.bob.address, text: "Not mine", isExpired: false })
+
+        expect((await request("/todo/10")).status).to.equal(404)
+        expect((await request("/todo/abc")).status).to.equal(400)
+        expect((await request("/todo/1e3")).status).to.equal(400)
+        expect((await request(`/todo/${ethers.constants.MaxUint256.add(1)}`)).status).to.equal(400)
+        // Ids above 2^53 are looked up in the contract as well
+        expect((await request("/todo/9007199254740993")).status).to.equal(404)
+    })
+
+    it("should return games filtered by phase and player", async function () {
+        const all = await request("/games")
+        expect(all.body.map((game: any) => game.id)).to.deep.equal([1, 2])
+
+        const joinable = await request("/games?phase=join")
+        expect(joinable.body.map((game: any) => game.id)).to.deep.equal([2])
+        expect(joinable.body[0].stake).to.equal("1.0")
+
+        const ofBob = await request(`/games?player=${this.bob.address}`)
+        expect(ofBob.body.map((game: any) => game.id)).to.deep.equal([1])
+    })
+
+    it("should return games page by page", async function () {
+        await this.TTT.connect(this.carol).newGame(stake, tokenAddress, 0)
+
+        const first = await request("/games?limit=2")
+        expect(first.body.map((game: any) => game.id)).to.deep.equal([1, 2])
+        const last = await request("/games?offset=2&limit=2")
+        expect(last.body.map((game: any) => game.id)).to.deep.equal([3])
+
+        // The filters apply to the games of the page
+        const joinable = await request("/games?phase=join&offset=1&limit=1")
+        expect(joinable.body.map((game: any) => game.id)).to.deep.equal([2])
+
+        expect((await request("/games?offset=-1")).status).to.equal(400)
+        expect((await request("/games?limit=0")).status).to.equal(400)
+        expect((await request(`/games?limit=${GAMES_PAGE_SIZE + 1}`)).status).to.equal(400)
+    })
+
+    it("should return a game by id", async function () {
+        const response = await request("/games/1")
+        expect(response.status).to.equal(200)
+        expect(response.body).to.include({ id: 1, p1: this.misha.address, p2: this.bob.address, phase: "P1Turn" })
+
+        const missing = await request("/games/10")
+        expect(missing.status).to.equal(404)
+        expect(missing.body.error).to.equal("TicTacToe: game does not exists")
+    })
+
+    it("should return games with larger boards", async function () {
+        await this.TTT.connect(this.misha).newMyGameWithBoard(stake, tokenAddress, 0, 4, 3, { value: stake })
+        await this.TTT.connect(this.bob).join(3, { value: stake })
+        await this.TTT.connect(this.misha).move(3, 3, 3)
+
+        const response = await request("/games/3")
+        expect(response.status).to.equal(200)
+        expect(response.body.winLength).to.equal(3)
+        expect(response.body.board).to.have.lengthOf(4)
+        expect(response.body.board[3]).to.deep.equal([0, 0, 0, 1])
+
+        const all = await request("/games")
+        expect(all.body.find((game: any) => game.id === 3).board).to.deep.equal(response.body.board)
+    })
+
+    it("should return player stats", async function () {
+        await this.TTT.connect(this.misha).move(1, 0, 0)
+        await this.TTT.connect(this.bob).move(1, 1, 0)
+        await this.TTT.connect(this.misha).move(1, 0, 1)
+        await this.TTT.connect(this.bob).move(1, 1, 1)
+        await this.TTT.connect(this.misha).move(1, 0, 2)
+
+        const winner = await request(`/players/${this.misha.address}/stats`)
+        expect(winner.body).to.include({ user: this.misha.address, gameNum: 1, winNum: 1, winRate: 100 })
+
+        // `winRateBy` reverts for players without games
+        const newcomer = await request(`/players/${this.tema.address}/stats`)
+        expect(newcomer.body).to.include({ gameNum: 0, winRate: 0 })
+
+        expect((await request("/players/0x123/stats")).status).to.equal(400)
+    })
+
+    it("should return wallet transactions", async function () {
+        const all = await request("/wallet/transactions")
+        expect(all.body.length).to.equal(2)
+        expect(all.body[0]).to.include({
+            index: 0,
+            to: this.carol.address,
+            value: "1.0",
+            isExecuted: true,
+            required: 1,
+        })
+
+        const pending = await request("/wallet/transactions?pending=true")
+        expect(pending.body.map((transaction: any) => transaction.index)).to.deep.equal([1])
+
+        expect((await request("/wallet/transactions?pending=maybe")).status).to.equal(400)
+    })
+
+    it("should reject unknown routes and methods", async function () {
+        expect((await request("/unknown")).status).to.equal(404)
+        expect((await request("/games", "POST")).status).to.equal(405)
+    })
+
+    it("should reject malformed urls and keep serving", async function () {
+        const response = await request("//[")
+        expect(response.status).to.equal(400)
+        expect(response.body.error).to.equal("Invalid URL: //[")
+
+        expect((await request("/games/1")).status).to.equal(200)
+    })
+})
@@ -1,9 +1,10 @@
 import { expect, use } from "chai"
-import { waffle } from "hardhat"
+import { ethers, waffle } from "hardhat"
 import { revert, snapshot } from "./utils/network"
-import { prepareCryptoTodo, prepareSigners } from "./utils/prepare"
+import { prepareCryptoTodo, prepareERC20Tokens, prepareMultiSigWallet, prepareSigners } from "./utils/prepare"
 import { duration, increase, latest } from "./utils/time"
 import { BigNumber } from "ethers"
+import { signTodoRequest, TodoRequest } from "../lib/meta"
 
 use(waffle.solidity)
 
@@ -26,7 +27,7 @@ describe("CryptoTodo contract", function () {
             const text = "Test Task"
             const date = Math.floor((Date.now() + 1000 * 60 * 60 * 24) / 1000)
 
-            await expect(this.CryptoTodo.connect(this.misha).create(text, date)).to.emit(this.CryptoTodo, "TaskCreated").withArgs(0, text, date)
+            await expect(this.CryptoTodo.connect(this.misha).create(text, date)).to.emit(this.CryptoTodo, "TaskCreated").withArgs(0, this.misha.address, text, date)
 
             const task = await this.CryptoTodo.connect(this.misha).task(0)
 
@@ -78,7 +79,7 @@ describe("CryptoTodo contract", function () {
             const date = Math.floor((Date.now() + 1000 * 60 * 60 * 24) / 1000)
             await this.CryptoTodo.connect(this.misha).create(text, date)
 
-            await expect(this.CryptoTodo.connect(this.alice).toggle(0)).to.be.revertedWith("CryptoTodo: caller is not the owner of the task")
+            await expect(this.CryptoTodo.connect(this.alice).toggle(0)).to.be.revertedWith("CryptoTodo: caller is not the owner or the assignee of the task")
         })
 
         it("should get task with expiration trigger", async function () {
@@ -171,6 +172,83 @@ describe("CryptoTodo contract", function () {
             await expect(this.CryptoTodo.connect(this.misha).restore(0)).to.be.revertedWith("CryptoTodo: the task was not deleted")
         })
 
+        it("should edit task text", async function () {
+            const date = (await latest()).add(duration.days("2"))
+            await this.CryptoTodo.connect(this.misha).create("Tset Task", date)
+
+            await expect(this.CryptoTodo.connect(this.misha).editText(0, "Test Task")).to.emit(this.CryptoTodo, "TaskTextEdited").withArgs(0, "Test Task")
+
+            const task = await this.CryptoTodo.task(0)
+            expect(task["0"].text).to.equal("Test Task")
+            expect(task["0"].expDate).to.equal(date)
+        })
+
+        it("should fail editing a task if task text is empty", async function () {
+            const date = (await latest()).add(duration.days("2"))
+            await this.CryptoTodo.connect(this.misha).create("Test Task", date)
+
+            await expect(this.CryptoTodo.connect(this.misha).editText(0, "")).to.be.revertedWith("CryptoTodo: the text of task is empty")
+        })
+
+        it("should fail editing a task if task id is invalid or caller is non-owner", async function () {
+            await expect(this.CryptoTodo.connect(this.misha).editText(0, "Test")).to.be.revertedWith("CryptoTodo: there is no task with this id")
+
+            const date = (await latest()).add(duration.days("2"))
+            await this.CryptoTodo.connect(this.misha).create("Test Task", date)
+
+            await expect(this.CryptoTodo.connect(this.alice).editText(0, "Test")).to.be.revertedWith("CryptoTodo: caller is not the owner of the task")
+        })
+
+        it("should extend exp date of task", async function () {
+            const date = (await latest()).add(duration.days("2"))
+            const newDate = date.add(duration.days("1"))
+            await this.CryptoTodo.connect(this.misha).create("Test Task", date)
+
+            await expect(this.CryptoTodo.connect(this.misha).extendExpDate(0, newDate)).to.emit(this.CryptoTodo, "TaskExpDateExtended").withArgs(0, newDate)
+
+            // The task is completed on time with the new date only
+            await increase(duration.days("2").add(duration.hours("1")))
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+            const task = await this.CryptoTodo.task(0)
+            expect(task["0"].expDate).to.equal(newDate)
+            expect(task["1"]).to.be.false
+
+            const [, percents] = await this.CryptoTodo.onTimeTaskPercents()
+            expect(percents[0]).to.equal(100)
+        })
+
+        it("should fail extending exp date if the new date is not later", async function () {
+            const date = (await latest()).add(duration.days("2"))
+            await this.CryptoTodo.connect(this.misha).create("Test Task", date)
+
+            await expect(this.CryptoTodo.connect(this.misha).extendExpDate(0, date)).to.be.revertedWith(
+                "CryptoTodo: the new exp date of task is not later than the current one"
+            )
+        })
+
+        it("should fail extending exp date if task has expired", async function () {
+            const date = (await latest()).add(duration.days("2"))
+            await this.CryptoTodo.connect(this.misha).create("Test Task", date)
+
+            // Time jump
+            await increase(duration.days("3"))
+
+            await expect(this.CryptoTodo.connect(this.misha).extendExpDate(0, date.add(duration.days("4")))).to.be.revertedWith(
+                "CryptoTodo: the task has already expired"
+            )
+        })
+
+        it("should fail extending exp date if task id is invalid or caller is non-owner", async function () {
+            const date = (await latest()).add(duration.days("2"))
+            await expect(this.CryptoTodo.connect(this.misha).extendExpDate(0, date)).to.be.revertedWith("CryptoTodo: there is no task with this id")
+
+            await this.CryptoTodo.connect(this.misha).create("Test Task", date)
+
+            await expect(this.CryptoTodo.connect(this.alice).extendExpDate(0, date.add(1))).to.be.revertedWith(
+                "CryptoTodo: caller is not the owner of the task"
+            )
+        })
+
         it("should get personal tasks", async function () {
             const date = (await latest()).add(duration.days("2"))
 
@@ -250,5 +328,620 @@ describe("CryptoTodo contract", function () {
             percents = await this.CryptoTodo.onTimeTaskPercents()
             expect(percents["1"].map((bn: BigNumber) => bn.toNumber())).to.eql([100, 100])
         })
+
+        it("should get personal tasks page by page", async function () {
+            const date = (await latest()).add(duration.days("2"))
+
+            // Create tasks of two owners in turn
+            for (let i = 0; i < 5; i++) {
+                await this.CryptoTodo.connect(this.misha).create(`Test ${i}`, date)
+                await this.CryptoTodo.connect(this.alice).create(`Other ${i}`, date)
+            }
+            await this.CryptoTodo.connect(this.misha).softRemove(2)
+
+            // Pages are taken before filtering
+            let page = await this.CryptoTodo.connect(this.misha).personalTasksPaged(0, 2, true, false)
+            expect(page["1"].map((bn: BigNumber) => bn.toNumber())).to.eql([0])
+            expect(page["3"]).to.equal(2)
+
+            page = await this.CryptoTodo.connect(this.misha).personalTasksPaged(2, 2, true, true)
+            expect(page["1"].map((bn: BigNumber) => bn.toNumber())).to.eql([4, 6])
+            expect(page["3"]).to.equal(4)
+
+            page = await this.CryptoTodo.connect(this.misha).personalTasksPaged(4, 2, true, true)
+            expect(page["1"].map((bn: BigNumber) => bn.toNumber())).to.eql([8])
+            expect(page["3"]).to.equal(5)
+
+            // Out of range
+            page = await this.CryptoTodo.connect(this.misha).personalTasksPaged(10, 2, true, true)
+            expect(page["0"]).to.have.length(0)
+            expect(page["3"]).to.equal(5)
+
+            page = await this.CryptoTodo.connect(this.alice).personalTasksPaged(0, ethers.constants.MaxUint256, true, true)
+            expect(page["1"].map((bn: BigNumber) => bn.toNumber())).to.eql([1, 3, 5, 7, 9])
+        })
+
+        it("should get tasks of any owner", async function () {
+            const date = (await latest()).add(duration.days("2"))
+            await this.CryptoTodo.connect(this.misha).create("Test 0", date)
+            await this.CryptoTodo.connect(this.alice).create("Test 1", date)
+            await this.CryptoTodo.connect(this.misha).create("Test 2", date)
+            await this.CryptoTodo.connect(this.misha).softRemove(2)
+
+            // Any caller gets the same tasks as the owner
+            const own = await this.CryptoTodo.connect(this.misha).personalTasks(true, true)
+            const tasks = await this.CryptoTodo.connect(this.bob).tasksOf(this.misha.address, true, true)
+            expect(tasks).to.eql(own)
+
+            const notRemoved = await this.CryptoTodo.tasksOf(this.misha.address, true, false)
+            expect(notRemoved["1"].map((bn: BigNumber) => bn.toNumber())).to.eql([0])
+
+            const page = await this.CryptoTodo.tasksOfPaged(this.misha.address, 1, 1, true, true)
+            expect(page["1"].map((bn: BigNumber) => bn.toNumber())).to.eql([2])
+            expect(page["3"]).to.equal(2)
+        })
+
+        it("should count created and on-time completed tasks", async function () {
+            const date = (await latest()).add(duration.days("2"))
+            await this.CryptoTodo.connect(this.misha).create("Test 0", date)
+            await this.CryptoTodo.connect(this.misha).create("Test 1", date)
+            await this.CryptoTodo.connect(this.misha).create("Test 2", date)
+
+            let stats = await this.CryptoTodo.personalStats(this.misha.address)
+            expect(stats.created).to.equal(3)
+            expect(stats.completedOnTime).to.equal(0)
+
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+            await this.CryptoTodo.connect(this.misha).toggle(1)
+            await this.CryptoTodo.connect(this.misha).toggle(1)
+            stats = await this.CryptoTodo.personalStats(this.misha.address)
+            expect(stats.completedOnTime).to.equal(1)
+
+            // Time jump, late completion is not counted
+            await increase(duration.days("4"))
+            await this.CryptoTodo.connect(this.misha).toggle(2)
+            stats = await this.CryptoTodo.personalStats(this.misha.address)
+            expect(stats.completedOnTime).to.equal(1)
+
+            // Undo of on-time completion
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+            stats = await this.CryptoTodo.personalStats(this.misha.address)
+            expect(stats.completedOnTime).to.equal(0)
+        })
+
+        it("should get percents of on-time completed tasks page by page", async function () {
+            const date = (await latest()).add(duration.days("2"))
+            const owners = [this.misha, this.alice, this.bob]
+            for (const owner of owners) {
+                await this.CryptoTodo.connect(owner).create("Test", date)
+            }
+            await this.CryptoTodo.connect(this.alice).toggle(1)
+
+            expect(await this.CryptoTodo.totalOwners()).to.equal(3)
+
+            let percents = await this.CryptoTodo.onTimeTaskPercentsPaged(0, 2)
+            expect(percents["0"]).to.eql([this.misha.address, this.alice.address])
+            expect(percents["1"].map((bn: BigNumber) => bn.toNumber())).to.eql([0, 100])
+
+            percents = await this.CryptoTodo.onTimeTaskPercentsPaged(2, 2)
+            expect(percents["0"]).to.eql([this.bob.address])
+
+            percents = await this.CryptoTodo.onTimeTaskPercentsPaged(3, 2)
+            expect(percents["0"]).to.have.length(0)
+        })
+    })
+
+    describe("Lists", function () {
+        const notOwner = "CryptoTodo: caller is not the owner of the task"
+        const notOwnerOrAssignee = "CryptoTodo: caller is not the owner or the assignee of the task"
+        const notListOwner = "CryptoTodo: caller is not the owner of the list"
+
+        beforeEach(async function () {
+            this.date = (await latest()).add(duration.days("2"))
+            await this.CryptoTodo.connect(this.misha).createList("Team")
+            await this.CryptoTodo.connect(this.misha).addMember(1, this.alice.address)
+            await this.CryptoTodo.connect(this.misha).addMember(1, this.bob.address)
+            await this.CryptoTodo.connect(this.misha).createInList(1, "Shared", this.date)
+        })
+
+        it("should create list and manage members", async function () {
+            await expect(this.CryptoTodo.connect(this.carol).createList("Other")).to.emit(this.CryptoTodo, "ListCreated").withArgs(2, this.carol.address, "Other")
+            await expect(this.CryptoTodo.connect(this.carol).createList("")).to.be.revertedWith("CryptoTodo: the name of list is empty")
+
+            let list = await this.CryptoTodo.list(1)
+            expect(list.owner).to.equal(this.misha.address)
+            expect(list.name).to.equal("Team")
+            expect(list.members).to.eql([this.alice.address, this.bob.address])
+
+            await expect(this.CryptoTodo.connect(this.misha).addMember(1, this.carol.address)).to.emit(this.CryptoTodo, "ListMemberAdded").withArgs(1, this.carol.address)
+            await expect(this.CryptoTodo.connect(this.misha).addMember(1, this.carol.address)).to.be.revertedWith("CryptoTodo: the address is already a member of the list")
+            await expect(this.CryptoTodo.connect(this.misha).addMember(1, ethers.constants.AddressZero)).to.be.revertedWith("CryptoTodo: the member is the zero address")
+
+            await expect(this.CryptoTodo.connect(this.misha).removeMember(1, this.alice.address)).to.emit(this.CryptoTodo, "ListMemberRemoved").withArgs(1, this.alice.address)
+            await expect(this.CryptoTodo.connect(this.misha).removeMember(1, this.alice.address)).to.be.revertedWith("CryptoTodo: the address is not a member of the list")
+
+            // The last member takes the place of the removed one
+            list = await this.CryptoTodo.list(1)
+            expect(list.members).to.eql([this.carol.address, this.bob.address])
+            expect(await this.CryptoTodo.isMember(1, this.alice.address)).to.be.false
+            expect(await this.CryptoTodo.isMember(1, this.carol.address)).to.be.true
+
+            await expect(this.CryptoTodo.list(3)).to.be.revertedWith("CryptoTodo: there is no list with this id")
+        })
+
+        it("should create tasks in list", async function () {
+            await expect(this.CryptoTodo.connect(this.misha).createInList(1, "Second", this.date))
+                .to.emit(this.CryptoTodo, "ListTaskCreated")
+                .withArgs(1, 1)
+            await this.CryptoTodo.connect(this.misha).create("Personal", this.date)
+
+            // Tasks of the list belong to the list owner
+            const [tasks, ids] = await this.CryptoTodo.listTasks(1, true, true)
+            expect(ids.map((bn: BigNumber) => bn.toNumber())).to.eql([0, 1])
+            expect(tasks.map((task: any) => task.owner)).to.eql([this.misha.address, this.misha.address])
+            expect((await this.CryptoTodo.personalStats(this.misha.address)).created).to.equal(3)
+
+            const assignment = await this.CryptoTodo.assignment(2)
+            expect(assignment.listId).to.equal(0)
+            await expect(this.CryptoTodo.connect(this.misha).assign(2, this.alice.address)).to.be.revertedWith("CryptoTodo: the task is not in a list")
+
+            await expect(this.CryptoTodo.connect(this.alice).createInList(1, "Not mine", this.date)).to.be.revertedWith(notListOwner)
+            await expect(this.CryptoTodo.connect(this.misha).createInList(2, "Test", this.date)).to.be.revertedWith("CryptoTodo: there is no list with this id")
+        })
+
+        it("should assign task to member", async function () {
+            await expect(this.CryptoTodo.connect(this.misha).assign(0, this.alice.address)).to.emit(this.CryptoTodo, "TaskAssigned").withArgs(0, this.alice.address)
+            let assignment = await this.CryptoTodo.assignment(0)
+            expect(assignment.listId).to.equal(1)
+            expect(assignment.assignee).to.equal(this.alice.address)
+
+            await expect(this.CryptoTodo.connect(this.misha).assign(0, this.carol.address)).to.be.revertedWith("CryptoTodo: the assignee is not a member of the list")
+            await expect(this.CryptoTodo.connect(this.alice).assign(0, this.bob.address)).to.be.revertedWith(notOwner)
+
+            await expect(this.CryptoTodo.connect(this.misha).assign(0, ethers.constants.AddressZero)).to.emit(this.CryptoTodo, "TaskAssigned").withArgs(0, ethers.constants.AddressZero)
+            assignment = await this.CryptoTodo.assignment(0)
+            expect(assignment.assignee).to.equal(ethers.constants.AddressZero)
+        })
+
+        it("should check the permission matrix", async function () {
+            await this.CryptoTodo.connect(this.misha).assign(0, this.alice.address)
+
+            // The assignee can toggle only
+            await expect(this.CryptoTodo.connect(this.alice).toggle(0)).to.emit(this.CryptoTodo, "TaskToggled").withArgs(0, true)
+            await expect(this.CryptoTodo.connect(this.alice).softRemove(0)).to.be.revertedWith(notOwner)
+            await expect(this.CryptoTodo.connect(this.alice).editText(0, "Test")).to.be.revertedWith(notOwner)
+            await expect(this.CryptoTodo.connect(this.alice).extendExpDate(0, this.date.add(1))).to.be.revertedWith(notOwner)
+            await expect(this.CryptoTodo.connect(this.alice).addMember(1, this.carol.address)).to.be.revertedWith(notListOwner)
+            await expect(this.CryptoTodo.connect(this.alice).removeMember(1, this.bob.address)).to.be.revertedWith(notListOwner)
+
+            // Other members and outsiders cannot toggle
+            await expect(this.CryptoTodo.connect(this.bob).toggle(0)).to.be.revertedWith(notOwnerOrAssignee)
+            await expect(this.CryptoTodo.connect(this.carol).toggle(0)).to.be.revertedWith(notOwnerOrAssignee)
+
+            // The owner keeps all the rights
+            await expect(this.CryptoTodo.connect(this.misha).toggle(0)).to.emit(this.CryptoTodo, "TaskToggled").withArgs(0, false)
+            await expect(this.CryptoTodo.connect(this.misha).softRemove(0)).to.emit(this.CryptoTodo, "TaskRemoved")
+            await expect(this.CryptoTodo.connect(this.misha).restore(0)).to.emit(this.CryptoTodo, "TaskRestored")
+
+            // The removed member loses the right until it is added again
+            await this.CryptoTodo.connect(this.misha).removeMember(1, this.alice.address)
+            await expect(this.CryptoTodo.connect(this.alice).toggle(0)).to.be.revertedWith(notOwnerOrAssignee)
+            await this.CryptoTodo.connect(this.misha).addMember(1, this.alice.address)
+            await expect(this.CryptoTodo.connect(this.alice).toggle(0)).to.emit(this.CryptoTodo, "TaskToggled").withArgs(0, true)
+
+            // The on-time counter is of the task owner
+            const stats = await this.CryptoTodo.personalStats(this.misha.address)
+            expect(stats.completedOnTime).to.equal(1)
+        })
+    })
+
+    describe("Bounties", function () {
+        const ethBounty = ethers.utils.parseEther("1")
+        const tokenBounty = ethers.utils.parseUnits("10", 6)
+
+        beforeEach(async function () {
+            await prepareMultiSigWallet(this, this.owner)
+            await prepareCryptoTodo(this, this.bob, this.MSW.address)
+            await prepareERC20Tokens(this, this.misha)
+            this.date = (await latest()).add(duration.days("2"))
+        })
+
+        it("should lock ETH bounty and refund it if task is completed on time", async function () {
+            await expect(this.CryptoTodo.connect(this.misha).createFunded("Test", this.date, ethers.constants.AddressZero, ethBounty, { value: ethBounty }))
+                .to.emit(this.CryptoTodo, "BountyLocked")
+                .withArgs(0, ethers.constants.AddressZero, ethBounty)
+            expect(await ethers.provider.getBalance(this.CryptoTodo.address)).to.equal(ethBounty)
+
+            await expect(this.CryptoTodo.connect(this.misha).claimBounty(0)).to.be.revertedWith("CryptoTodo: the task is not completed on time")
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+            await expect(this.CryptoTodo.connect(this.alice).claimBounty(0)).to.be.revertedWith("CryptoTodo: caller is not the owner of the task")
+            await expect(this.CryptoTodo.forfeitBounty(0)).to.be.revertedWith("CryptoTodo: the task has not expired")
+
+            await expect(() => this.CryptoTodo.connect(this.misha).claimBounty(0)).to.changeEtherBalance(this.misha, ethBounty)
+            expect(await ethers.provider.getBalance(this.CryptoTodo.address)).to.equal(0)
+            const bounty = await this.CryptoTodo.bounty(0)
+            expect(bounty.isSettled).to.be.true
+            await expect(this.CryptoTodo.connect(this.misha).claimBounty(0)).to.be.revertedWith("CryptoTodo: the bounty has already been settled")
+        })
+
+        it("should send ERC20 bounty of expired task to beneficiary", async function () {
+            await this.token1.connect(this.misha).approve(this.CryptoTodo.address, tokenBounty)
+            await expect(() => this.CryptoTodo.connect(this.misha).createFunded("Test", this.date, this.token1.address, tokenBounty)).to.changeTokenBalance(
+                this.token1,
+                this.misha,
+                tokenBounty.mul(-1)
+            )
+            expect(await this.token1.balanceOf(this.CryptoTodo.address)).to.equal(tokenBounty)
+            await expect(this.CryptoTodo.forfeitBounty(0)).to.be.revertedWith("CryptoTodo: the task has not expired")
+
+            // Time jump
+            await increase(duration.days("3"))
+
+            // Completion after the exp date does not refund the bounty
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+            await expect(this.CryptoTodo.connect(this.misha).claimBounty(0)).to.be.revertedWith("CryptoTodo: the task is not completed on time")
+
+            // Anyone can send the forfeited bounty
+            await expect(this.CryptoTodo.connect(this.carol).forfeitBounty(0)).to.emit(this.CryptoTodo, "BountyForfeited").withArgs(0, this.MSW.address, tokenBounty)
+            expect(await this.token1.balanceOf(this.MSW.address)).to.equal(tokenBounty)
+            await expect(this.CryptoTodo.forfeitBounty(0)).to.be.revertedWith("CryptoTodo: the bounty has already been settled")
+        })
+
+        it("should fail extending exp date of task with bounty", async function () {
+            await this.CryptoTodo.connect(this.misha).createFunded("Test", this.date, ethers.constants.AddressZero, ethBounty, { value: ethBounty })
+
+            await expect(this.CryptoTodo.connect(this.misha).extendExpDate(0, this.date.add(duration.days("1")))).to.be.revertedWith(
+                "CryptoTodo: the exp date of a task with a bounty cannot be extended"
+            )
+
+            // The bounty is forfeited at the original date
+            await increase(duration.days("3"))
+            await expect(this.CryptoTodo.forfeitBounty(0)).to.emit(this.CryptoTodo, "BountyForfeited").withArgs(0, this.MSW.address, ethBounty)
+        })
+
+        it("should fail bounty creation with invalid payment", async function () {
+            await expect(this.CryptoTodo.connect(this.misha).createFunded("Test", this.date, ethers.constants.AddressZero, 0)).to.be.revertedWith("CryptoTodo: the bounty is zero")
+            await expect(this.CryptoTodo.connect(this.misha).createFunded("Test", this.date, ethers.constants.AddressZero, ethBounty, { value: 1 })).to.be.revertedWith(
+                "CryptoTodo: invalid ETH for bounty"
+            )
+            await expect(this.CryptoTodo.connect(this.misha).createFunded("Test", this.date, this.token1.address, tokenBounty)).to.be.revertedWith(
+                "CryptoTodo: check the token allowance"
+            )
+            await this.token1.connect(this.misha).approve(this.CryptoTodo.address, tokenBounty)
+            await expect(this.CryptoTodo.connect(this.misha).createFunded("Test", this.date, this.token1.address, tokenBounty, { value: 1 })).to.be.revertedWith(
+                "CryptoTodo: ETH is sent with a token bounty"
+            )
+            await expect(this.CryptoTodo.connect(this.misha).createFunded("", this.date, this.token1.address, tokenBounty)).to.be.revertedWith(
+                "CryptoTodo: the text of task is empty"
+            )
+
+            // Tasks without bounties
+            await this.CryptoTodo.connect(this.misha).create("Test", this.date)
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+            await expect(this.CryptoTodo.connect(this.misha).claimBounty(0)).to.be.revertedWith("CryptoTodo: the task has no bounty")
+        })
+
+        it("should fail deployment without beneficiary", async function () {
+            const factory = await ethers.getContractFactory("CryptoTodo")
+            await expect(factory.deploy(ethers.constants.AddressZero)).to.be.revertedWith("CryptoTodo: invalid beneficiary address")
+        })
+    })
+
+    describe("Recurring tasks", function () {
+        const week = duration.weeks("1")
+
+        beforeEach(async function () {
+            this.date = (await latest()).add(duration.days("2"))
+            await this.CryptoTodo.connect(this.misha).createRecurring("Weekly report", this.date, week)
+        })
+
+        it("should spawn next occurrence when task is done", async function () {
+            await expect(this.CryptoTodo.connect(this.misha).toggle(0))
+                .to.emit(this.CryptoTodo, "TaskRecurred")
+                .withArgs(0, 1, this.date.add(week))
+
+            const [next] = await this.CryptoTodo.task(1)
+            expect(next.owner).to.equal(this.misha.address)
+            expect(next.text).to.equal("Weekly report")
+            expect(next.expDate).to.equal(this.date.add(week))
+
+            let recurrence = await this.CryptoTodo.recurrence(0)
+            expect([recurrence.hasPrevious, recurrence.hasNext, recurrence.nextId.toNumber()]).to.eql([false, true, 1])
+            recurrence = await this.CryptoTodo.recurrence(1)
+            expect([recurrence.period, recurrence.hasPrevious, recurrence.previousId.toNumber(), recurrence.hasNext]).to.eql([week.toNumber(), true, 0, false])
+
+            // Undo and repeated completion do not spawn more occurrences
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+            await expect(this.CryptoTodo.connect(this.misha).toggle(0)).to.not.emit(this.CryptoTodo, "TaskRecurred")
+            expect((await this.CryptoTodo.personalStats(this.misha.address)).created).to.equal(2)
+        })
+
+        it("should spawn next occurrence of expired task", async function () {
+            await expect(this.CryptoTodo.recur(0)).to.be.revertedWith("CryptoTodo: the task has not expired")
+
+            // Time jump over the deadline and two more periods
+            await increase(duration.days("2").add(week.mul(2)).add(duration.hours("1")))
+
+            // Anyone can spawn it, the exp date is shifted by whole periods into the future
+            await expect(this.CryptoTodo.connect(this.carol).recur(0))
+                .to.emit(this.CryptoTodo, "TaskRecurred")
+                .withArgs(0, 1, this.date.add(week.mul(3)))
+            const [next, isExpired] = await this.CryptoTodo.task(1)
+            expect(next.owner).to.equal(this.misha.address)
+            expect(isExpired).to.be.false
+
+            await expect(this.CryptoTodo.recur(0)).to.be.revertedWith("CryptoTodo: the next occurrence has already been spawned")
+            // Late completion does not spawn one more occurrence
+            await expect(this.CryptoTodo.connect(this.misha).toggle(0)).to.not.emit(this.CryptoTodo, "TaskRecurred")
+
+            await this.CryptoTodo.connect(this.misha).create("Once", (await latest()).add(duration.days("1")))
+            await increase(duration.days("2"))
+            await expect(this.CryptoTodo.recur(2)).to.be.revertedWith("CryptoTodo: the task is not recurring")
+            await expect(this.CryptoTodo.connect(this.misha).createRecurring("Test", this.date.add(week.mul(4)), 0)).to.be.revertedWith(
+                "CryptoTodo: the recurrence period is zero"
+            )
+        })
+
+        it("should not spawn next occurrence of removed task", async function () {
+            await this.CryptoTodo.connect(this.misha).softRemove(0)
+            await expect(this.CryptoTodo.connect(this.misha).toggle(0)).to.not.emit(this.CryptoTodo, "TaskRecurred")
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+
+            await increase(duration.days("2").add(duration.hours("1")))
+            await expect(this.CryptoTodo.recur(0)).to.be.revertedWith("CryptoTodo: the task has already been removed")
+
+            // The restored task recurs again
+            await this.CryptoTodo.connect(this.misha).restore(0)
+            await expect(this.CryptoTodo.recur(0)).to.emit(this.CryptoTodo, "TaskRecurred")
+        })
+
+        it("should stop recurring task by owner", async function () {
+            await expect(this.CryptoTodo.connect(this.bob).stopRecurring(0)).to.be.revertedWith(
+                "CryptoTodo: caller is not the owner of the task"
+            )
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+            await expect(this.CryptoTodo.connect(this.misha).stopRecurring(0)).to.be.revertedWith(
+                "CryptoTodo: the next occurrence has already been spawned"
+            )
+
+            await expect(this.CryptoTodo.connect(this.misha).stopRecurring(1))
+                .to.emit(this.CryptoTodo, "RecurrenceStopped")
+                .withArgs(1)
+            const recurrence = await this.CryptoTodo.recurrence(1)
+            expect([recurrence.period, recurrence.hasPrevious, recurrence.hasNext]).to.eql([0, true, false])
+
+            await increase(duration.days("2").add(week).add(duration.hours("1")))
+            await expect(this.CryptoTodo.recur(1)).to.be.revertedWith("CryptoTodo: the task is not recurring")
+            await expect(this.CryptoTodo.connect(this.misha).toggle(1)).to.not.emit(this.CryptoTodo, "TaskRecurred")
+            await expect(this.CryptoTodo.connect(this.misha).stopRecurring(1)).to.be.revertedWith(
+                "CryptoTodo: the task is not recurring"
+            )
+        })
+
+        it("should count each occurrence toward on-time percents", async function () {
+            // On time, late and on time again
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+            await increase(duration.days("2").add(week).add(duration.hours("1")))
+            await this.CryptoTodo.connect(this.misha).toggle(1)
+            await this.CryptoTodo.connect(this.misha).toggle(2)
+
+            const stats = await this.CryptoTodo.personalStats(this.misha.address)
+            expect(stats.created).to.equal(4)
+            expect(stats.completedOnTime).to.equal(2)
+
+            const [owners, percents] = await this.CryptoTodo.onTimeTaskPercents()
+            expect(owners).to.eql([this.misha.address])
+            expect(percents[0]).to.equal(50)
+        })
+    })
+
+    describe("Subtasks and dependencies", function () {
+        const uncompletedSubtasks = "CryptoTodo: the task has uncompleted subtasks"
+        const blocked = "CryptoTodo: the task is blocked by an uncompleted dependency"
+        const cycle = "CryptoTodo: the dependency makes a cycle"
+
+        beforeEach(async function () {
+            this.date = (await latest()).add(duration.days("2"))
+            await this.CryptoTodo.connect(this.misha).create("Parent", this.date)
+            await expect(this.CryptoTodo.connect(this.misha).createSubtask(0, "Child 1", this.date)).to.emit(this.CryptoTodo, "SubtaskCreated").withArgs(0, 1)
+            await this.CryptoTodo.connect(this.misha).createSubtask(0, "Child 2", this.date)
+            await this.CryptoTodo.connect(this.misha).createSubtask(1, "Grandchild", this.date)
+        })
+
+        it("should link subtasks", async function () {
+            let links = await this.CryptoTodo.links(0)
+            expect(links.hasParent).to.be.false
+            expect(links.children.map((bn: BigNumber) => bn.toNumber())).to.eql([1, 2])
+
+            links = await this.CryptoTodo.links(3)
+            expect(links.hasParent).to.be.true
+            expect(links.parentId).to.equal(1)
+
+            await expect(this.CryptoTodo.connect(this.alice).createSubtask(0, "Test", this.date)).to.be.revertedWith("CryptoTodo: caller is not the owner of the task")
+            await expect(this.CryptoTodo.connect(this.misha).createSubtask(4, "Test", this.date)).to.be.revertedWith("CryptoTodo: there is no task with this id")
+        })
+
+        it("should not complete parent until its subtasks are done", async function () {
+            await expect(this.CryptoTodo.connect(this.misha).toggle(0)).to.be.revertedWith(uncompletedSubtasks)
+            await expect(this.CryptoTodo.connect(this.misha).toggle(1)).to.be.revertedWith(uncompletedSubtasks)
+
+            await this.CryptoTodo.connect(this.misha).toggle(3)
+            await this.CryptoTodo.connect(this.misha).toggle(1)
+            await expect(this.CryptoTodo.connect(this.misha).toggle(0)).to.be.revertedWith(uncompletedSubtasks)
+            await this.CryptoTodo.connect(this.misha).toggle(2)
+            await expect(this.CryptoTodo.connect(this.misha).toggle(0)).to.emit(this.CryptoTodo, "TaskToggled").withArgs(0, true)
+
+            // Undo is not blocked
+            await expect(this.CryptoTodo.connect(this.misha).toggle(0)).to.emit(this.CryptoTodo, "TaskToggled").withArgs(0, false)
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+            await expect(this.CryptoTodo.connect(this.misha).createSubtask(0, "Late", this.date)).to.be.revertedWith("CryptoTodo: the parent task has already been completed")
+        })
+
+        it("should skip removed subtasks and check restored ones", async function () {
+            await this.CryptoTodo.connect(this.misha).toggle(3)
+            await this.CryptoTodo.connect(this.misha).toggle(1)
+            await this.CryptoTodo.connect(this.misha).softRemove(2)
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+
+            // The restored subtask blocks the parent again
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+            await this.CryptoTodo.connect(this.misha).restore(2)
+            await expect(this.CryptoTodo.connect(this.misha).toggle(0)).to.be.revertedWith(uncompletedSubtasks)
+            await this.CryptoTodo.connect(this.misha).toggle(2)
+            await this.CryptoTodo.connect(this.misha).toggle(0)
+        })
+
+        it("should block task until its dependency is done", async function () {
+            await this.CryptoTodo.connect(this.misha).create("Blocker", this.date)
+            await expect(this.CryptoTodo.connect(this.misha).addDependency(2, 4)).to.emit(this.CryptoTodo, "DependencyAdded").withArgs(2, 4)
+            await expect(this.CryptoTodo.connect(this.misha).addDependency(2, 4)).to.be.revertedWith("CryptoTodo: the dependency already exists")
+            await expect(this.CryptoTodo.connect(this.alice).addDependency(4, 2)).to.be.revertedWith("CryptoTodo: caller is not the owner of the task")
+            await expect(this.CryptoTodo.connect(this.misha).addDependency(2, 5)).to.be.revertedWith("CryptoTodo: there is no task with this id")
+
+            await expect(this.CryptoTodo.connect(this.misha).toggle(2)).to.be.revertedWith(blocked)
+            await this.CryptoTodo.connect(this.misha).toggle(4)
+            await this.CryptoTodo.connect(this.misha).toggle(2)
+
+            // Removed dependencies do not block
+            await this.CryptoTodo.connect(this.misha).toggle(4)
+            await this.CryptoTodo.connect(this.misha).toggle(2)
+            await expect(this.CryptoTodo.connect(this.misha).toggle(2)).to.be.revertedWith(blocked)
+            await this.CryptoTodo.connect(this.misha).softRemove(4)
+            await this.CryptoTodo.connect(this.misha).toggle(2)
+
+            await expect(this.CryptoTodo.connect(this.misha).removeDependency(2, 4)).to.emit(this.CryptoTodo, "DependencyRemoved").withArgs(2, 4)
+            await expect(this.CryptoTodo.connect(this.misha).removeDependency(2, 4)).to.be.revertedWith("CryptoTodo: there is no such dependency")
+            expect((await this.CryptoTodo.links(2)).dependencies).to.have.length(0)
+        })
+
+        it("should reject dependency cycles", async function () {
+            await this.CryptoTodo.connect(this.misha).create("A", this.date)
+            await this.CryptoTodo.connect(this.misha).create("B", this.date)
+            await this.CryptoTodo.connect(this.misha).addDependency(4, 5)
+
+            await expect(this.CryptoTodo.connect(this.misha).addDependency(4, 4)).to.be.revertedWith("CryptoTodo: the task cannot depend on itself")
+            await expect(this.CryptoTodo.connect(this.misha).addDependency(5, 4)).to.be.revertedWith(cycle)
+
+            // Through subtasks: the parent waits for its descendants
+            await expect(this.CryptoTodo.connect(this.misha).addDependency(3, 0)).to.be.revertedWith(cycle)
+            await this.CryptoTodo.connect(this.misha).addDependency(5, 0)
+            await expect(this.CryptoTodo.connect(this.misha).addDependency(3, 4)).to.be.revertedWith(cycle)
+
+            // Siblings may depend on each other one way
+            await this.CryptoTodo.connect(this.misha).addDependency(2, 1)
+            await expect(this.CryptoTodo.connect(this.misha).addDependency(3, 2)).to.be.revertedWith(cycle)
+        })
+    })
+
+    describe("Signed requests", function () {
+        async function sign(thisObject: Mocha.Context, signer: any, request: Partial<TodoRequest>) {
+            const { chainId } = await ethers.provider.getNetwork()
+            const full = {
+                signer: signer.address,
+                nonce: (await thisObject.CryptoTodo.nonces(signer.address)).toString(),
+                deadline: (await latest()).add(duration.hours("1")).toNumber(),
+                ...request,
+            } as TodoRequest
+            return signTodoRequest(signer, chainId, thisObject.CryptoTodo.address, full)
+        }
+
+        beforeEach(async function () {
+            this.date = (await latest()).add(duration.days("2")).toNumber()
+        })
+
+        it("should create and manage tasks by signed requests", async function () {
+            const create = await sign(this, this.misha, { action: "create", text: "Gasless", expDate: this.date })
+            await expect(this.CryptoTodo.connect(this.carol).createBySig(this.misha.address, "Gasless", this.date, create.deadline, create.signature))
+                .to.emit(this.CryptoTodo, "SignatureUsed")
+                .withArgs(this.misha.address, 0)
+            const [task] = await this.CryptoTodo.task(0)
+            expect(task.owner).to.equal(this.misha.address)
+            expect(await this.CryptoTodo.nonces(this.misha.address)).to.equal(1)
+
+            const toggle = await sign(this, this.misha, { action: "toggle", id: 0 })
+            await expect(this.CryptoTodo.connect(this.carol).toggleBySig(this.misha.address, 0, toggle.deadline, toggle.signature)).to.emit(this.CryptoTodo, "TaskToggled").withArgs(0, true)
+
+            const remove = await sign(this, this.misha, { action: "softRemove", id: 0 })
+            await expect(this.CryptoTodo.connect(this.carol).softRemoveBySig(this.misha.address, 0, remove.deadline, remove.signature)).to.emit(this.CryptoTodo, "TaskRemoved").withArgs(0)
+
+            const restore = await sign(this, this.misha, { action: "restore", id: 0 })
+            await expect(this.CryptoTodo.connect(this.carol).restoreBySig(this.misha.address, 0, restore.deadline, restore.signature)).to.emit(this.CryptoTodo, "TaskRestored").withArgs(0)
+            expect(await this.CryptoTodo.nonces(this.misha.address)).to.equal(4)
+        })
+
+        it("should reject replayed, expired and mismatched signatures", async function () {
+            const create = await sign(this, this.misha, { action: "create", text: "Gasless", expDate: this.date })
+            await this.CryptoTodo.createBySig(this.misha.address, "Gasless", this.date, create.deadline, create.signature)
+
+            // Replay: the nonce has been used
+            await expect(this.CryptoTodo.createBySig(this.misha.address, "Gasless", this.date, create.deadline, create.signature)).to.be.revertedWith("CryptoTodo: invalid signature")
+
+            // Signer mismatch and changed arguments
+            const other = await sign(this, this.alice, { action: "create", text: "Gasless", expDate: this.date, signer: this.misha.address, nonce: "1" })
+            await expect(this.CryptoTodo.createBySig(this.misha.address, "Gasless", this.date, other.deadline, other.signature)).to.be.revertedWith("CryptoTodo: invalid signature")
+            const toggle = await sign(this, this.misha, { action: "toggle", id: 0 })
+            await expect(this.CryptoTodo.softRemoveBySig(this.misha.address, 0, toggle.deadline, toggle.signature)).to.be.revertedWith("CryptoTodo: invalid signature")
+
+            // Expiry
+            await increase(duration.hours("2"))
+            await expect(this.CryptoTodo.toggleBySig(this.misha.address, 0, toggle.deadline, toggle.signature)).to.be.revertedWith("CryptoTodo: the signature has expired")
+        })
+
+        it("should check the signer is allowed to change the task", async function () {
+            await this.CryptoTodo.connect(this.misha).create("Not yours", this.date)
+
+            const toggle = await sign(this, this.alice, { action: "toggle", id: 0 })
+            await expect(this.CryptoTodo.toggleBySig(this.alice.address, 0, toggle.deadline, toggle.signature)).to.be.revertedWith(
+                "CryptoTodo: caller is not the owner or the assignee of the task"
+            )
+            const remove = await sign(this, this.alice, { action: "softRemove", id: 0 })
+            await expect(this.CryptoTodo.softRemoveBySig(this.alice.address, 0, remove.deadline, remove.signature)).to.be.revertedWith(
+                "CryptoTodo: caller is not the owner of the task"
+            )
+        })
+    })
+
+    describe("Batches", function () {
+        beforeEach(async function () {
+            this.date = (await latest()).add(duration.days("2")).toNumber()
+        })
+
+        it("should create, toggle and remove tasks in batches", async function () {
+            const ids = await this.CryptoTodo.callStatic.createBatch(["First", "Second", "Third"], [this.date, this.date, this.date])
+            expect(ids.map((id: BigNumber) => id.toNumber())).to.eql([0, 1, 2])
+            await expect(this.CryptoTodo.createBatch(["First", "Second", "Third"], [this.date, this.date, this.date]))
+                .to.emit(this.CryptoTodo, "TaskCreated")
+                .withArgs(2, this.bob.address, "Third", this.date)
+
+            await expect(this.CryptoTodo.toggleBatch([0, 2])).to.emit(this.CryptoTodo, "TaskToggled").withArgs(2, true)
+            await expect(this.CryptoTodo.removeBatch([1, 2])).to.emit(this.CryptoTodo, "TaskRemoved").withArgs(1)
+
+            const [tasks, taskIds] = await this.CryptoTodo.personalTasks(true, true)
+            expect(taskIds.map((id: BigNumber) => id.toNumber())).to.eql([0, 1, 2])
+            expect(tasks.map((task: any) => [task.doneDate > 0, task.isRemoved])).to.eql([
+                [true, false],
+                [false, true],
+                [true, true],
+            ])
+        })
+
+        it("should revert the whole batch with the index of the failed item", async function () {
+            await expect(this.CryptoTodo.createBatch(["First", ""], [this.date, this.date])).to.be.revertedWith(
+                "CryptoTodo: batch item 1 failed: CryptoTodo: the text of task is empty"
+            )
+            await expect(this.CryptoTodo.createBatch(["First"], [this.date, this.date])).to.be.revertedWith("CryptoTodo: the lengths of texts and exp dates differ")
+            expect((await this.CryptoTodo.personalTasks(true, true))[0]).to.be.empty
+
+            await this.CryptoTodo.createBatch(["First", "Second"], [this.date, this.date])
+            await this.CryptoTodo.connect(this.misha).create("Not yours", this.date)
+            await expect(this.CryptoTodo.toggleBatch([0, 1, 2])).to.be.revertedWith("CryptoTodo: batch item 2 failed: CryptoTodo: caller is not the owner or the assignee of the task")
+            await expect(this.CryptoTodo.removeBatch([1, 5])).to.be.revertedWith("CryptoTodo: batch item 1 failed: CryptoTodo: there is no task with this id")
+
+            const [tasks] = await this.CryptoTodo.personalTasks(true, true)
+            expect(tasks.map((task: any) => [task.doneDate, task.isRemoved])).to.eql([
+                [0, false],
+                [0, false],
+            ])
+        })
     })
 })
@@ -0,0 +1,93 @@
+import { expect } from "chai"
+import { BigNumber, Contract } from "ethers"
+import { ethers } from "hardhat"
+import { revert, snapshot } from "./utils/network"
+import { prepareSigners } from "./utils/prepare"
+import { duration, latest } from "./utils/time"
+
+// Seeding takes minutes, so the benchmark only runs with the sizes of the task lists, e.g. BENCHMARK_TASKS=1000,10000
+const sizes = process.env.BENCHMARK_TASKS ? process.env.BENCHMARK_TASKS.split(",").map(Number) : []
+const describeBenchmark = sizes.length ? describe : describe.skip
+
+/**
+ * Gas of the task queries before and after the owner index.
+ * eth_call is capped by the block gas limit, so the legacy queries run out of gas on large lists.
+ */
+describeBenchmark("CryptoTodo gas benchmark", function () {
+    const ownerCount = 20
+    // Tasks per seeding transaction: under the block gas target, so the base fee stays zero, and owners stay in turn
+    const batchSize = 80
+
+    let snapshotId: string
+
+    async function seed(contract: Contract, owners: string[], count: number) {
+        const expDate = (await latest()).add(duration.years("1"))
+        for (let created = 0; created < count; created += batchSize) {
+            const tx = await contract.seed(owners, Math.min(batchSize, count - created), expDate)
+            await tx.wait()
+        }
+    }
+
+    async function gasOf(estimate: () => Promise<BigNumber>): Promise<string> {
+        try {
+            return (await estimate()).toString()
+        } catch (e) {
+            return "out of gas"
+        }
+    }
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+    })
+
+    for (const size of sizes) {
+        it(`should query ${size} tasks`, async function () {
+            this.timeout(0)
+
+            const owners = this.signers.slice(0, ownerCount).map((signer: any) => signer.address)
+            const legacyFactory: any = await ethers.getContractFactory("CryptoTodoLegacyMock")
+            const indexedFactory: any = await ethers.getContractFactory("CryptoTodoMock")
+            const legacy: Contract = await legacyFactory.deploy()
+            const indexed: Contract = await indexedFactory.deploy(this.owner.address)
+            await seed(legacy, owners, size)
+            await seed(indexed, owners, size)
+
+            const from = { from: owners[0] }
+            const rows = [
+                [
+                    "personalTasks",
+                    await gasOf(() => legacy.estimateGas.personalTasks(true, true, from)),
+                    await gasOf(() => indexed.estimateGas.personalTasks(true, true, from)),
+                ],
+                [
+                    "personalTasksPaged(0, 100)",
+                    "-",
+                    await gasOf(() => indexed.estimateGas.personalTasksPaged(0, 100, true, true, from)),
+                ],
+                [
+                    "onTimeTaskPercents",
+                    await gasOf(() => legacy.estimateGas.onTimeTaskPercents()),
+                    await gasOf(() => indexed.estimateGas.onTimeTaskPercents()),
+                ],
+            ]
+
+            console.log(`      ${size} tasks of ${ownerCount} owners: query, legacy gas, indexed gas`)
+            rows.forEach((row) => console.log(`        ${row.join("  ")}`))
+
+            // The indexed queries do not depend on tasks of other owners
+            const [, ids] = await indexed.personalTasks(true, true, from)
+            expect(ids.length).to.equal(size / ownerCount)
+            expect(Number(rows[1][2])).to.be.lessThan(5000000)
+            expect(Number(rows[2][2])).to.be.lessThan(1000000)
+            if (rows[0][1] !== "out of gas") {
+                expect(Number(rows[0][2])).to.be.lessThan(Number(rows[0][1]))
+                expect(Number(rows[2][2])).to.be.lessThan(Number(rows[2][1]))
+            }
+        })
+    }
+})
@@ -0,0 +1,109 @@
+import { expect } from "chai"
+import fs from "fs"
+import path from "path"
+import { formatTasksCsv, formatTasksIcs, formatTasksJson } from "../lib/export"
+import { parseTaskRows } from "../lib/import"
+import { DecodedTask } from "../lib/todo"
+
+const GOLDEN_DIR = path.join(__dirname, "golden")
+
+const OWNER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8"
+
+const TASKS: DecodedTask[] = [
+    {
+        id: 0,
+        owner: OWNER,
+        text: 'Buy milk, eggs and "bread"',
+        expDate: "2024-05-01T12:00:00.000Z",
+        doneDate: null,
+        isRemoved: false,
+        isExpired: false,
+    },
+    {
+        id: 1,
+        owner: OWNER,
+        text: "Pay rent",
+        expDate: "2024-05-02T09:30:00.000Z",
+        doneDate: "2024-05-01T18:15:42.000Z",
+        isRemoved: false,
+        isExpired: false,
+    },
+    {
+        id: 2,
+        owner: OWNER,
+        text: "Send report; late",
+        expDate: "2024-04-20T00:00:00.000Z",
+        doneDate: "2024-04-21T08:00:00.000Z",
+        isRemoved: false,
+        isExpired: true,
+    },
+    {
+        id: 4,
+        owner: OWNER,
+        text: "Old idea",
+        expDate: "2024-06-01T00:00:00.000Z",
+        doneDate: null,
+        isRemoved: true,
+        isExpired: false,
+    },
+    {
+        id: 7,
+        owner: OWNER,
+        text: "Réserver les billets pour la conférence, puis envoyer le programme à toute l'équipe\nAvant lundi",
+        expDate: "2024-04-25T17:00:00.000Z",
+        doneDate: null,
+        isRemoved: false,
+        isExpired: true,
+    },
+]
+
+/**
+ * Compare the output with the golden file, or rewrite the file with UPDATE_GOLDEN=1
+ */
+function expectGolden(name: string, actual: string) {
+    const file = path.join(GOLDEN_DIR, name)
+    if (process.env.UPDATE_GOLDEN) {
+        fs.writeFileSync(file, actual)
+    }
+    expect(actual).to.equal(fs.readFileSync(file, "utf8"))
+}
+
+describe("CryptoTodo export", function () {
+    it("should format tasks as JSON", function () {
+        expectGolden("tasks.json", formatTasksJson(TASKS))
+    })
+
+    it("should format tasks as CSV which can be imported back", function () {
+        const csv = formatTasksCsv(TASKS)
+        expectGolden("tasks.csv", csv)
+
+        // The multiline text cannot be read back by the line-based import
+        const rows = parseTaskRows(formatTasksCsv(TASKS.slice(0, 4)), "csv")
+        expect(rows.map((row) => [row.text, row.expDate])).to.eql(
+            TASKS.slice(0, 4).map((task) => [task.text, Date.parse(task.expDate) / 1000])
+        )
+    })
+
+    it("should format tasks as iCalendar", function () {
+        const ics = formatTasksIcs(TASKS, {
+            chainId: 31337,
+            address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+            timestamp: 1714000000,
+        })
+        expectGolden("tasks.ics", ics)
+
+        const lines = ics.split("\r\n")
+        expect(lines.every((line) => Buffer.byteLength(line) <= 75)).to.be.true
+        expect(lines.filter((line) => line === "BEGIN:VTODO")).to.have.length(TASKS.length)
+
+        // Missed tasks are cancelled, tasks done late are completed
+        const statuses = lines.filter((line) => line.startsWith("STATUS:"))
+        expect(statuses).to.eql([
+            "STATUS:NEEDS-ACTION",
+            "STATUS:COMPLETED",
+            "STATUS:COMPLETED",
+            "STATUS:CANCELLED",
+            "STATUS:CANCELLED",
+        ])
+    })
+})
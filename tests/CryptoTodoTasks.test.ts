@@ -0,0 +1,367 @@
+import { expect, use } from "chai"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { BigNumber } from "ethers"
+import { ethers, run, waffle } from "hardhat"
+import { revert, snapshot } from "./utils/network"
+import { prepareCryptoTodo, prepareERC20Tokens, prepareMultiSigWallet, prepareSigners } from "./utils/prepare"
+import { captureLogs, expectRejection, runTask } from "./utils/tasks"
+import { duration, increase, latest } from "./utils/time"
+
+use(waffle.solidity)
+
+function toIsoDate(timestamp: BigNumber): string {
+    return new Date(timestamp.toNumber() * 1000).toISOString()
+}
+
+describe("CryptoTodo tasks", function () {
+    let snapshotId: string
+    let tmpDir: string
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareCryptoTodo(this, this.owner)
+
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "todo-"))
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+        fs.rmSync(tmpDir, { recursive: true, force: true })
+    })
+
+    it("should page through personal tasks and percentages", async function () {
+        const date = (await latest()).add(duration.days("2"))
+        for (let i = 0; i < 5; i++) {
+            await this.CryptoTodo.create(`Mine ${i}`, date)
+            await this.CryptoTodo.connect(this.misha).create(`Not mine ${i}`, date)
+        }
+        await this.CryptoTodo.softRemove(4)
+        await this.CryptoTodo.toggle(0)
+        await this.CryptoTodo.connect(this.bob).create("Bob's", date)
+
+        const tasks = await runTask("personal", {
+            expired: "false",
+            removed: "false",
+            pageSize: 2,
+            address: this.CryptoTodo.address,
+        })
+        expect(tasks.map((task: any) => [task.id, task.text])).to.eql([
+            [0, "Mine 0"],
+            [2, "Mine 1"],
+            [6, "Mine 3"],
+            [8, "Mine 4"],
+        ])
+        expect(tasks[0]).to.include({ owner: this.owner.address, isExpired: false, isRemoved: false })
+        expect(tasks[0].doneDate).to.be.a("string")
+        expect(tasks[1].doneDate).to.be.null
+
+        const [owners, percents] = await runTask("percentages", { pageSize: 2, address: this.CryptoTodo.address })
+        expect(owners).to.eql([this.owner.address, this.misha.address, this.bob.address])
+        expect(percents.map((percent: BigNumber) => percent.toNumber())).to.eql([20, 0, 0])
+    })
+
+    it("should get tasks of another owner with merged rows", async function () {
+        const date = (await latest()).add(duration.days("2"))
+        await this.CryptoTodo.connect(this.misha).create("Soon", date)
+        await this.CryptoTodo.connect(this.misha).create("Later", date.add(duration.days("4")))
+        await this.CryptoTodo.create("Mine", date)
+
+        // Time jump
+        await increase(duration.days("3"))
+
+        const tasks = await runTask("personal", {
+            expired: "true",
+            removed: "false",
+            owner: this.misha.address,
+            address: this.CryptoTodo.address,
+        })
+        expect(tasks.map((task: any) => [task.text, task.isExpired])).to.eql([
+            ["Soon", true],
+            ["Later", false],
+        ])
+
+        const logs = await captureLogs(() =>
+            run("personal", {
+                expired: "false",
+                removed: "false",
+                owner: this.misha.address,
+                address: this.CryptoTodo.address,
+            })
+        )
+        expect(logs).to.have.length(1)
+        expect(logs[0]).to.match(/^#1 {2}\[ \] {2}Later {2}expires: /)
+    })
+
+    it("should share a list and toggle an assigned task", async function () {
+        const date = (await latest()).add(duration.days("2")).toNumber()
+        const listId = await runTask("list:create", { name: "Team", address: this.CryptoTodo.address })
+        expect(listId).to.equal(1)
+
+        await runTask("list:add", { list: listId, member: this.misha.address, address: this.CryptoTodo.address })
+        await runTask("list:add", { list: listId, member: this.bob.address, address: this.CryptoTodo.address })
+        await runTask("list:remove", { list: listId, member: this.bob.address, address: this.CryptoTodo.address })
+        const task = await runTask("list:task", {
+            list: listId,
+            text: "Deploy",
+            date,
+            address: this.CryptoTodo.address,
+        })
+        expect(task).to.include({ id: 0, owner: this.owner.address, text: "Deploy" })
+
+        await runTask("task:assign", { id: 0, to: this.misha.address, address: this.CryptoTodo.address })
+        await runTask("toggle", { id: "0", from: this.misha.address, address: this.CryptoTodo.address })
+        await expectRejection(
+            runTask("toggle", { id: "0", from: this.bob.address, address: this.CryptoTodo.address }),
+            "CryptoTodo: caller is not the owner or the assignee of the task"
+        )
+
+        const list = await runTask("list:show", { list: listId, address: this.CryptoTodo.address })
+        expect(list).to.include({ id: 1, owner: this.owner.address, name: "Team" })
+        expect(list.members).to.eql([this.misha.address])
+        expect(list.tasks.map((t: any) => [t.id, t.assignee, t.doneDate !== null])).to.eql([
+            [0, this.misha.address, true],
+        ])
+
+        await runTask("task:assign", { id: 0, address: this.CryptoTodo.address })
+        const logs = await captureLogs(() => run("list:show", { list: listId, address: this.CryptoTodo.address }))
+        expect(logs[0]).to.match(/^List #1: Team\nOwner: 0x[0-9a-fA-F]{40}\nMembers: 0x/)
+        expect(logs[0]).to.match(/#0 {2}\[x\] {2}Deploy .* assignee: none$/)
+    })
+
+    it("should create funded tasks, claim refunds and sweep forfeits", async function () {
+        await prepareMultiSigWallet(this, this.owner)
+        await prepareCryptoTodo(this, this.owner, this.MSW.address)
+        await prepareERC20Tokens(this, this.misha)
+        const date = (await latest()).add(duration.days("2")).toNumber()
+
+        // The token allowance is approved by the task
+        const task = await runTask("bounty:create", {
+            text: "On time",
+            date,
+            amount: "2.5",
+            token: this.token1.address,
+            from: this.misha.address,
+            address: this.CryptoTodo.address,
+        })
+        expect(task).to.include({ id: 0, owner: this.misha.address })
+        await runTask("bounty:create", {
+            text: "Late",
+            date,
+            amount: "1.5",
+            token: this.token1.address,
+            from: this.misha.address,
+            address: this.CryptoTodo.address,
+        })
+        await runTask("bounty:create", { text: "ETH", date, amount: "0.5", address: this.CryptoTodo.address })
+        expect(await this.token1.balanceOf(this.CryptoTodo.address)).to.equal(ethers.utils.parseUnits("4", 6))
+
+        let bounty = await runTask("bounty", { id: 0, address: this.CryptoTodo.address })
+        expect(bounty).to.eql({ id: 0, token: this.token1.address, amount: "2.5", status: "Locked" })
+
+        await runTask("toggle", { id: "0", from: this.misha.address, address: this.CryptoTodo.address })
+        bounty = await runTask("bounty:claim", { id: 0, from: this.misha.address, address: this.CryptoTodo.address })
+        expect(bounty.status).to.equal("Settled")
+        expect(await this.token1.balanceOf(this.misha.address)).to.equal(ethers.utils.parseUnits("99998.5", 6))
+
+        // Time jump
+        await increase(duration.days("3"))
+
+        expect((await runTask("bounty", { id: 1, address: this.CryptoTodo.address })).status).to.equal("Forfeitable")
+        const bounties = await runTask("bounty:forfeit", {
+            ids: "1,2",
+            from: this.carol.address,
+            address: this.CryptoTodo.address,
+        })
+        expect(bounties.map((b: any) => [b.amount, b.status])).to.eql([
+            ["1.5", "Settled"],
+            ["0.5", "Settled"],
+        ])
+        expect(await this.token1.balanceOf(this.MSW.address)).to.equal(ethers.utils.parseUnits("1.5", 6))
+        expect(await ethers.provider.getBalance(this.MSW.address)).to.equal(ethers.utils.parseEther("0.5"))
+
+        await expectRejection(
+            runTask("bounty:claim", { id: 1, from: this.misha.address, address: this.CryptoTodo.address }),
+            "CryptoTodo: the task is not completed on time"
+        )
+
+        await this.CryptoTodo.create("Plain", (await latest()).add(duration.days("1")))
+        expect(await runTask("bounty", { id: 3, address: this.CryptoTodo.address })).to.be.null
+    })
+
+    it("should walk a recurring task across several periods", async function () {
+        const week = duration.weeks("1")
+        const date = (await latest()).add(duration.days("1"))
+        const task = await runTask("recurring", {
+            text: "Weekly report",
+            date: date.toNumber(),
+            period: week.toNumber(),
+            address: this.CryptoTodo.address,
+        })
+        expect(task.id).to.equal(0)
+
+        // Done on time in the first period, missed in the second one, done late in the third one
+        await runTask("toggle", { id: "0", address: this.CryptoTodo.address })
+        await increase(duration.days("1").add(week).add(duration.hours("1")))
+        const next = await runTask("recur", { id: 1, from: this.misha.address, address: this.CryptoTodo.address })
+        expect(next).to.include({ id: 2, owner: this.owner.address, expDate: toIsoDate(date.add(week.mul(2))) })
+        await increase(week)
+        await runTask("toggle", { id: "2", address: this.CryptoTodo.address })
+
+        const chain = await runTask("task:chain", { id: 1, address: this.CryptoTodo.address })
+        expect(chain.map((t: any) => [t.id, t.expDate, t.doneDate !== null, t.isExpired])).to.eql([
+            [0, toIsoDate(date), true, false],
+            [1, toIsoDate(date.add(week)), false, true],
+            [2, toIsoDate(date.add(week.mul(2))), true, true],
+            [3, toIsoDate(date.add(week.mul(3))), false, false],
+        ])
+
+        const [owners, percents] = await runTask("percentages", { address: this.CryptoTodo.address })
+        expect(owners).to.eql([this.owner.address])
+        expect(percents[0].toNumber()).to.equal(25)
+
+        const logs = await captureLogs(() => run("task:chain", { id: 3, address: this.CryptoTodo.address }))
+        expect(logs[0].split("\n")).to.have.length(5)
+        expect(logs[0]).to.match(/^Recurring every 604800 seconds\n#0 /)
+
+        // The stopped series spawns no more occurrences
+        await runTask("recur:stop", { id: 3, address: this.CryptoTodo.address })
+        await increase(week.mul(2))
+        await expectRejection(
+            runTask("recur", { id: 3, address: this.CryptoTodo.address }),
+            "CryptoTodo: the task is not recurring"
+        )
+    })
+
+    it("should print a task tree with dependencies", async function () {
+        const date = (await latest()).add(duration.days("2")).toNumber()
+        await this.CryptoTodo.create("Release", date)
+        await runTask("subtask", { parent: 0, text: "Build", date, address: this.CryptoTodo.address })
+        await runTask("subtask", { parent: 0, text: "Docs", date, address: this.CryptoTodo.address })
+        await runTask("subtask", { parent: 1, text: "Compile", date, address: this.CryptoTodo.address })
+        await runTask("subtask", { parent: 2, text: "Old docs", date, address: this.CryptoTodo.address })
+        await this.CryptoTodo.softRemove(4)
+        expect(await runTask("task:depend", { id: 2, on: 1, address: this.CryptoTodo.address })).to.eql([1])
+
+        await expectRejection(
+            runTask("task:depend", { id: 1, on: 2, address: this.CryptoTodo.address }),
+            "CryptoTodo: the dependency makes a cycle"
+        )
+        await this.CryptoTodo.toggle(3)
+
+        const tree = await runTask("tree", { id: 0, removed: "false", address: this.CryptoTodo.address })
+        expect(tree.children.map((child: any) => [child.id, child.children.length])).to.eql([
+            [1, 1],
+            [2, 0],
+        ])
+
+        const logs = await captureLogs(() => run("tree", { id: 0, address: this.CryptoTodo.address }))
+        const lines = logs[0].split("\n")
+        expect(
+            lines.map((line: string) => line.replace(/ {2}expires: .*?(?= {2}|$)/, "").replace(/ {2}done: \S+/, ""))
+        ).to.eql([
+            "#0  [ ]  Release",
+            "├─ #1  [ ]  Build",
+            "│  └─ #3  [x]  Compile",
+            "└─ #2  [ ]  Docs  blocked by: #1",
+            "   └─ #4  [ ]  Old docs  (removed)",
+        ])
+
+        expect(await runTask("task:depend", { id: 2, on: 1, remove: true, address: this.CryptoTodo.address })).to.eql(
+            []
+        )
+    })
+
+    it("should import tasks from CSV and JSON in gas-bounded batches", async function () {
+        const date = (await latest()).add(duration.days("2"))
+        const csvPath = path.join(tmpDir, "tasks.csv")
+        fs.writeFileSync(
+            csvPath,
+            [
+                "text,expDate",
+                `Buy milk,${date}`,
+                `"Call mom, dad",${toIsoDate(date)}`,
+                `"Read ""Dune""",${date.add(1)}`,
+                "",
+                `Write report,${date.add(2)}`,
+                `Pay rent,${date.add(3)}`,
+            ].join("\n")
+        )
+
+        // 5 tasks do not fit into the gas limit, so the batch is halved
+        let imported: any
+        const logs = await captureLogs(async () => {
+            imported = await run("import", {
+                file: csvPath,
+                batchSize: 5,
+                maxGas: 400_000,
+                address: this.CryptoTodo.address,
+            })
+        })
+        expect(imported).to.eql([1, 2, 3, 4, 5].map((row) => ({ row, id: row - 1 })))
+        expect(logs.filter((line) => line.startsWith("Created")).length).to.be.greaterThan(1)
+        expect(logs).to.include("row 2 -> #1")
+
+        const tasks = await runTask("personal", {
+            expired: "false",
+            removed: "false",
+            address: this.CryptoTodo.address,
+        })
+        expect(tasks.map((task: any) => [task.text, task.expDate])).to.eql([
+            ["Buy milk", toIsoDate(date)],
+            ["Call mom, dad", toIsoDate(date)],
+            ['Read "Dune"', toIsoDate(date.add(1))],
+            ["Write report", toIsoDate(date.add(2))],
+            ["Pay rent", toIsoDate(date.add(3))],
+        ])
+
+        const jsonPath = path.join(tmpDir, "tasks.json")
+        fs.writeFileSync(
+            jsonPath,
+            JSON.stringify([
+                { text: "From JSON", expDate: date.toNumber() },
+                { text: "", date: toIsoDate(date) },
+            ])
+        )
+        await expectRejection(
+            runTask("import", { file: jsonPath, from: this.misha.address, address: this.CryptoTodo.address }),
+            "CryptoTodo: row 2 has an empty text"
+        )
+
+        fs.writeFileSync(jsonPath, JSON.stringify([{ text: "From JSON", date: toIsoDate(date) }]))
+        expect(
+            await runTask("import", { file: jsonPath, from: this.misha.address, address: this.CryptoTodo.address })
+        ).to.eql([{ row: 1, id: 5 }])
+        const [task] = await this.CryptoTodo.task(5)
+        expect(task.owner).to.equal(this.misha.address)
+    })
+
+    it("should export tasks to files by their extension", async function () {
+        const date = (await latest()).add(duration.days("2"))
+        await this.CryptoTodo.createBatch(["Open", "Done", "Removed"], [date, date, date])
+        await this.CryptoTodo.toggle(1)
+        await this.CryptoTodo.softRemove(2)
+
+        const icsPath = path.join(tmpDir, "tasks.ics")
+        const ics = await runTask("task:export", { out: icsPath, address: this.CryptoTodo.address })
+        expect(fs.readFileSync(icsPath, "utf8")).to.equal(ics)
+        expect(ics.match(/^STATUS:[A-Z-]+/gm)).to.eql(["STATUS:NEEDS-ACTION", "STATUS:COMPLETED"])
+        expect(ics).to.include(`DUE:${toIsoDate(date).replace(/[-:]/g, "").replace(".000", "")}`)
+
+        const csvPath = path.join(tmpDir, "tasks.csv")
+        await runTask("task:export", { removed: "true", out: csvPath, address: this.CryptoTodo.address })
+        const lines = fs.readFileSync(csvPath, "utf8").trim().split("\n")
+        expect(lines.slice(1).map((line) => line.split(",").slice(2, 3)[0])).to.eql(["Open", "Done", "Removed"])
+
+        const json = await runTask("task:export", { format: "json", address: this.CryptoTodo.address })
+        expect(JSON.parse(json).map((task: any) => task.id)).to.eql([0, 1])
+
+        await expectRejection(
+            runTask("task:export", { out: path.join(tmpDir, "tasks.txt"), address: this.CryptoTodo.address }),
+            "CryptoTodo: unknown export format txt, use json, csv, ics"
+        )
+    })
+})
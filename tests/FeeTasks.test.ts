@@ -0,0 +1,114 @@
+import { expect, use } from "chai"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import hre, { ethers, waffle } from "hardhat"
+import { CHANGE_FEE_TYPES, parseFee } from "../lib/fee"
+import { readFeeSettings } from "../lib/treasury"
+import { revert, snapshot } from "./utils/network"
+import { prepareMultiSigWallet, prepareSigners, prepareTicTacToe } from "./utils/prepare"
+import { expectRejection, runTask } from "./utils/tasks"
+
+use(waffle.solidity)
+
+describe("Fee tasks", function () {
+    const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+
+    let snapshotId: string
+    let tmpDir: string
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareMultiSigWallet(this, this.owner)
+        await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fee-"))
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+        fs.rmSync(tmpDir, { recursive: true, force: true })
+    })
+
+    it("should parse fees in human units", function () {
+        expect(parseFee("2.5", "percent")).to.deep.equal({ fee: ethers.utils.parseUnits("2.5", 16), isAbsFee: false })
+        expect(parseFee("0.1", "absolute")).to.deep.equal({ fee: ethers.utils.parseUnits("0.1", 18), isAbsFee: true })
+        expect(() => parseFee("101", "percent")).to.throw("TicTacToe: a percentage fee cannot be more than 100%")
+    })
+
+    it("should sign the fee like the owner's typed data", async function () {
+        const signed = await runTask("fee:sign", { fee: "2", address: this.TTT.address })
+
+        const { chainId } = await ethers.provider.getNetwork()
+        const domain = { name: "TicTacToe", version: "1", chainId, verifyingContract: this.TTT.address }
+        const value = { _fee: ethers.utils.parseUnits("2", 16).toString(), _isAbsFee: false }
+        expect(signed.signature).to.equal(await this.owner._signTypedData(domain, CHANGE_FEE_TYPES, value))
+        expect(signed.signer).to.equal(this.owner.address)
+        expect(signed.chainId).to.equal(chainId)
+    })
+
+    it("should apply the signed percentage fee from a relayer", async function () {
+        const out = path.join(tmpDir, "fee.json")
+        await runTask("fee:sign", { fee: "2.5", out, address: this.TTT.address })
+
+        const balanceBefore = await ethers.provider.getBalance(this.owner.address)
+        const applied = await runTask("fee:apply", { file: out, from: this.misha.address, address: this.TTT.address })
+        expect(applied.signer).to.equal(this.owner.address)
+        expect(await ethers.provider.getBalance(this.owner.address)).to.equal(balanceBefore)
+
+        const settings = await readFeeSettings(hre, this.TTT.address)
+        expect(settings.fee).to.equal(ethers.utils.parseUnits("2.5", 16))
+        expect(settings.isAbsFee).to.be.false
+    })
+
+    it("should apply an absolute fee with the signature only", async function () {
+        const signed = await runTask("fee:sign", { fee: "0.01", kind: "absolute", address: this.TTT.address })
+
+        const applied = await runTask("fee:apply", {
+            fee: "0.01",
+            kind: "absolute",
+            signature: signed.signature,
+            from: this.bob.address,
+            address: this.TTT.address,
+        })
+        expect(applied.isAbsFee).to.be.true
+
+        const settings = await readFeeSettings(hre, this.TTT.address)
+        expect(settings.fee).to.equal(ethers.utils.parseUnits("0.01", 18))
+        expect(settings.isAbsFee).to.be.true
+    })
+
+    it("should not send a fee signed by another account", async function () {
+        const signed = await runTask("fee:sign", { fee: "2", from: this.misha.address, address: this.TTT.address })
+        const blockNumber = await ethers.provider.getBlockNumber()
+
+        await expectRejection(
+            runTask("fee:apply", {
+                fee: "2",
+                signature: signed.signature,
+                from: this.misha.address,
+                address: this.TTT.address,
+            }),
+            `TicTacToe: the fee is signed by ${this.misha.address}, not by the owner ${this.owner.address}`
+        )
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber)
+    })
+
+    it("should not apply a fee signed for another chain or contract", async function () {
+        const out = path.join(tmpDir, "fee.json")
+
+        await runTask("fee:sign", { fee: "2", chainId: 1, out, address: this.TTT.address })
+        await expectRejection(
+            runTask("fee:apply", { file: out, address: this.TTT.address }),
+            "TicTacToe: the fee is signed for chain 1"
+        )
+
+        await runTask("fee:sign", { fee: "2", out, address: this.MSW.address })
+        await expectRejection(
+            runTask("fee:apply", { file: out, address: this.TTT.address }),
+            `TicTacToe: the fee is signed for ${this.MSW.address}`
+        )
+    })
+})
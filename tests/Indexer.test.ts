@@ -0,0 +1,357 @@
+import { expect, use } from "chai"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { ethers, waffle } from "hardhat"
+import { Indexer, JsonStore } from "../lib/indexer"
+import { signTodoRequest } from "../lib/meta"
+import { gameViews, onTimePercentViews, personalTaskViews, walletTransactionViews } from "../lib/views"
+import { revert, snapshot } from "./utils/network"
+import { prepareCryptoTodo, prepareMultiSigWallet, prepareSigners, prepareTicTacToe } from "./utils/prepare"
+import { runTask } from "./utils/tasks"
+import { duration, increase, latest } from "./utils/time"
+
+use(waffle.solidity)
+
+describe("Indexer", function () {
+    const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+    const stake = ethers.utils.parseEther("1")
+    const tokenAddress = ethers.constants.AddressZero
+
+    let snapshotId: string
+    let tmpDir: string
+
+    function createIndexer(thisObject: Mocha.Context, store = new JsonStore()) {
+        return new Indexer({
+            provider: ethers.provider,
+            contracts: { CryptoTodo: thisObject.CryptoTodo, TicTacToe: thisObject.TTT, MultiSigWallet: thisObject.MSW },
+            store,
+            log: () => undefined,
+        })
+    }
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareCryptoTodo(this, this.owner)
+        await prepareMultiSigWallet(this, this.owner)
+        await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"))
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+        fs.rmSync(tmpDir, { recursive: true, force: true })
+    })
+
+    it("should build the same tasks as the contract views", async function () {
+        const now = (await latest()).toNumber()
+        await this.CryptoTodo.connect(this.misha).create("On time", now + 1000)
+        await this.CryptoTodo.connect(this.misha).create("Late", now + 100)
+        await this.CryptoTodo.connect(this.bob).create("Removed", now + 1000)
+        await this.CryptoTodo.connect(this.misha).create("Restored", now + 1000)
+        await this.CryptoTodo.connect(this.misha).toggle(0)
+        await this.CryptoTodo.connect(this.bob).softRemove(2)
+        await this.CryptoTodo.connect(this.misha).softRemove(3)
+        await this.CryptoTodo.connect(this.misha).restore(3)
+
+        // Time jump
+        await increase(duration.seconds("200"))
+        await this.CryptoTodo.connect(this.misha).toggle(1)
+
+        const indexer = createIndexer(this)
+        expect(await indexer.sync()).to.equal(9)
+
+        const events = indexer.events("CryptoTodo")
+        const { timestamp } = await ethers.provider.getBlock("latest")
+
+        for (const [withExpired, withRemoved] of [
+            [false, false],
+            [true, false],
+            [false, true],
+            [true, true],
+        ]) {
+            const [tasks, ids, isExpired] = await this.CryptoTodo.connect(this.misha).personalTasks(
+                withExpired,
+                withRemoved
+            )
+            const views = personalTaskViews(events, this.misha.address, withExpired, withRemoved, timestamp)
+
+            expect(views.map((view) => view.id)).to.deep.equal(ids.map((id: any) => id.toNumber()))
+            expect(views.map((view) => view.text)).to.deep.equal(tasks.map((task: any) => task.text))
+            expect(views.map((view) => view.doneDate)).to.deep.equal(tasks.map((task: any) => task.doneDate))
+            expect(views.map((view) => view.isExpired)).to.deep.equal(isExpired)
+        }
+
+        const [owners, percents] = await this.CryptoTodo.onTimeTaskPercents()
+        const views = onTimePercentViews(events, timestamp)
+        expect(views.map((view) => view.owner)).to.deep.equal(owners)
+        expect(views.map((view) => view.percent)).to.deep.equal(percents.map((percent: any) => percent.toNumber()))
+    })
+
+    it("should build games and wallet transactions", async function () {
+        await this.TTT.connect(this.misha).newMyGame(stake, tokenAddress, 0, { value: stake })
+        await this.TTT.connect(this.bob).join(1, { value: stake })
+        await this.TTT.connect(this.carol).newGame(stake, tokenAddress, 0)
+        await this.TTT.connect(this.tema).join(2, { value: stake })
+        const moves = [
+            [0, 0],
+            [0, 1],
+            [1, 0],
+            [1, 1],
+            [2, 0],
+        ]
+        for (let i = 0; i < moves.length; i++) {
+            await this.TTT.connect(i % 2 ? this.bob : this.misha).move(1, moves[i][0], moves[i][1])
+        }
+
+        await this.owner.sendTransaction({ to: this.MSW.address, value: stake })
+        await this.MSW.submitTransaction(this.carol.address, stake, "0x")
+        await this.MSW.submitTransaction(this.carol.address, stake, "0x")
+        await this.MSW.confirmTransaction(0)
+        await this.MSW.connect(this.alice).confirmTransaction(0)
+        await this.MSW.connect(this.alice).revokeConfirmation(0)
+        await this.MSW.executeTransaction(0)
+
+        const indexer = createIndexer(this)
+        await indexer.sync()
+
+        const games = gameViews(indexer.events())
+        expect(games.length).to.equal(2)
+        for (const game of games) {
+            const onChain = await this.TTT.gameById(game.id)
+            expect(game.p1).to.equal(onChain.p1)
+            expect(game.p2).to.equal(onChain.p2)
+            expect(game.phase).to.equal(["Join", "P1Turn", "P2Turn", "Finished"][onChain.phase])
+            expect(game.winner).to.equal(["None", "P1", "P2", "Both"][onChain.winner])
+        }
+        expect(games[0].moves.length).to.equal(5)
+        expect(games[0].stake).to.equal("1.0")
+
+        const transactions = walletTransactionViews(indexer.events())
+        expect(transactions.length).to.equal(2)
+        expect(transactions[0].confirmations).to.deep.equal([this.owner.address])
+        expect(transactions[0].isExecuted).to.be.true
+        expect(transactions[1].isExecuted).to.be.false
+
+        // Fees of three stakes and the owner's deposit
+        const deposits = indexer.events("MultiSigWallet", "Deposit")
+        expect(deposits.map((e) => e.args.sender)).to.deep.equal([
+            this.TTT.address,
+            this.TTT.address,
+            this.TTT.address,
+            this.owner.address,
+        ])
+        expect(deposits[3].args.amount).to.equal(stake.toString())
+    })
+
+    it("should build challenges and invite-only games", async function () {
+        await this.TTT.connect(this.misha).newChallenge(stake, tokenAddress, 0, this.bob.address, { value: stake })
+        await this.TTT.connect(this.carol).newInviteGame(stake, tokenAddress, 0, { value: stake })
+
+        const indexer = createIndexer(this)
+        await indexer.sync()
+
+        const [challenge, inviteGame] = gameViews(indexer.events())
+        expect(challenge).to.include({ p1: this.misha.address, opponent: this.bob.address })
+        expect(challenge.isInviteOnly).to.be.undefined
+        expect(inviteGame).to.include({ p1: this.carol.address, isInviteOnly: true })
+        expect(inviteGame.opponent).to.be.undefined
+    })
+
+    it("should build matches and their rounds", async function () {
+        await this.TTT.connect(this.misha).newMatch(stake, tokenAddress, 0, 3, { value: stake })
+        await this.TTT.connect(this.bob).join(1, { value: stake })
+
+        const indexer = createIndexer(this)
+        await indexer.sync()
+
+        const [match, round] = gameViews(indexer.events())
+        expect(match).to.include({ p1: this.misha.address, p2: this.bob.address, rounds: 3 })
+        expect(match.matchId).to.be.undefined
+        expect(round).to.include({ id: 2, p1: this.misha.address, p2: this.bob.address, phase: "P1Turn", stake: "0.0" })
+        expect(round).to.include({ matchId: 1, roundNum: 1 })
+    })
+
+    it("should resume from the last processed block", async function () {
+        const storePath = path.join(tmpDir, "index.json")
+        const now = (await latest()).toNumber()
+
+        await this.CryptoTodo.connect(this.misha).create("First", now + 1000)
+        const first = createIndexer(this, new JsonStore(storePath))
+        expect(await first.sync()).to.equal(1)
+
+        await this.CryptoTodo.connect(this.misha).create("Second", now + 1000)
+        const second = createIndexer(this, new JsonStore(storePath))
+        expect(await second.sync()).to.equal(1)
+
+        expect(second.events().map((e) => e.args.text)).to.deep.equal(["First", "Second"])
+        expect(second.lastBlock).to.equal(await ethers.provider.getBlockNumber())
+    })
+
+    it("should roll back events of reorged blocks", async function () {
+        const now = (await latest()).toNumber()
+        await this.CryptoTodo.connect(this.misha).create("Kept", now + 1000)
+
+        const indexer = createIndexer(this)
+        await indexer.sync()
+
+        const forkId = await snapshot()
+        await this.CryptoTodo.connect(this.misha).create("Orphaned", now + 1000)
+        await this.CryptoTodo.connect(this.misha).toggle(0)
+        await indexer.sync()
+        expect(indexer.events().length).to.equal(3)
+
+        // The same block numbers get other blocks
+        await revert(forkId)
+        await this.CryptoTodo.connect(this.bob).create("Canonical", now + 1000)
+        await this.CryptoTodo.connect(this.bob).create("Canonical 2", now + 1000)
+        await indexer.sync()
+
+        expect(indexer.events().map((e) => e.args.text)).to.deep.equal(["Kept", "Canonical", "Canonical 2"])
+        expect(indexer.events().map((e) => e.from)).to.deep.equal([
+            this.misha.address,
+            this.bob.address,
+            this.bob.address,
+        ])
+    })
+
+    it("should index with tasks and query the index instead of the contract", async function () {
+        const storePath = path.join(tmpDir, "index.json")
+        const now = (await latest()).toNumber()
+        await this.CryptoTodo.create("Mine", now + 1000)
+        await this.CryptoTodo.connect(this.misha).create("Not mine", now + 1000)
+        await this.TTT.connect(this.misha).newMyGame(stake, tokenAddress, 0, { value: stake })
+
+        const result = await runTask("index", {
+            todo: this.CryptoTodo.address,
+            ttt: this.TTT.address,
+            msw: this.MSW.address,
+            store: storePath,
+        })
+        expect(result.events).to.equal(4)
+        expect(fs.existsSync(storePath)).to.be.true
+
+        const tasks = await runTask("personal", {
+            expired: "false",
+            removed: "false",
+            indexed: true,
+            store: storePath,
+            address: this.CryptoTodo.address,
+        })
+        expect(tasks.map((task: any) => task.text)).to.deep.equal(["Mine"])
+
+        // New events are synced before the query
+        await this.TTT.connect(this.bob).join(1, { value: stake })
+        const games = await runTask("games", {
+            player: this.bob.address,
+            store: storePath,
+            address: this.TTT.address,
+        })
+        expect(games.length).to.equal(1)
+        expect(games[0].p1).to.equal(this.misha.address)
+        expect(games[0].phase).to.equal("P1Turn")
+    })
+    it("should rebuild the edit history of a task", async function () {
+        const storePath = path.join(tmpDir, "index.json")
+        const now = (await latest()).toNumber()
+        await this.CryptoTodo.connect(this.misha).create("Tset", now + 1000)
+        await this.CryptoTodo.connect(this.misha).create("Other", now + 1000)
+
+        let task = await runTask("task:edit", {
+            id: 0,
+            text: "Test",
+            from: this.misha.address,
+            address: this.CryptoTodo.address,
+        })
+        expect(task.text).to.equal("Test")
+        await this.CryptoTodo.connect(this.misha).toggle(0)
+        task = await runTask("task:extend", {
+            id: 0,
+            date: now + 2000,
+            from: this.misha.address,
+            address: this.CryptoTodo.address,
+        })
+        expect(task.expDate).to.equal(new Date((now + 2000) * 1000).toISOString())
+        await this.CryptoTodo.connect(this.misha).editText(0, "Test 2")
+
+        await runTask("index", { todo: this.CryptoTodo.address, store: storePath })
+        const history = await runTask("task:history", { id: 0, store: storePath, address: this.CryptoTodo.address })
+        expect(history.map((revision: any) => [revision.change, revision.text, revision.expDate])).to.deep.equal([
+            ["Created", "Tset", now + 1000],
+            ["TextEdited", "Test", now + 1000],
+            ["ExpDateExtended", "Test", now + 2000],
+            ["TextEdited", "Test 2", now + 2000],
+        ])
+
+        const indexer = createIndexer(this)
+        await indexer.sync()
+        const { timestamp } = await ethers.provider.getBlock("latest")
+        const [view] = personalTaskViews(indexer.events(), this.misha.address, true, true, timestamp)
+        const [onChain] = await this.CryptoTodo.task(0)
+        expect([view.text, view.expDate]).to.deep.equal([onChain.text, onChain.expDate])
+    })
+
+    it("should keep the owner of occurrences spawned by others", async function () {
+        const now = (await latest()).toNumber()
+        await this.CryptoTodo.connect(this.misha).createRecurring("Weekly", now + 100, 1000)
+
+        // Time jump
+        await increase(duration.seconds("200"))
+        await this.CryptoTodo.connect(this.bob).recur(0)
+        await this.CryptoTodo.connect(this.misha).toggle(1)
+
+        const indexer = createIndexer(this)
+        await indexer.sync()
+        const { timestamp } = await ethers.provider.getBlock("latest")
+
+        const [, ids] = await this.CryptoTodo.tasksOf(this.misha.address, true, true)
+        const views = personalTaskViews(indexer.events(), this.misha.address, true, true, timestamp)
+        expect(views.map((view) => view.id)).to.deep.equal(ids.map((id: any) => id.toNumber()))
+        expect(views.map((view) => view.id)).to.deep.equal([0, 1, 2])
+        expect(personalTaskViews(indexer.events(), this.bob.address, true, true, timestamp)).to.have.length(0)
+    })
+
+    it("should keep the signer as the owner of relayed tasks", async function () {
+        const { chainId } = await ethers.provider.getNetwork()
+        const now = (await latest()).toNumber()
+        const signed = await signTodoRequest(this.misha, chainId, this.CryptoTodo.address, {
+            action: "create",
+            signer: this.misha.address,
+            text: "Relayed",
+            expDate: now + 1000,
+            nonce: "0",
+            deadline: now + 1000,
+        })
+        await this.CryptoTodo.connect(this.bob).createBySig(
+            this.misha.address,
+            "Relayed",
+            now + 1000,
+            signed.deadline,
+            signed.signature
+        )
+
+        const indexer = createIndexer(this)
+        await indexer.sync()
+        const { timestamp } = await ethers.provider.getBlock("latest")
+        const [view] = personalTaskViews(indexer.events(), this.misha.address, true, true, timestamp)
+        expect(view).to.include({ id: 0, text: "Relayed", owner: this.misha.address })
+    })
+
+    it("should take the owner of tasks created through the wallet", async function () {
+        const now = (await latest()).toNumber()
+        const data = this.CryptoTodo.interface.encodeFunctionData("create", ["By wallet", now + 1000])
+        await this.MSW.submitTransaction(this.CryptoTodo.address, 0, data)
+        await this.MSW.confirmTransaction(0)
+        await this.MSW.executeTransaction(0)
+
+        const indexer = createIndexer(this)
+        await indexer.sync()
+        const { timestamp } = await ethers.provider.getBlock("latest")
+        const [view] = personalTaskViews(indexer.events(), this.MSW.address, true, true, timestamp)
+        expect(view).to.include({ id: 0, text: "By wallet", owner: this.MSW.address })
+        expect(personalTaskViews(indexer.events(), this.owner.address, true, true, timestamp)).to.have.length(0)
+    })
+})
@@ -0,0 +1,132 @@
+import { expect, use } from "chai"
+import { ethers, waffle } from "hardhat"
+import { revert, snapshot } from "./utils/network"
+import { prepareERC20Tokens, prepareMultiSigWallet, prepareSigners, prepareTicTacToe } from "./utils/prepare"
+import { expectRejection, runTask } from "./utils/tasks"
+
+use(waffle.solidity)
+
+describe("MultiSigWallet tasks", function () {
+    const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+
+    let snapshotId: string
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareERC20Tokens(this, this.owner)
+        await prepareMultiSigWallet(this, this.owner)
+        await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+
+        await this.owner.sendTransaction({ to: this.MSW.address, value: ethers.utils.parseEther("10") })
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+    })
+
+    it("should submit, confirm and execute an ETH transfer", async function () {
+        const index = await runTask("msw:submit", { to: this.carol.address, value: "1.5", address: this.MSW.address })
+        expect(index).to.equal(0)
+
+        const pending = await runTask("msw:list", { address: this.MSW.address })
+        expect(pending.length).to.equal(1)
+        expect(pending[0]).to.include({ to: this.carol.address, value: "1.5", isExecutable: false, confirmations: 0 })
+        expect(pending[0].call).to.be.undefined
+
+        const confirmed = await runTask("msw:confirm", { index, from: this.alice.address, address: this.MSW.address })
+        expect(confirmed.confirmedBy).to.deep.equal([this.alice.address])
+        expect(confirmed.isExecutable).to.be.true
+
+        const balanceBefore = await ethers.provider.getBalance(this.carol.address)
+        const executed = await runTask("msw:execute", { index, address: this.MSW.address })
+        expect(executed.isExecuted).to.be.true
+        expect((await ethers.provider.getBalance(this.carol.address)).sub(balanceBefore)).to.equal(
+            ethers.utils.parseEther("1.5")
+        )
+
+        expect(await runTask("msw:list", { address: this.MSW.address })).to.deep.equal([])
+        expect((await runTask("msw:list", { all: true, address: this.MSW.address })).length).to.equal(1)
+    })
+
+    it("should transfer the collected token fees", async function () {
+        const stake = ethers.utils.parseUnits("10", 6)
+        await this.token1.approve(this.TTT.address, stake)
+        await this.TTT.newMyGame(stake, this.token1.address, 6)
+        const fees = await this.token1.balanceOf(this.MSW.address)
+        expect(fees).to.equal(stake.div(100))
+
+        const index = await runTask("msw:submit", {
+            to: this.misha.address,
+            token: this.token1.address,
+            address: this.MSW.address,
+        })
+
+        const transaction = await runTask("msw:show", { index, address: this.MSW.address })
+        expect(transaction.to).to.equal(this.token1.address)
+        expect(transaction.call).to.deep.equal({
+            signature: "transfer(address,uint256)",
+            args: [this.misha.address, fees.toString()],
+        })
+
+        await runTask("msw:confirm", { index, address: this.MSW.address })
+        await runTask("msw:execute", { index, address: this.MSW.address })
+        expect(await this.token1.balanceOf(this.misha.address)).to.equal(fees)
+        expect(await this.token1.balanceOf(this.MSW.address)).to.equal(0)
+    })
+
+    it("should encode a call of the contract method", async function () {
+        const amount = ethers.utils.parseUnits("5", 6)
+        const index = await runTask("msw:submit", {
+            to: this.token1.address,
+            contract: "ERC20Mock",
+            method: "approve",
+            args: JSON.stringify([this.bob.address, amount.toString()]),
+            address: this.MSW.address,
+        })
+
+        const transaction = await runTask("msw:show", { index, address: this.MSW.address })
+        expect(transaction.call.signature).to.equal("approve(address,uint256)")
+
+        await runTask("msw:confirm", { index, address: this.MSW.address })
+        await runTask("msw:execute", { index, address: this.MSW.address })
+        expect(await this.token1.allowance(this.MSW.address, this.bob.address)).to.equal(amount)
+    })
+
+    it("should not execute without enough confirmations", async function () {
+        const walletFactory = await ethers.getContractFactory("MultiSigWallet")
+        const wallet = await walletFactory.deploy([this.owner.address, this.alice.address], 2)
+        await wallet.deployed()
+
+        const index = await runTask("msw:submit", { to: this.carol.address, address: wallet.address })
+        await runTask("msw:confirm", { index, address: wallet.address })
+        await runTask("msw:confirm", { index, from: this.alice.address, address: wallet.address })
+
+        const revoked = await runTask("msw:revoke", { index, from: this.alice.address, address: wallet.address })
+        expect(revoked.confirmedBy).to.deep.equal([this.owner.address])
+        expect(revoked.isExecutable).to.be.false
+
+        await expectRejection(
+            runTask("msw:execute", { index, address: wallet.address }),
+            "MultiSigWallet: the tx has 1 of 2 confirmations"
+        )
+        await expectRejection(
+            runTask("msw:show", { index: 1, address: wallet.address }),
+            "MultiSigWallet: tx does not exist"
+        )
+    })
+
+    it("should fail submitting a call with invalid args", async function () {
+        await expectRejection(
+            runTask("msw:submit", {
+                to: this.token1.address,
+                contract: "ERC20Mock",
+                method: "approve",
+                args: "not json",
+                address: this.MSW.address,
+            }),
+            "MultiSigWallet: args must be a JSON array"
+        )
+    })
+})
@@ -0,0 +1,163 @@
+import { expect, use } from "chai"
+import http from "http"
+import { AddressInfo } from "net"
+import { ethers, waffle } from "hardhat"
+import { SignedTodoRequest } from "../lib/meta"
+import { createRelayerServer } from "../lib/relayer"
+import { revert, snapshot } from "./utils/network"
+import { prepareCryptoTodo, prepareSigners } from "./utils/prepare"
+import { runTask } from "./utils/tasks"
+import { duration, increase, latest } from "./utils/time"
+
+use(waffle.solidity)
+
+interface Response {
+    status: number
+    body: any
+}
+
+describe("Relayer", function () {
+    let snapshotId: string
+    let server: http.Server
+    let baseUrl: string
+
+    function request(path: string, method = "GET", body?: unknown): Promise<Response> {
+        return new Promise((resolve, reject) => {
+            const req = http.request(`${baseUrl}${path}`, { method }, (res) => {
+                let data = ""
+                res.on("data", (chunk) => (data += chunk))
+                res.on("end", () => resolve({ status: res.statusCode as number, body: JSON.parse(data) }))
+            })
+            req.on("error", reject)
+            req.end(body === undefined ? undefined : JSON.stringify(body))
+        })
+    }
+
+    function relay(signed: SignedTodoRequest): Promise<Response> {
+        return request("/relay", "POST", signed)
+    }
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareCryptoTodo(this, this.owner)
+        this.date = (await latest()).add(duration.days("2")).toNumber()
+
+        // The relayer pays for the transactions of the signers
+        server = createRelayerServer(this.CryptoTodo.connect(this.tema))
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+        await new Promise((resolve) => server.close(resolve))
+    })
+
+    it("should relay signed requests of the signer", async function () {
+        const signed = await runTask("meta:sign", {
+            action: "create",
+            text: "Gasless",
+            date: this.date,
+            from: this.misha.address,
+            address: this.CryptoTodo.address,
+        })
+        const created = await relay(signed)
+        expect(created.status).to.equal(200)
+        expect(created.body).to.include({ action: "create", signer: this.misha.address, id: 0 })
+
+        const tx = await ethers.provider.getTransaction(created.body.transactionHash)
+        expect(tx.from).to.equal(this.tema.address)
+        const [task] = await this.CryptoTodo.task(0)
+        expect(task.owner).to.equal(this.misha.address)
+
+        const nonce = await request(`/nonces/${this.misha.address}`)
+        expect(nonce.body).to.deep.equal({ signer: this.misha.address, nonce: "1" })
+
+        const toggle = await runTask("meta:sign", {
+            action: "toggle",
+            id: 0,
+            from: this.misha.address,
+            address: this.CryptoTodo.address,
+        })
+        expect((await relay(toggle)).status).to.equal(200)
+        expect((await this.CryptoTodo.task(0))[0].doneDate).to.not.equal(0)
+
+        const domain = await request("/domain")
+        expect(domain.body).to.include({ name: "CryptoTodo", version: "1", verifyingContract: this.CryptoTodo.address })
+    })
+
+    it("should reject replayed, expired and mismatched requests", async function () {
+        const signed = await runTask("meta:sign", {
+            action: "create",
+            text: "Gasless",
+            date: this.date,
+            ttl: 60,
+            from: this.misha.address,
+            address: this.CryptoTodo.address,
+        })
+        expect((await relay(signed)).status).to.equal(200)
+
+        const replayed = await relay(signed)
+        expect(replayed.status).to.equal(409)
+        expect(replayed.body.error).to.equal("Invalid nonce 0, the next nonce of the signer is 1")
+
+        const mismatched = await relay({ ...signed, signer: this.alice.address })
+        expect(mismatched.status).to.equal(401)
+        expect(mismatched.body.error).to.match(new RegExp(`not by ${this.alice.address}$`))
+        expect((await relay({ ...signed, text: "Changed" })).status).to.equal(401)
+
+        const next = await runTask("meta:sign", {
+            action: "toggle",
+            id: 0,
+            ttl: 60,
+            from: this.misha.address,
+            address: this.CryptoTodo.address,
+        })
+        // Time jump
+        await increase(duration.minutes("2"))
+        const expired = await relay(next)
+        expect(expired.status).to.equal(400)
+        expect(expired.body.error).to.equal("The signature has expired")
+
+        // Nothing is sent for rejected requests
+        expect(await ethers.provider.getTransactionCount(this.tema.address)).to.equal(1)
+    })
+
+    it("should simulate requests before sending them", async function () {
+        await this.CryptoTodo.connect(this.misha).create("Not yours", this.date)
+        const signed = await runTask("meta:sign", {
+            action: "softRemove",
+            id: 0,
+            from: this.alice.address,
+            address: this.CryptoTodo.address,
+        })
+
+        const response = await relay(signed)
+        expect(response.status).to.equal(422)
+        expect(response.body.error).to.equal("CryptoTodo: caller is not the owner of the task")
+        expect(await ethers.provider.getTransactionCount(this.tema.address)).to.equal(0)
+
+        expect((await relay({ ...signed, chainId: 1 })).status).to.equal(400)
+        const badNonce = await relay({ ...signed, nonce: "1e3" })
+        expect(badNonce.status).to.equal(400)
+        expect(badNonce.body.error).to.equal("Invalid nonce: 1e3")
+        const badDeadline = await relay({ ...signed, deadline: "soon" as unknown as number })
+        expect(badDeadline.status).to.equal(400)
+        expect(badDeadline.body.error).to.equal("Invalid deadline: soon")
+        expect((await relay({ ...signed, deadline: -1 })).status).to.equal(400)
+        expect((await request("/relay", "POST", "not json")).status).to.equal(400)
+        expect((await request("/unknown")).status).to.equal(404)
+    })
+
+    it("should reject malformed urls and keep serving", async function () {
+        for (const method of ["GET", "POST"]) {
+            const response = await request("//[", method)
+            expect(response.status).to.equal(400)
+            expect(response.body.error).to.equal("Invalid URL: //[")
+        }
+
+        expect((await request("/domain")).status).to.equal(200)
+    })
+})
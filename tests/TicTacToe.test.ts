@@ -2,7 +2,7 @@ import { expect, use } from "chai"
 import { ethers, waffle } from "hardhat"
 import { revert, snapshot } from "./utils/network"
 import { prepareERC20Tokens, prepareMultiSigWallet, prepareSigners, prepareTicTacToe } from "./utils/prepare"
-import { duration, increase } from "./utils/time"
+import { duration, increase, latest } from "./utils/time"
 import { TypedDataDomain } from "@ethersproject/abstract-signer"
 
 use(waffle.solidity)
@@ -336,6 +336,8 @@ describe("TicTacToe contract", function () {
                 expect(game.winner).to.equal(3)
 
                 await this.TTT.connect(this.misha).sendPrize(1)
+                // Each player withdraws its own half of a draw
+                await this.TTT.connect(this.bob).sendPrize(1)
 
                 const balanceMishaAfter = await ethers.provider.getBalance(this.misha.address)
                 const balanceBobAfter = await ethers.provider.getBalance(this.bob.address)
@@ -735,6 +737,8 @@ describe("TicTacToe contract", function () {
                 expect(game.winner).to.equal(3)
 
                 await this.TTT.connect(this.misha).sendPrize(1)
+                // Each player withdraws its own half of a draw
+                await this.TTT.connect(this.bob).sendPrize(1)
 
                 const balanceMishaAfter = await this.token1.balanceOf(this.misha.address)
                 const balanceBobAfter = await this.token1.balanceOf(this.bob.address)
@@ -889,7 +893,414 @@ describe("TicTacToe contract", function () {
         })
     })
 
-    describe.only("admin methods", function () {
+    describe("Prizes", function () {
+        const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+        const stake = ethers.utils.parseEther("2")
+        const amountPerUser = stake.sub(fee.mul(stake).div(plainDec18))
+
+        // Misha creates the game and Bob joins it
+        async function startGame(thisObject: Mocha.Context, tokenAddress = ethers.constants.AddressZero) {
+            const value = tokenAddress === ethers.constants.AddressZero ? stake : 0
+            const tx = await thisObject.TTT.connect(thisObject.misha).newMyGame(stake, tokenAddress, 6, { value })
+            const rc = await tx.wait()
+            const event = rc.events.find((e: any) => e.event === "GameCreated")
+            await thisObject.TTT.connect(thisObject.bob).join(event.args.gameId, { value })
+        }
+
+        // The first player wins in the first column
+        async function winAsP1(thisObject: Mocha.Context, id: number) {
+            await thisObject.TTT.connect(thisObject.misha).move(id, 0, 0)
+            await thisObject.TTT.connect(thisObject.bob).move(id, 0, 1)
+            await thisObject.TTT.connect(thisObject.misha).move(id, 1, 0)
+            await thisObject.TTT.connect(thisObject.bob).move(id, 1, 1)
+            await thisObject.TTT.connect(thisObject.misha).move(id, 2, 0)
+        }
+
+        beforeEach(async function () {
+            await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+        })
+
+        it("should not pay the prize twice from the funds of other games", async function () {
+            await startGame(this)
+            await startGame(this)
+            await winAsP1(this, 1)
+            expect(await ethers.provider.getBalance(this.TTT.address)).to.equal(amountPerUser.mul(4))
+
+            await expect(() => this.TTT.connect(this.misha).sendPrize(1)).to.changeEtherBalance(
+                this.misha,
+                amountPerUser.mul(2)
+            )
+            await expect(this.TTT.connect(this.misha).sendPrize(1)).to.be.revertedWith(
+                "TicTacToe: the prize has already been claimed"
+            )
+            await expect(this.TTT.connect(this.bob).sendPrize(1)).to.be.revertedWith(
+                "TicTacToe: there is no prize for you"
+            )
+
+            // The stakes of the second game stay in the contract
+            expect(await ethers.provider.getBalance(this.TTT.address)).to.equal(amountPerUser.mul(2))
+            expect(await this.TTT.isPrizeClaimed(1, this.misha.address)).to.be.true
+            expect(await this.TTT.isPrizeClaimed(1, this.bob.address)).to.be.false
+        })
+
+        it("should claim prizes and withdraw them later", async function () {
+            await startGame(this)
+            await startGame(this)
+            await winAsP1(this, 1)
+            await winAsP1(this, 2)
+
+            await expect(this.TTT.connect(this.misha).claimPrize(1))
+                .to.emit(this.TTT, "PrizeClaimed")
+                .withArgs(1, this.misha.address, ethers.constants.AddressZero, amountPerUser.mul(2))
+            await this.TTT.connect(this.misha).claimPrize(2)
+            await expect(this.TTT.connect(this.misha).claimPrize(2)).to.be.revertedWith(
+                "TicTacToe: the prize has already been claimed"
+            )
+            expect(await this.TTT.withdrawableOf(this.misha.address, ethers.constants.AddressZero)).to.equal(
+                amountPerUser.mul(4)
+            )
+
+            const tx = await this.TTT.connect(this.misha).withdraw(ethers.constants.AddressZero)
+            await expect(tx)
+                .to.emit(this.TTT, "Withdrawn")
+                .withArgs(this.misha.address, ethers.constants.AddressZero, amountPerUser.mul(4))
+            await expect(tx).to.changeEtherBalance(this.misha, amountPerUser.mul(4))
+            await expect(this.TTT.connect(this.misha).withdraw(ethers.constants.AddressZero)).to.be.revertedWith(
+                "TicTacToe: there is nothing to withdraw"
+            )
+            expect(await ethers.provider.getBalance(this.TTT.address)).to.equal(0)
+        })
+
+        it("should let each player claim its own half of a draw", async function () {
+            await startGame(this)
+            const moves = [
+                [0, 0],
+                [1, 0],
+                [2, 0],
+                [1, 1],
+                [1, 2],
+                [0, 2],
+                [0, 1],
+                [2, 2],
+                [2, 1],
+            ]
+            for (let i = 0; i < moves.length; i++) {
+                await this.TTT.connect(i % 2 ? this.bob : this.misha).move(1, moves[i][0], moves[i][1])
+            }
+
+            await expect(() => this.TTT.connect(this.misha).sendPrize(1)).to.changeEtherBalances(
+                [this.misha, this.bob],
+                [amountPerUser, 0]
+            )
+            await expect(() => this.TTT.connect(this.bob).sendPrize(1)).to.changeEtherBalances(
+                [this.misha, this.bob],
+                [0, amountPerUser]
+            )
+            await expect(this.TTT.connect(this.bob).sendPrize(1)).to.be.revertedWith(
+                "TicTacToe: the prize has already been claimed"
+            )
+        })
+
+        it("should fail on tokens which return false instead of reverting", async function () {
+            const tokenFactory = await ethers.getContractFactory("ERC20ReturnFalseMock")
+            const token = await tokenFactory.deploy("False", "FLS", stake.mul(10))
+            await token.transfer(this.misha.address, stake)
+            await token.transfer(this.bob.address, stake.mul(2))
+            await token.connect(this.misha).approve(this.TTT.address, stake)
+            await token.connect(this.bob).approve(this.TTT.address, stake.mul(2))
+
+            await startGame(this, token.address)
+            await winAsP1(this, 1)
+
+            await token.setFailing(true)
+            await expect(this.TTT.connect(this.bob).newMyGame(stake, token.address, 6)).to.be.revertedWith(
+                "SafeERC20: ERC20 operation did not succeed"
+            )
+            await expect(this.TTT.connect(this.misha).sendPrize(1)).to.be.revertedWith(
+                "SafeERC20: ERC20 operation did not succeed"
+            )
+            expect(await this.TTT.isPrizeClaimed(1, this.misha.address)).to.be.false
+
+            await token.setFailing(false)
+            await this.TTT.connect(this.misha).sendPrize(1)
+            expect(await token.balanceOf(this.misha.address)).to.equal(amountPerUser.mul(2))
+        })
+    })
+
+    describe("Cancelling", function () {
+        const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+
+        beforeEach(async function () {
+            await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+        })
+
+        describe("stake as ETH", function () {
+            const stake = ethers.utils.parseEther("2")
+            const feePerStake = fee.mul(stake).div(plainDec18)
+
+            it("should refund the stake without the fee to the creator", async function () {
+                await this.TTT.connect(this.misha).newMyGame(stake, ethers.constants.AddressZero, 0, { value: stake })
+
+                const tx = await this.TTT.connect(this.misha).cancel(1)
+                await expect(tx)
+                    .to.emit(this.TTT, "GameCancelled")
+                    .withArgs(1, this.misha.address, stake.sub(feePerStake))
+                await expect(tx).to.changeEtherBalance(this.misha, stake.sub(feePerStake))
+                expect(await ethers.provider.getBalance(this.TTT.address)).to.equal(0)
+
+                const game = await this.TTT.gameById(1)
+                expect(game.phase).to.equal(3)
+                expect(game.winner).to.equal(0)
+                expect(game.amount).to.equal(0)
+                expect((await this.TTT.statsBy(this.misha.address)).gameNum).to.equal(0)
+
+                await expect(this.TTT.connect(this.misha).cancel(1)).to.be.revertedWith(
+                    "TicTacToe: game is not in the join phase"
+                )
+                await expect(this.TTT.connect(this.misha).sendPrize(1)).to.be.revertedWith(
+                    "TicTacToe: there is no prize for you"
+                )
+                await expect(this.TTT.connect(this.bob).join(1, { value: stake })).to.be.revertedWith(
+                    "TicTacToe: game is full"
+                )
+            })
+
+            it("should refund the full stake if the fee is refundable", async function () {
+                await expect(this.TTT.changeFeeRefund(true)).to.emit(this.TTT, "FeeRefundChanged").withArgs(true)
+                await expect(this.TTT.connect(this.misha).changeFeeRefund(false)).to.be.revertedWith(
+                    "Ownable: caller is not the owner"
+                )
+
+                await this.TTT.connect(this.misha).newMyGame(stake, ethers.constants.AddressZero, 0, { value: stake })
+                expect(await ethers.provider.getBalance(this.MSW.address)).to.equal(0)
+                await expect(() => this.TTT.connect(this.misha).cancel(1)).to.changeEtherBalance(this.misha, stake)
+
+                // The held fee is paid when the second player joins
+                await this.TTT.connect(this.misha).newMyGame(stake, ethers.constants.AddressZero, 0, { value: stake })
+                await this.TTT.connect(this.bob).join(2, { value: stake })
+                expect(await ethers.provider.getBalance(this.MSW.address)).to.equal(feePerStake.mul(2))
+                await expect(this.TTT.connect(this.misha).cancel(2)).to.be.revertedWith(
+                    "TicTacToe: game is not in the join phase"
+                )
+            })
+
+            it("should let anyone cancel the game after the join deadline", async function () {
+                await this.TTT.connect(this.misha).newMyGame(stake, ethers.constants.AddressZero, 0, { value: stake })
+                const deadline = (await latest()).add(duration.hours("1"))
+
+                await expect(this.TTT.connect(this.bob).setJoinDeadline(1, deadline)).to.be.revertedWith(
+                    "TicTacToe: only the first player can set the join deadline"
+                )
+                await expect(this.TTT.connect(this.misha).setJoinDeadline(1, 1)).to.be.revertedWith(
+                    "TicTacToe: the join deadline is in the past"
+                )
+                await expect(this.TTT.connect(this.misha).setJoinDeadline(1, deadline))
+                    .to.emit(this.TTT, "JoinDeadlineSet")
+                    .withArgs(1, deadline)
+                expect(await this.TTT.joinDeadlineOf(1)).to.equal(deadline)
+
+                await expect(this.TTT.connect(this.bob).cancel(1)).to.be.revertedWith(
+                    "TicTacToe: only the first player can cancel the game before the join deadline"
+                )
+
+                await increase(duration.hours("2"))
+                await expect(this.TTT.connect(this.bob).join(1, { value: stake })).to.be.revertedWith(
+                    "TicTacToe: the join deadline has passed"
+                )
+                await expect(() => this.TTT.connect(this.bob).cancel(1)).to.changeEtherBalance(
+                    this.misha,
+                    stake.sub(feePerStake)
+                )
+            })
+
+            it("should fail cancelling a started game or a game without stakes", async function () {
+                await this.TTT.connect(this.misha).newGame(stake, ethers.constants.AddressZero, 0)
+                await expect(this.TTT.connect(this.misha).cancel(1)).to.be.revertedWith(
+                    "TicTacToe: there is no stake to refund"
+                )
+                await expect(this.TTT.connect(this.misha).cancel(2)).to.be.revertedWith(
+                    "TicTacToe: game does not exists"
+                )
+
+                await this.TTT.connect(this.misha).join(1, { value: stake })
+                await this.TTT.connect(this.bob).join(1, { value: stake })
+                await expect(this.TTT.connect(this.misha).cancel(1)).to.be.revertedWith(
+                    "TicTacToe: game is not in the join phase"
+                )
+                await expect(this.TTT.connect(this.misha).setJoinDeadline(1, 0)).to.be.revertedWith(
+                    "TicTacToe: game is not in the join phase"
+                )
+            })
+        })
+
+        describe("stake as ERC20 token", function () {
+            const stake = ethers.utils.parseUnits("10", 6)
+            const feePerStake = fee.mul(stake).div(plainDec18)
+
+            beforeEach(async function () {
+                await this.token1.transfer(this.misha.address, stake.mul(2))
+                await this.token1.connect(this.misha).approve(this.TTT.address, stake.mul(2))
+            })
+
+            it("should refund the stake without the fee to the first player", async function () {
+                await this.TTT.connect(this.bob).newGame(stake, this.token1.address, 6)
+                await this.TTT.connect(this.misha).join(1)
+
+                await expect(() => this.TTT.connect(this.misha).cancel(1)).to.changeTokenBalance(
+                    this.token1,
+                    this.misha,
+                    stake.sub(feePerStake)
+                )
+                expect(await this.token1.balanceOf(this.TTT.address)).to.equal(0)
+                expect(await this.token1.balanceOf(this.MSW.address)).to.equal(feePerStake)
+            })
+
+            it("should refund the full stake if the fee is refundable", async function () {
+                await this.TTT.changeFeeRefund(true)
+                await this.TTT.connect(this.misha).newMyGame(stake, this.token1.address, 6)
+                expect(await this.token1.balanceOf(this.TTT.address)).to.equal(stake)
+
+                await expect(this.TTT.connect(this.misha).cancel(1))
+                    .to.emit(this.TTT, "GameCancelled")
+                    .withArgs(1, this.misha.address, stake)
+                expect(await this.token1.balanceOf(this.misha.address)).to.equal(stake.mul(2))
+                expect(await this.token1.balanceOf(this.MSW.address)).to.equal(0)
+            })
+        })
+    })
+
+    describe("Challenges", function () {
+        const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+        const stake = ethers.utils.parseEther("2")
+        const tokenAddress = ethers.constants.AddressZero
+
+        const types = {
+            Invite: [
+                { name: "gameId", type: "uint256" },
+                { name: "player", type: "address" },
+                { name: "deadline", type: "uint256" },
+            ],
+        }
+
+        let domain: TypedDataDomain
+
+        beforeEach(async function () {
+            await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+            const { chainId } = await ethers.provider.getNetwork()
+            domain = {
+                name: "TicTacToe",
+                version: "1",
+                chainId: chainId,
+                verifyingContract: this.TTT.address,
+            }
+        })
+
+        it("should let only the challenged player join", async function () {
+            await expect(
+                this.TTT.connect(this.misha).newChallenge(stake, tokenAddress, 0, this.bob.address, { value: stake })
+            )
+                .to.emit(this.TTT, "ChallengeCreated")
+                .withArgs(1, this.misha.address, this.bob.address)
+            expect(await this.TTT.challengedPlayerOf(1)).to.equal(this.bob.address)
+            expect(await this.TTT.isInviteOnly(1)).to.be.false
+
+            await expect(this.TTT.connect(this.carol).join(1, { value: stake })).to.be.revertedWith(
+                "TicTacToe: you are not the challenged player"
+            )
+            await expect(this.TTT.connect(this.bob).join(1, { value: stake }))
+                .to.emit(this.TTT, "PlayerJoinedGame")
+                .withArgs(1, this.bob.address, 2)
+
+            const game = await this.TTT.gameById(1)
+            expect(game.p1).to.equal(this.misha.address)
+            expect(game.p2).to.equal(this.bob.address)
+            expect(game.phase).to.equal(1)
+        })
+
+        it("should fail challenging nobody or yourself", async function () {
+            await expect(
+                this.TTT.connect(this.misha).newChallenge(stake, tokenAddress, 0, tokenAddress, { value: stake })
+            ).to.be.revertedWith("TicTacToe: Invalid opponent address")
+            await expect(
+                this.TTT.connect(this.misha).newChallenge(stake, tokenAddress, 0, this.misha.address, { value: stake })
+            ).to.be.revertedWith("TicTacToe: you cannot challenge yourself")
+            await expect(
+                this.TTT.connect(this.misha).newChallenge(stake, tokenAddress, 0, this.bob.address)
+            ).to.be.revertedWith("TicTacToe: Invalid ETH for stake")
+        })
+
+        it("should join the invite-only game with an invite of the creator", async function () {
+            await expect(this.TTT.connect(this.misha).newInviteGame(stake, tokenAddress, 0, { value: stake }))
+                .to.emit(this.TTT, "InviteOnlyGameCreated")
+                .withArgs(1, this.misha.address)
+            expect(await this.TTT.isInviteOnly(1)).to.be.true
+            expect(await this.TTT.challengedPlayerOf(1)).to.equal(tokenAddress)
+
+            const deadline = (await latest()).add(duration.hours("1"))
+            const signature = await this.misha._signTypedData(domain, types, {
+                gameId: 1,
+                player: this.bob.address,
+                deadline,
+            })
+
+            await expect(this.TTT.connect(this.bob).join(1, { value: stake })).to.be.revertedWith(
+                "TicTacToe: the game requires an invite"
+            )
+            await expect(
+                this.TTT.connect(this.carol).joinWithInvite(1, deadline, signature, { value: stake })
+            ).to.be.revertedWith("TicTacToe: invalid invite signer (non-creator)")
+            await expect(() =>
+                this.TTT.connect(this.bob).joinWithInvite(1, deadline, signature, { value: stake })
+            ).to.changeEtherBalance(this.bob, stake.mul(-1))
+
+            const game = await this.TTT.gameById(1)
+            expect(game.p2).to.equal(this.bob.address)
+            expect(game.phase).to.equal(1)
+            await expect(
+                this.TTT.connect(this.bob).joinWithInvite(1, deadline, signature, { value: stake })
+            ).to.be.revertedWith("TicTacToe: game is full")
+        })
+
+        it("should fail joining with an expired invite or an invite of another player", async function () {
+            await this.TTT.connect(this.misha).newInviteGame(stake, tokenAddress, 0, { value: stake })
+            await this.TTT.connect(this.carol).newGame(stake, tokenAddress, 0)
+
+            const deadline = (await latest()).add(duration.hours("1"))
+            const bySomeone = await this.carol._signTypedData(domain, types, {
+                gameId: 1,
+                player: this.bob.address,
+                deadline,
+            })
+            await expect(
+                this.TTT.connect(this.bob).joinWithInvite(1, deadline, bySomeone, { value: stake })
+            ).to.be.revertedWith("TicTacToe: invalid invite signer (non-creator)")
+
+            // An invite to the game without the first player cannot be signed by anyone
+            const toEmptyGame = await this.carol._signTypedData(domain, types, {
+                gameId: 2,
+                player: this.bob.address,
+                deadline,
+            })
+            await expect(
+                this.TTT.connect(this.bob).joinWithInvite(2, deadline, toEmptyGame, { value: stake })
+            ).to.be.revertedWith("TicTacToe: invalid invite signer (non-creator)")
+
+            const signature = await this.misha._signTypedData(domain, types, {
+                gameId: 1,
+                player: this.bob.address,
+                deadline,
+            })
+            await increase(duration.hours("2"))
+            await expect(
+                this.TTT.connect(this.bob).joinWithInvite(1, deadline, signature, { value: stake })
+            ).to.be.revertedWith("TicTacToe: the invite has expired")
+            await expect(
+                this.TTT.connect(this.bob).joinWithInvite(3, deadline, signature, { value: stake })
+            ).to.be.revertedWith("TicTacToe: game does not exists")
+        })
+    })
+
+    describe("admin methods", function () {
         const fee = ethers.utils.parseUnits("1", 16) // 1% fee
 
         let domain: TypedDataDomain
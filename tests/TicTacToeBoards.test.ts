@@ -0,0 +1,217 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
+import { expect, use } from "chai"
+import { ethers, waffle } from "hardhat"
+import { fetchBoard, Players, renderBoard } from "../lib/game"
+import { revert, snapshot } from "./utils/network"
+import { prepareMultiSigWallet, prepareSigners, prepareTicTacToe, upgradeTicTacToe } from "./utils/prepare"
+import { expectRejection } from "./utils/tasks"
+
+use(waffle.solidity)
+
+describe("TicTacToe boards", function () {
+    const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+    const stake = ethers.utils.parseEther("1")
+    const tokenAddress = ethers.constants.AddressZero
+
+    let snapshotId: string
+
+    /**
+     * Create a game with the board between misha (X) and bob (O)
+     */
+    async function startGame(thisObject: Mocha.Context, size: number, winLength: number) {
+        await thisObject.TTT.connect(thisObject.misha).newMyGameWithBoard(stake, tokenAddress, 0, size, winLength, {
+            value: stake,
+        })
+        const id = (await thisObject.TTT.statsBy(thisObject.misha.address)).gameNum.toNumber()
+        await thisObject.TTT.connect(thisObject.bob).join(id, { value: stake })
+        return id
+    }
+
+    async function play(thisObject: Mocha.Context, id: number, moves: number[][]) {
+        for (let i = 0; i < moves.length; i++) {
+            const player: SignerWithAddress = i % 2 ? thisObject.bob : thisObject.misha
+            await thisObject.TTT.connect(player).move(id, moves[i][0], moves[i][1])
+        }
+    }
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareMultiSigWallet(this, this.owner)
+        await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+        await upgradeTicTacToe(this)
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+    })
+
+    it("should create games with the board", async function () {
+        await expect(this.TTT.connect(this.carol).newGameWithBoard(stake, tokenAddress, 0, 15, 5))
+            .to.emit(this.TTT, "BoardConfigured")
+            .withArgs(1, 15, 5)
+        await this.TTT.connect(this.misha).join(1, { value: stake })
+        await this.TTT.connect(this.bob).join(1, { value: stake })
+
+        const [size, winLength, board] = await this.TTT.boardOf(1)
+        expect(size).to.equal(15)
+        expect(winLength).to.equal(5)
+        expect(board.length).to.equal(225)
+        expect((await this.TTT.gameById(1)).phase).to.equal(1)
+
+        // 3x3 games keep the board in the game
+        await this.TTT.connect(this.misha).newMyGameWithBoard(stake, tokenAddress, 0, 3, 3, { value: stake })
+        await this.TTT.connect(this.bob).join(2, { value: stake })
+        await this.TTT.connect(this.misha).move(2, 1, 2)
+        expect((await this.TTT.gameById(2)).board[1][2]).to.equal(1)
+        expect((await this.TTT.boardOf(2))[2][5]).to.equal(1)
+    })
+
+    it("should fail creating games with invalid boards", async function () {
+        for (const [size, winLength, reason] of [
+            [2, 2, "TicTacToe: Invalid board size"],
+            [16, 5, "TicTacToe: Invalid board size"],
+            [5, 2, "TicTacToe: Invalid win length"],
+            [5, 6, "TicTacToe: Invalid win length"],
+        ] as [number, number, string][]) {
+            await expect(this.TTT.newGameWithBoard(stake, tokenAddress, 0, size, winLength)).to.be.revertedWith(reason)
+        }
+        await expect(this.TTT.boardOf(1)).to.be.revertedWith("TicTacToe: game does not exists")
+    })
+
+    it("should win with k in a row in every direction", async function () {
+        const lines = [
+            // Horizontal, the last mark is in the middle of the row
+            [
+                [10, 7],
+                [0, 0],
+                [11, 7],
+                [0, 1],
+                [13, 7],
+                [0, 2],
+                [14, 7],
+                [0, 3],
+                [12, 7],
+            ],
+            // Vertical at the edge of the board
+            [
+                [14, 10],
+                [0, 0],
+                [14, 11],
+                [0, 1],
+                [14, 12],
+                [0, 2],
+                [14, 13],
+                [0, 3],
+                [14, 14],
+            ],
+            // Diagonal
+            [
+                [2, 2],
+                [0, 1],
+                [3, 3],
+                [0, 2],
+                [4, 4],
+                [0, 3],
+                [5, 5],
+                [0, 4],
+                [6, 6],
+            ],
+            // Anti-diagonal
+            [
+                [4, 0],
+                [9, 9],
+                [3, 1],
+                [9, 10],
+                [2, 2],
+                [9, 11],
+                [1, 3],
+                [9, 12],
+                [0, 4],
+            ],
+        ]
+
+        for (const moves of lines) {
+            const id = await startGame(this, 15, 5)
+            await play(this, id, moves.slice(0, -1))
+            expect((await this.TTT.gameById(id)).phase).to.equal(1)
+
+            const [x, y] = moves[moves.length - 1]
+            await expect(this.TTT.connect(this.misha).move(id, x, y)).to.emit(this.TTT, "GameOver").withArgs(id, 1)
+            expect((await this.TTT.gameById(id)).winner).to.equal(1)
+        }
+        expect((await this.TTT.statsBy(this.misha.address)).winNum).to.equal(lines.length)
+    })
+
+    it("should not win with a row shorter than the win length or broken by the opponent", async function () {
+        const id = await startGame(this, 5, 4)
+        await play(this, id, [
+            [0, 0],
+            [3, 0],
+            [1, 0],
+            [4, 4],
+            [2, 0],
+            [0, 4],
+            [4, 0],
+        ])
+
+        const game = await this.TTT.gameById(id)
+        expect(game.phase).to.equal(2)
+        expect(game.turnNum).to.equal(7)
+        await expect(this.TTT.connect(this.bob).move(id, 5, 0)).to.be.revertedWith(
+            "TicTacToe: coordinates off the board"
+        )
+        await expect(this.TTT.connect(this.bob).move(id, 3, 0)).to.be.revertedWith(
+            "TicTacToe: cell on the board is already taken"
+        )
+    })
+
+    it("should draw when the board is full", async function () {
+        const id = await startGame(this, 4, 4)
+        // Columns of X X O O and O O X X, so there are no four in a row
+        const marks = ["XXOO", "OOXX", "XXOO", "OOXX"]
+        const xs: number[][] = []
+        const os: number[][] = []
+        marks.forEach((column, x) => {
+            column.split("").forEach((mark, y) => (mark === "X" ? xs : os).push([x, y]))
+        })
+        const moves = xs.flatMap((cell, i) => [cell, os[i]])
+
+        await play(this, id, moves.slice(0, -1))
+        const [x, y] = moves[moves.length - 1]
+        await expect(this.TTT.connect(this.bob).move(id, x, y)).to.emit(this.TTT, "GameOver").withArgs(id, 3)
+
+        expect((await this.TTT.statsBy(this.misha.address)).drawNum).to.equal(1)
+        expect((await this.TTT.statsBy(this.bob.address)).drawNum).to.equal(1)
+        expect(await this.TTT.connect(this.misha).callStatic.claimPrize(id)).to.equal(
+            (await this.TTT.gameById(id)).amount.div(2)
+        )
+    })
+
+    it("should fetch the board and fail when the node is not reachable", async function () {
+        const id = await startGame(this, 4, 3)
+        await play(this, id, [[3, 0]])
+
+        const board = await fetchBoard(this.TTT, id)
+        expect(board?.size).to.equal(4)
+        expect(board?.board[3][0]).to.equal(Players.P1)
+
+        // Only reverts mean a contract without boards, other errors are not hidden
+        const provider = new ethers.providers.StaticJsonRpcProvider("http://127.0.0.1:1", 31337)
+        await expectRejection(fetchBoard(this.TTT.connect(provider), id), "missing response")
+    })
+
+    it("should align the columns of boards wider than 10 cells", function () {
+        const board = Array.from({ length: 11 }, () => Array(11).fill(Players.None))
+        board[10][0] = Players.P1
+        board[10][10] = Players.P2
+
+        const [header, ...lines] = renderBoard(board).split("\n")
+        const rows = lines.filter((_, i) => i % 2 === 0)
+        expect(header).to.match(/^y\\x {4}0 {4}1 .* 9 {3}10$/)
+        expect(rows[0]).to.match(/^ 0 {7}\| .* \| {2}X$/)
+        expect(rows[10]).to.match(/^10 {7}\| .* \| {2}O$/)
+        rows.forEach((row) => expect(row.length).to.equal(header.length))
+    })
+})
@@ -0,0 +1,202 @@
+import { expect, use } from "chai"
+import hre, { ethers, waffle } from "hardhat"
+import { chooseMove, Difficulty, TicTacToeBot } from "../lib/bot"
+import { Players } from "../lib/game"
+import { Board, calculateWinner, emptyBoard, placeMark } from "../lib/rules"
+import { revert, snapshot } from "./utils/network"
+import { prepareMultiSigWallet, prepareSigners, prepareTicTacToe } from "./utils/prepare"
+import { seededRandom } from "./utils/random"
+import { duration, increase } from "./utils/time"
+
+use(waffle.solidity)
+
+function playOffChain(p1: Difficulty, p2: Difficulty, random: () => number): Players {
+    let board: Board = emptyBoard()
+    let player = Players.P1
+    while (calculateWinner(board) === Players.None) {
+        const cell = chooseMove(board, player, player === Players.P1 ? p1 : p2, random)
+        board = placeMark(board, cell, player)
+        player = player === Players.P1 ? Players.P2 : Players.P1
+    }
+    return calculateWinner(board)
+}
+
+describe("TicTacToe bot", function () {
+    const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+    const plainDec18 = ethers.utils.parseUnits("1", 18)
+    const stake = ethers.utils.parseEther("1")
+    const amountPerUser = stake.sub(fee.mul(stake).div(plainDec18))
+    const tokenAddress = ethers.constants.AddressZero
+
+    describe("Moves", function () {
+        const X = Players.P1
+        const O = Players.P2
+        const _ = Players.None
+
+        it("should calculate winner like the contract", async function () {
+            expect(calculateWinner(emptyBoard())).to.equal(Players.None)
+            expect(
+                calculateWinner([
+                    [X, O, _],
+                    [X, O, _],
+                    [X, _, _],
+                ])
+            ).to.equal(Players.P1)
+            expect(
+                calculateWinner([
+                    [X, X, O],
+                    [_, O, _],
+                    [O, _, X],
+                ])
+            ).to.equal(Players.P2)
+            expect(
+                calculateWinner([
+                    [X, O, X],
+                    [X, O, O],
+                    [O, X, X],
+                ])
+            ).to.equal(Players.Both)
+        })
+
+        it("should take the win and block the opponent when greedy", async function () {
+            const board = [
+                [X, O, _],
+                [X, O, _],
+                [_, _, _],
+            ]
+            expect(chooseMove(board, Players.P1, "greedy")).to.deep.equal({ x: 2, y: 0 })
+            expect(chooseMove(board, Players.P2, "greedy")).to.deep.equal({ x: 2, y: 1 })
+        })
+
+        it("should never lose when perfect", async function () {
+            const random = seededRandom(42)
+            for (let i = 0; i < 20; i++) {
+                expect(playOffChain("perfect", "random", random)).to.not.equal(Players.P2)
+                expect(playOffChain("random", "perfect", random)).to.not.equal(Players.P1)
+                expect(playOffChain("greedy", "perfect", random)).to.not.equal(Players.P1)
+            }
+            expect(playOffChain("perfect", "perfect", random)).to.equal(Players.Both)
+        })
+    })
+
+    describe("Playing on-chain", function () {
+        let snapshotId: string
+
+        function createBot(thisObject: Mocha.Context, signerIndex: number, difficulty: Difficulty, maxStake = "1") {
+            const signer = thisObject.signers[signerIndex]
+            return new TicTacToeBot({
+                hre,
+                contract: thisObject.TTT.connect(signer),
+                player: signer.address,
+                difficulty,
+                maxStake,
+                random: seededRandom(signerIndex),
+                log: () => undefined,
+            })
+        }
+
+        async function playUntilFinished(thisObject: Mocha.Context, bots: TicTacToeBot[], id: number) {
+            for (let i = 0; i < 20; i++) {
+                for (const bot of bots) {
+                    await bot.tick()
+                }
+                if ((await thisObject.TTT.gameById(id)).phase === 3) {
+                    // One more round to claim prizes
+                    for (const bot of bots) {
+                        await bot.tick()
+                    }
+                    return
+                }
+            }
+            throw new Error("The game has not been finished")
+        }
+
+        beforeEach(async function () {
+            await prepareSigners(this)
+            await prepareMultiSigWallet(this, this.owner)
+            await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+
+            snapshotId = await snapshot()
+        })
+
+        afterEach(async function () {
+            await revert(snapshotId)
+        })
+
+        it("should join the game and play a draw between perfect bots", async function () {
+            const misha = createBot(this, 5, "perfect")
+            const bob = createBot(this, 2, "perfect")
+
+            await this.TTT.newGame(stake, tokenAddress, 0)
+
+            const balanceMishaBefore = await ethers.provider.getBalance(this.misha.address)
+            const balanceBobBefore = await ethers.provider.getBalance(this.bob.address)
+
+            await playUntilFinished(this, [misha, bob], 1)
+
+            const game = await this.TTT.gameById(1)
+            expect(game.p1).to.equal(this.misha.address)
+            expect(game.p2).to.equal(this.bob.address)
+            expect(game.winner).to.equal(Players.Both)
+
+            const balanceMishaAfter = await ethers.provider.getBalance(this.misha.address)
+            const balanceBobAfter = await ethers.provider.getBalance(this.bob.address)
+            expect(balanceMishaAfter.add(stake).sub(amountPerUser)).to.equal(balanceMishaBefore)
+            expect(balanceBobAfter.add(stake).sub(amountPerUser)).to.equal(balanceBobBefore)
+
+            expect((await this.TTT.statsBy(this.misha.address)).drawNum).to.equal(1)
+            expect((await this.TTT.statsBy(this.bob.address)).drawNum).to.equal(1)
+        })
+
+        it("should beat or draw the random bot and claim the prize", async function () {
+            const misha = createBot(this, 5, "perfect")
+            const bob = createBot(this, 2, "random")
+
+            for (let id = 1; id <= 3; id++) {
+                await this.TTT.connect(id % 2 ? this.bob : this.misha).newMyGame(stake, tokenAddress, 0, {
+                    value: stake,
+                })
+                await playUntilFinished(this, [misha, bob], id)
+
+                const game = await this.TTT.gameById(id)
+                const mishaSide = game.p1 === this.misha.address ? Players.P1 : Players.P2
+                expect([mishaSide, Players.Both]).to.include(game.winner)
+            }
+
+            // All the prizes have been sent
+            expect(await ethers.provider.getBalance(this.TTT.address)).to.equal(0)
+        })
+
+        it("should not join games over the stake limit", async function () {
+            const misha = createBot(this, 5, "perfect", "0.5")
+
+            await this.TTT.newGame(stake, tokenAddress, 0)
+            await misha.tick()
+
+            const game = await this.TTT.gameById(1)
+            expect(game.p1).to.equal(ethers.constants.AddressZero)
+        })
+
+        it("should finish the game when the opponent has timed out", async function () {
+            const misha = createBot(this, 5, "perfect")
+
+            await this.TTT.connect(this.bob).newMyGame(stake, tokenAddress, 0, { value: stake })
+            await misha.tick()
+            await this.TTT.connect(this.bob).move(1, 1, 1)
+            await misha.tick()
+
+            // Time jump
+            await increase(duration.days("2"))
+
+            const balanceBefore = await ethers.provider.getBalance(this.misha.address)
+            await misha.tick()
+            await misha.tick()
+
+            const game = await this.TTT.gameById(1)
+            expect(game.winner).to.equal(Players.P2)
+
+            const balanceAfter = await ethers.provider.getBalance(this.misha.address)
+            expect(balanceAfter.sub(balanceBefore)).to.equal(amountPerUser.mul(2))
+        })
+    })
+})
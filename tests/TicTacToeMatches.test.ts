@@ -0,0 +1,213 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
+import { expect, use } from "chai"
+import { ethers, waffle } from "hardhat"
+import { revert, snapshot } from "./utils/network"
+import { prepareMultiSigWallet, prepareSigners, prepareTicTacToe } from "./utils/prepare"
+import { duration, increase } from "./utils/time"
+
+use(waffle.solidity)
+
+// Moves of X and O in turn, X wins in the column x = 0
+const X_WINS = [
+    [0, 0],
+    [1, 0],
+    [0, 1],
+    [1, 1],
+    [0, 2],
+]
+// O wins in the column x = 1
+const O_WINS = [
+    [0, 0],
+    [1, 0],
+    [0, 1],
+    [1, 1],
+    [2, 2],
+    [1, 2],
+]
+const DRAW = [
+    [0, 0],
+    [1, 0],
+    [2, 0],
+    [1, 1],
+    [1, 2],
+    [0, 2],
+    [0, 1],
+    [2, 2],
+    [2, 1],
+]
+
+describe("TicTacToe matches", function () {
+    const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+    const stake = ethers.utils.parseEther("1")
+    const amount = stake.mul(2).mul(99).div(100)
+    const tokenAddress = ethers.constants.AddressZero
+
+    let snapshotId: string
+
+    /**
+     * Create a match of misha and bob, misha is the first player of the match
+     */
+    async function startMatch(thisObject: Mocha.Context, rounds: number) {
+        await thisObject.TTT.connect(thisObject.misha).newMatch(stake, tokenAddress, 0, rounds, { value: stake })
+        const id = (await thisObject.TTT.statsBy(thisObject.misha.address)).gameNum.toNumber()
+        await thisObject.TTT.connect(thisObject.bob).join(id, { value: stake })
+        return id
+    }
+
+    /**
+     * Play the current round of the match with the moves of its X and O in turn
+     */
+    async function playRound(thisObject: Mocha.Context, matchId: number, moves: number[][]) {
+        const { roundId } = await thisObject.TTT.matchById(matchId)
+        const round = await thisObject.TTT.gameById(roundId)
+        const [x, o] = [round.p1, round.p2].map((address: string) =>
+            address === thisObject.misha.address ? thisObject.misha : thisObject.bob
+        )
+
+        for (let i = 0; i < moves.length; i++) {
+            const player: SignerWithAddress = i % 2 ? o : x
+            await thisObject.TTT.connect(player).move(roundId, moves[i][0], moves[i][1])
+        }
+        return roundId.toNumber()
+    }
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareMultiSigWallet(this, this.owner)
+        await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+    })
+
+    it("should create a match and start the first round when it is joined", async function () {
+        for (const rounds of [0, 2]) {
+            await expect(
+                this.TTT.connect(this.misha).newMatch(stake, tokenAddress, 0, rounds, { value: stake })
+            ).to.be.revertedWith("TicTacToe: Invalid number of rounds")
+        }
+        await expect(this.TTT.connect(this.misha).newMatch(stake, tokenAddress, 0, 3, { value: stake }))
+            .to.emit(this.TTT, "MatchCreated")
+            .withArgs(1, this.misha.address, 3)
+        await expect(this.TTT.connect(this.bob).join(1, { value: stake }))
+            .to.emit(this.TTT, "RoundStarted")
+            .withArgs(1, 2, 1)
+
+        const match = await this.TTT.matchById(1)
+        expect(match.rounds).to.equal(3)
+        expect(match.roundNum).to.equal(1)
+        expect(match.roundId).to.equal(2)
+        expect(await this.TTT.matchOfRound(2)).to.equal(1)
+        expect(await this.TTT.matchOfRound(1)).to.equal(0)
+
+        const round = await this.TTT.gameById(2)
+        expect(round.p1).to.equal(this.misha.address)
+        expect(round.p2).to.equal(this.bob.address)
+        expect(round.phase).to.equal(1)
+        expect(round.stake).to.equal(0)
+        expect((await this.TTT.gameById(1)).amount).to.equal(amount)
+
+        await expect(this.TTT.connect(this.misha).move(1, 0, 0)).to.be.revertedWith(
+            "TicTacToe: the match is played in its rounds"
+        )
+        await expect(this.TTT.getWinner(1)).to.be.revertedWith("TicTacToe: the match is played in its rounds")
+        await expect(this.TTT.connect(this.misha).claimPrize(1)).to.be.revertedWith(
+            "TicTacToe: game is not finished yet"
+        )
+    })
+
+    it("should swap the first player each round and give the pot to the match winner", async function () {
+        const id = await startMatch(this, 3)
+
+        const first = await playRound(this, id, X_WINS)
+        const { roundId } = await this.TTT.matchById(id)
+        const second = await this.TTT.gameById(roundId)
+        expect(second.p1).to.equal(this.bob.address)
+        expect(second.p2).to.equal(this.misha.address)
+
+        // misha wins the second round as O, which wins the match before the third round
+        await playRound(this, id, O_WINS.slice(0, -1))
+        const [x, y] = O_WINS[O_WINS.length - 1]
+        await expect(this.TTT.connect(this.misha).move(roundId, x, y)).to.emit(this.TTT, "GameOver").withArgs(id, 1)
+
+        const match = await this.TTT.matchById(id)
+        expect(match.roundNum).to.equal(2)
+        expect(match.p1Wins).to.equal(2)
+        expect(match.p2Wins).to.equal(0)
+        expect((await this.TTT.gameById(id)).winner).to.equal(1)
+
+        const mishaStats = await this.TTT.statsBy(this.misha.address)
+        expect(mishaStats.gameNum).to.equal(2)
+        expect(mishaStats.winNum).to.equal(2)
+        const bobStats = await this.TTT.statsBy(this.bob.address)
+        expect(bobStats.gameNum).to.equal(2)
+        expect(bobStats.winNum).to.equal(0)
+
+        await expect(this.TTT.connect(this.misha).claimPrize(first)).to.be.revertedWith(
+            "TicTacToe: there is no prize for you"
+        )
+        await expect(this.TTT.connect(this.bob).claimPrize(id)).to.be.revertedWith(
+            "TicTacToe: there is no prize for you"
+        )
+        await expect(() => this.TTT.connect(this.misha).sendPrize(id)).to.changeEtherBalance(this.misha, amount)
+    })
+
+    it("should play all the rounds and split the pot of a drawn match", async function () {
+        const id = await startMatch(this, 3)
+
+        await playRound(this, id, X_WINS)
+        // bob is X in the second round
+        await playRound(this, id, X_WINS)
+        const last = await playRound(this, id, DRAW)
+        expect((await this.TTT.gameById(last)).winner).to.equal(3)
+
+        const match = await this.TTT.matchById(id)
+        expect(match.roundNum).to.equal(3)
+        expect(match.p1Wins).to.equal(1)
+        expect(match.p2Wins).to.equal(1)
+        expect((await this.TTT.gameById(id)).winner).to.equal(3)
+        await expect(this.TTT.connect(this.misha).move(last, 0, 0)).to.be.revertedWith(
+            "TicTacToe: game has already been finished"
+        )
+
+        for (const player of [this.misha, this.bob]) {
+            const stats = await this.TTT.statsBy(player.address)
+            expect(stats.gameNum).to.equal(3)
+            expect(stats.winNum).to.equal(1)
+            expect(stats.drawNum).to.equal(1)
+        }
+
+        await expect(() => this.TTT.connect(this.misha).sendPrize(id)).to.changeEtherBalance(this.misha, amount.div(2))
+        await expect(() => this.TTT.connect(this.bob).sendPrize(id)).to.changeEtherBalance(
+            this.bob,
+            amount.sub(amount.div(2))
+        )
+    })
+
+    it("should count a round finished on timeout in the match", async function () {
+        const id = await startMatch(this, 1)
+        const { roundId } = await this.TTT.matchById(id)
+
+        await this.TTT.connect(this.misha).move(roundId, 1, 1)
+        await increase(duration.days("1").add(1))
+        await expect(this.TTT.getWinner(roundId)).to.emit(this.TTT, "GameOver").withArgs(id, 1)
+
+        expect((await this.TTT.gameById(roundId)).winner).to.equal(1)
+        expect((await this.TTT.matchById(id)).p1Wins).to.equal(1)
+        await expect(() => this.TTT.connect(this.misha).sendPrize(id)).to.changeEtherBalance(this.misha, amount)
+    })
+
+    it("should cancel the match nobody has joined", async function () {
+        await this.TTT.connect(this.misha).newMatch(stake, tokenAddress, 0, 5, { value: stake })
+
+        await expect(() => this.TTT.connect(this.misha).cancel(1)).to.changeEtherBalance(
+            this.misha,
+            stake.mul(99).div(100)
+        )
+        expect((await this.TTT.statsBy(this.misha.address)).gameNum).to.equal(0)
+        await expect(this.TTT.connect(this.bob).join(1, { value: stake })).to.be.revertedWith("TicTacToe: game is full")
+    })
+})
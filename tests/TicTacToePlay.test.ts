@@ -0,0 +1,121 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
+import { expect, use } from "chai"
+import { Contract } from "ethers"
+import { ethers, waffle } from "hardhat"
+import { PassThrough } from "stream"
+import { formatCountdown, parseCell, playGame } from "../lib/play"
+import { revert, snapshot } from "./utils/network"
+import { prepareMultiSigWallet, prepareSigners, prepareTicTacToe } from "./utils/prepare"
+import { duration, increase } from "./utils/time"
+
+use(waffle.solidity)
+
+describe("TicTacToe play mode", function () {
+    const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+    const stake = ethers.utils.parseEther("2")
+    const tokenAddress = ethers.constants.AddressZero
+
+    let snapshotId: string
+
+    async function play(contract: Contract, player: SignerWithAddress, answers: string[]) {
+        const input = new PassThrough()
+        const output = new PassThrough()
+        let text = ""
+        output.on("data", (chunk) => (text += chunk.toString()))
+
+        input.write(answers.map((answer) => `${answer}\n`).join(""))
+        const game = await playGame({
+            contract: contract.connect(player),
+            id: 1,
+            player: player.address,
+            input,
+            output,
+            interval: 10,
+        })
+
+        return { game, text }
+    }
+
+    async function opponent(contract: Contract, player: SignerWithAddress, phase: number, cells: number[][]) {
+        for (const [x, y] of cells) {
+            while ((await contract.gameById(1)).phase !== phase) {
+                await new Promise((resolve) => setTimeout(resolve, 10))
+            }
+            await contract.connect(player).move(1, x, y)
+        }
+    }
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareMultiSigWallet(this, this.owner)
+        await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+
+        await this.TTT.connect(this.misha).newMyGame(stake, tokenAddress, 0, { value: stake })
+        await this.TTT.connect(this.bob).join(1, { value: stake })
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+    })
+
+    it("should parse cells and format countdown", async function () {
+        expect(parseCell("1 2")).to.deep.equal({ x: 1, y: 2 })
+        expect(parseCell(" 0,1 ")).to.deep.equal({ x: 0, y: 1 })
+        expect(parseCell("3 0")).to.be.undefined
+        expect(parseCell("a b")).to.be.undefined
+
+        expect(formatCountdown(duration.days("1").toNumber())).to.equal("24:00:00")
+        expect(formatCountdown(61)).to.equal("00:01:01")
+        expect(formatCountdown(-5)).to.equal("00:00:00")
+    })
+
+    it("should play the whole game and send the prize", async function () {
+        const balanceBefore = await ethers.provider.getBalance(this.misha.address)
+
+        const [{ game, text }] = await Promise.all([
+            play(this.TTT, this.misha, ["0 0", "1 0", "2 0", "y"]),
+            opponent(this.TTT, this.bob, 2, [
+                [0, 1],
+                [1, 1],
+            ]),
+        ])
+
+        expect(game.phase).to.equal("Finished")
+        expect(game.winner).to.equal("P1")
+        expect(text).to.include(`${this.bob.address} moved to x=1, y=1`)
+        expect(text).to.include("The prize has been sent")
+
+        const balanceAfter = await ethers.provider.getBalance(this.misha.address)
+        expect(balanceAfter.gt(balanceBefore)).to.be.true
+    })
+
+    it("should ask again for invalid and taken cells", async function () {
+        const [{ text }] = await Promise.all([
+            play(this.TTT, this.misha, ["9 9", "0 0", "0 1", "1 1", "2 2", "n"]),
+            opponent(this.TTT, this.bob, 2, [
+                [0, 1],
+                [2, 1],
+            ]),
+        ])
+
+        expect(text).to.include('Type two coordinates from 0 to 2, e.g. "1 2"')
+        expect(text).to.include("TicTacToe: cell on the board is already taken")
+        expect(text).to.include("Game over, winner: P1")
+        expect(text).to.not.include("The prize has been sent")
+    })
+
+    it("should finish the game when the opponent has timed out", async function () {
+        await this.TTT.connect(this.misha).move(1, 1, 1)
+
+        // Time jump
+        await increase(duration.days("2"))
+
+        const { game, text } = await play(this.TTT, this.misha, ["y", "y"])
+
+        expect(text).to.include("The opponent has timed out")
+        expect(game.winner).to.equal("P1")
+        expect(text).to.include("The prize has been sent")
+    })
+})
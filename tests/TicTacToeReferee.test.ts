@@ -0,0 +1,656 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
+import { expect, use } from "chai"
+import { BigNumber, ContractTransaction, PayableOverrides } from "ethers"
+import { ethers, waffle } from "hardhat"
+import { GameStruct, Phase, Players } from "../lib/game"
+import { SignedInvite, signInvite } from "../lib/invite"
+import { revertReason } from "../lib/play"
+import { prizeSplit, RefereeCall, TicTacToeReferee } from "../lib/referee"
+import { emptyCells } from "../lib/rules"
+import { revert, snapshot } from "./utils/network"
+import { prepareERC20Tokens, prepareMultiSigWallet, prepareSigners, prepareTicTacToe } from "./utils/prepare"
+import { seededRandom } from "./utils/random"
+import { latest } from "./utils/time"
+
+use(waffle.solidity)
+
+// A smoke run by default, see README for running thousands of games
+const GAMES = Number(process.env.REFEREE_GAMES ?? 20)
+const SEED = Number(process.env.REFEREE_SEED ?? 1)
+
+function normalizeGame(game: GameStruct) {
+    return {
+        p1: game.p1,
+        p2: game.p2,
+        createdAt: BigNumber.from(game.createdAt).toNumber(),
+        turnAt: BigNumber.from(game.turnAt).toNumber(),
+        phase: game.phase,
+        winner: game.winner,
+        board: game.board.map((column) => column.slice()),
+        turnNum: BigNumber.from(game.turnNum).toNumber(),
+        tokenAddress: game.tokenAddress,
+        tokenDecimals: BigNumber.from(game.tokenDecimals).toNumber(),
+        amount: BigNumber.from(game.amount).toString(),
+        stake: BigNumber.from(game.stake).toString(),
+    }
+}
+
+describe("TicTacToe referee", function () {
+    const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+    const tokenDecimals = 6
+    const ethAddress = ethers.constants.AddressZero
+
+    let snapshotId: string
+    let referee: TicTacToeReferee
+    let clock: number
+    let players: SignerWithAddress[]
+
+    /**
+     * Apply the call to the referee and send it to the contract in a block with the next timestamp,
+     * then check both have failed with the same reason or have succeeded
+     * @return Whether the call has succeeded
+     */
+    async function act(
+        context: string,
+        sender: SignerWithAddress,
+        value: BigNumber,
+        applyCall: (call: RefereeCall) => void,
+        sendCall: (overrides: PayableOverrides) => Promise<ContractTransaction>,
+        step = 1
+    ): Promise<boolean> {
+        clock += step
+        await ethers.provider.send("evm_setNextBlockTimestamp", [clock])
+
+        let expected: string | undefined
+        try {
+            applyCall({ sender: sender.address, now: clock, value })
+        } catch (e) {
+            expected = (e as Error).message
+        }
+
+        let actual: string | undefined
+        try {
+            // Explicit gas skips the estimation, so a reverted call is mined at the same timestamp
+            const overrides: PayableOverrides = { gasLimit: 1000000, gasPrice: 0 }
+            if (!value.isZero()) {
+                overrides.value = value
+            }
+            const tx = await sendCall(overrides)
+            await tx.wait()
+        } catch (e) {
+            actual = revertReason(e)
+        }
+
+        expect(actual, context).to.equal(expected)
+        return expected === undefined
+    }
+
+    async function changeFee(
+        thisObject: Mocha.Context,
+        context: string,
+        sender: SignerWithAddress,
+        newFee: BigNumber,
+        newIsAbsFee: boolean
+    ) {
+        const { chainId } = await ethers.provider.getNetwork()
+        const domain = { name: "TicTacToe", version: "1", chainId, verifyingContract: thisObject.TTT.address }
+        const types = {
+            changeFee: [
+                { name: "_fee", type: "uint256" },
+                { name: "_isAbsFee", type: "bool" },
+            ],
+        }
+        const signature = await thisObject.owner._signTypedData(domain, types, {
+            _fee: newFee.toString(),
+            _isAbsFee: newIsAbsFee,
+        })
+
+        return act(
+            context,
+            sender,
+            BigNumber.from(0),
+            () => referee.changeFee(newFee, newIsAbsFee),
+            (overrides) => thisObject.TTT.connect(sender).changeFee(newFee, newIsAbsFee, signature, overrides)
+        )
+    }
+
+    async function expectSameGame(thisObject: Mocha.Context, id: number, context: string) {
+        const onChain = normalizeGame(await thisObject.TTT.gameById(id))
+        expect(onChain, context).to.deep.equal(normalizeGame(referee.gameById(id)))
+    }
+
+    async function expectSameStatsAndBalances(thisObject: Mocha.Context, context: string) {
+        for (const player of players) {
+            const stats = await thisObject.TTT.statsBy(player.address)
+            expect(
+                {
+                    gameNum: stats.gameNum.toNumber(),
+                    drawNum: stats.drawNum.toNumber(),
+                    winNum: stats.winNum.toNumber(),
+                },
+                `${context}: stats of ${player.address}`
+            ).to.deep.equal(referee.statsBy(player.address))
+        }
+
+        const accounts = players.map((player) => player.address).concat(thisObject.TTT.address, thisObject.MSW.address)
+        for (const account of accounts) {
+            const ethBalance = await ethers.provider.getBalance(account)
+            expect(
+                ethBalance.sub(thisObject.initialBalances[account].eth).toString(),
+                `${context}: ETH of ${account}`
+            ).to.equal(referee.balanceChangeOf(account).toString())
+
+            const tokenBalance = await thisObject.token1.balanceOf(account)
+            expect(
+                tokenBalance.sub(thisObject.initialBalances[account].token).toString(),
+                `${context}: tokens of ${account}`
+            ).to.equal(referee.balanceChangeOf(account, thisObject.token1.address).toString())
+        }
+    }
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareERC20Tokens(this, this.owner)
+        await prepareMultiSigWallet(this, this.owner)
+        await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+
+        players = [this.alice, this.bob, this.carol, this.tema, this.misha]
+        for (const player of players) {
+            await this.token1.transfer(player.address, ethers.utils.parseUnits("10000", tokenDecimals))
+            await this.token1.connect(player).approve(this.TTT.address, ethers.constants.MaxUint256)
+        }
+
+        this.initialBalances = {}
+        const accounts = players.map((player) => player.address).concat(this.TTT.address, this.MSW.address)
+        for (const account of accounts) {
+            this.initialBalances[account] = {
+                eth: await ethers.provider.getBalance(account),
+                token: await this.token1.balanceOf(account),
+            }
+        }
+
+        referee = new TicTacToeReferee({ address: this.TTT.address, wallet: this.MSW.address, fee, isAbsFee: false })
+        clock = (await latest()).toNumber()
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+    })
+
+    it("should split the prize with the odd wei to P2 on a draw", async function () {
+        expect(prizeSplit(101, Players.Both)).to.deep.equal({ p1: BigNumber.from(50), p2: BigNumber.from(51) })
+        expect(prizeSplit(101, Players.P1)).to.deep.equal({ p1: BigNumber.from(101), p2: BigNumber.from(0) })
+        expect(prizeSplit(101, Players.P2)).to.deep.equal({ p1: BigNumber.from(0), p2: BigNumber.from(101) })
+        expect(prizeSplit(101, Players.None)).to.deep.equal({ p1: BigNumber.from(0), p2: BigNumber.from(0) })
+    })
+
+    it("should pay the odd wei of a draw to P2 like the contract", async function () {
+        const stake = ethers.utils.parseEther("1")
+        const zero = BigNumber.from(0)
+
+        await act(
+            "newMyGame",
+            this.misha,
+            stake,
+            (call) => referee.newMyGame(call, stake, ethAddress, 0),
+            (overrides) => this.TTT.connect(this.misha).newMyGame(stake, ethAddress, 0, overrides)
+        )
+        // A fee of 1 wei makes the amount odd
+        await changeFee(this, "changeFee", this.owner, BigNumber.from(1), true)
+        await act(
+            "join",
+            this.bob,
+            stake,
+            (call) => referee.join(call, 1),
+            (overrides) => this.TTT.connect(this.bob).join(1, overrides)
+        )
+
+        const moves = [
+            [0, 0],
+            [1, 1],
+            [2, 2],
+            [0, 2],
+            [2, 0],
+            [1, 0],
+            [1, 2],
+            [2, 1],
+            [0, 1],
+        ]
+        for (let i = 0; i < moves.length; i++) {
+            const [x, y] = moves[i]
+            const player = i % 2 ? this.bob : this.misha
+            await act(
+                `move ${x} ${y}`,
+                player,
+                zero,
+                (call) => referee.move(call, 1, x, y),
+                (overrides) => this.TTT.connect(player).move(1, x, y, overrides)
+            )
+        }
+
+        const game = referee.gameById(1)
+        expect(game.winner).to.equal(Players.Both)
+        expect(game.amount.mod(2).toNumber()).to.equal(1)
+
+        await act(
+            "sendPrize",
+            this.misha,
+            zero,
+            (call) => referee.sendPrize(call, 1),
+            (overrides) => this.TTT.connect(this.misha).sendPrize(1, overrides)
+        )
+        await act(
+            "sendPrize",
+            this.bob,
+            zero,
+            (call) => referee.sendPrize(call, 1),
+            (overrides) => this.TTT.connect(this.bob).sendPrize(1, overrides)
+        )
+
+        expect(referee.balanceChangeOf(this.bob.address).sub(referee.balanceChangeOf(this.misha.address))).to.equal(1)
+        await expectSameGame(this, 1, "draw")
+        await expectSameStatsAndBalances(this, "draw")
+    })
+
+    it("should cancel unjoined games and refund held fees like the contract", async function () {
+        const stake = ethers.utils.parseUnits("5", tokenDecimals)
+        const token = this.token1.address
+        const zero = BigNumber.from(0)
+
+        await act(
+            "newMyGame",
+            this.misha,
+            zero,
+            (call) => referee.newMyGame(call, stake, token, tokenDecimals),
+            (overrides) => this.TTT.connect(this.misha).newMyGame(stake, token, tokenDecimals, overrides)
+        )
+        await act(
+            "changeFeeRefund",
+            this.owner,
+            zero,
+            () => referee.changeFeeRefund(true),
+            (overrides) => this.TTT.changeFeeRefund(true, overrides)
+        )
+        await act(
+            "newMyGame with the held fee",
+            this.bob,
+            zero,
+            (call) => referee.newMyGame(call, stake, token, tokenDecimals),
+            (overrides) => this.TTT.connect(this.bob).newMyGame(stake, token, tokenDecimals, overrides)
+        )
+
+        const deadline = clock + 100
+        for (const [sender, id] of [
+            [this.bob, 1],
+            [this.misha, 1],
+            [this.bob, 2],
+        ] as [SignerWithAddress, number][]) {
+            await act(
+                `setJoinDeadline ${id}`,
+                sender,
+                zero,
+                (call) => referee.setJoinDeadline(call, id, deadline),
+                (overrides) => this.TTT.connect(sender).setJoinDeadline(id, deadline, overrides)
+            )
+        }
+
+        for (const [sender, id, step] of [
+            [this.carol, 1, 1],
+            [this.carol, 1, 200],
+            [this.misha, 1, 1],
+            [this.bob, 2, 1],
+            [this.carol, 3, 1],
+        ] as [SignerWithAddress, number, number][]) {
+            await act(
+                `cancel ${id}`,
+                sender,
+                zero,
+                (call) => referee.cancel(call, id),
+                (overrides) => this.TTT.connect(sender).cancel(id, overrides),
+                step
+            )
+        }
+        await act(
+            "join after the deadline",
+            this.carol,
+            zero,
+            (call) => referee.join(call, 2),
+            (overrides) => this.TTT.connect(this.carol).join(2, overrides)
+        )
+
+        await expectSameGame(this, 1, "cancelled by anyone")
+        await expectSameGame(this, 2, "cancelled with the held fee")
+        await expectSameStatsAndBalances(this, "cancel")
+        expect(referee.balanceChangeOf(this.bob.address, token)).to.equal(0)
+    })
+
+    it("should let only challenged and invited players join like the contract", async function () {
+        const stake = ethers.utils.parseUnits("5", tokenDecimals)
+        const token = this.token1.address
+        const zero = BigNumber.from(0)
+        const { chainId } = await ethers.provider.getNetwork()
+
+        for (const opponent of [this.misha.address, this.bob.address]) {
+            await act(
+                `newChallenge of ${opponent}`,
+                this.misha,
+                zero,
+                (call) => referee.newChallenge(call, stake, token, tokenDecimals, opponent),
+                (overrides) =>
+                    this.TTT.connect(this.misha).newChallenge(stake, token, tokenDecimals, opponent, overrides)
+            )
+        }
+        await act(
+            "newInviteGame",
+            this.misha,
+            zero,
+            (call) => referee.newInviteGame(call, stake, token, tokenDecimals),
+            (overrides) => this.TTT.connect(this.misha).newInviteGame(stake, token, tokenDecimals, overrides)
+        )
+        expect(referee.challengedPlayerOf(1)).to.equal(await this.TTT.challengedPlayerOf(1))
+        expect(referee.isInviteOnly(2)).to.equal(await this.TTT.isInviteOnly(2))
+
+        for (const [sender, id] of [
+            [this.carol, 1],
+            [this.bob, 2],
+            [this.bob, 1],
+        ] as [SignerWithAddress, number][]) {
+            await act(
+                `join ${id}`,
+                sender,
+                zero,
+                (call) => referee.join(call, id),
+                (overrides) => this.TTT.connect(sender).join(id, overrides)
+            )
+        }
+
+        const toCarol = await signInvite(this.misha, chainId, this.TTT.address, 2, this.carol.address, clock + 100)
+        const byBob = await signInvite(this.bob, chainId, this.TTT.address, 2, this.bob.address, clock + 100)
+        for (const [sender, invite, step] of [
+            [this.bob, toCarol, 1],
+            [this.bob, byBob, 1],
+            [this.carol, toCarol, 200],
+        ] as [SignerWithAddress, SignedInvite, number][]) {
+            await act(
+                `joinWithInvite of ${invite.signer}`,
+                sender,
+                zero,
+                (call) => referee.joinWithInvite(call, 2, invite),
+                (overrides) => this.TTT.connect(sender).joinWithInvite(2, invite.deadline, invite.signature, overrides),
+                step
+            )
+        }
+
+        const invite = await signInvite(this.misha, chainId, this.TTT.address, 2, this.carol.address, clock + 100)
+        await act(
+            "joinWithInvite",
+            this.carol,
+            zero,
+            (call) => referee.joinWithInvite(call, 2, invite),
+            (overrides) => this.TTT.connect(this.carol).joinWithInvite(2, invite.deadline, invite.signature, overrides)
+        )
+
+        await expectSameGame(this, 1, "challenge")
+        await expectSameGame(this, 2, "invite")
+        await expectSameStatsAndBalances(this, "challenges")
+    })
+
+    it("should play the rounds of a match and pay its winner like the contract", async function () {
+        const stake = ethers.utils.parseEther("1")
+        const zero = BigNumber.from(0)
+        const random = seededRandom(SEED)
+        const randomInt = (max: number): number => Math.floor(random() * max)
+
+        for (const rounds of [2, 5]) {
+            await act(
+                `newMatch of ${rounds} rounds`,
+                this.misha,
+                stake,
+                (call) => referee.newMatch(call, stake, ethAddress, 0, rounds),
+                (overrides) => this.TTT.connect(this.misha).newMatch(stake, ethAddress, 0, rounds, overrides)
+            )
+        }
+        await act(
+            "join",
+            this.bob,
+            stake,
+            (call) => referee.join(call, 1),
+            (overrides) => this.TTT.connect(this.bob).join(1, overrides)
+        )
+        await act(
+            "move in the match",
+            this.misha,
+            zero,
+            (call) => referee.move(call, 1, 0, 0),
+            (overrides) => this.TTT.connect(this.misha).move(1, 0, 0, overrides)
+        )
+
+        // Mostly the player of the turn moves to a random cell until the match is over, a round may time out
+        while (referee.gameById(1).phase !== Phase.Finished) {
+            const { roundId } = referee.matchById(1)
+            const round = referee.gameById(roundId)
+            const current = round.phase === Phase.P1Turn ? round.p1 : round.p2
+            const isCurrent = random() < 0.8
+            const player = (current === this.misha.address) === isCurrent ? this.misha : this.bob
+
+            if (random() < 0.02) {
+                await act(
+                    `getWinner of ${roundId}`,
+                    player,
+                    zero,
+                    (call) => referee.getWinner(call, roundId),
+                    (overrides) => this.TTT.connect(player).getWinner(roundId, overrides),
+                    24 * 60 * 60
+                )
+                continue
+            }
+
+            const [x, y] = [randomInt(3), randomInt(3)]
+            await act(
+                `move ${x} ${y} in ${roundId}`,
+                player,
+                zero,
+                (call) => referee.move(call, roundId, x, y),
+                (overrides) => this.TTT.connect(player).move(roundId, x, y, overrides)
+            )
+        }
+
+        const match = await this.TTT.matchById(1)
+        expect({
+            rounds: match.rounds,
+            roundNum: match.roundNum,
+            p1Wins: match.p1Wins,
+            p2Wins: match.p2Wins,
+            roundId: match.roundId.toNumber(),
+        }).to.deep.equal(referee.matchById(1))
+        for (let id = 1; id <= match.roundId.toNumber(); id++) {
+            await expectSameGame(this, id, `game ${id} of the match`)
+            expect(await this.TTT.matchOfRound(id)).to.equal(referee.matchOfRound(id))
+        }
+
+        for (const player of [this.misha, this.bob]) {
+            await act(
+                "sendPrize",
+                player,
+                zero,
+                (call) => referee.sendPrize(call, 1),
+                (overrides) => this.TTT.connect(player).sendPrize(1, overrides)
+            )
+        }
+        await expectSameStatsAndBalances(this, "match")
+    })
+
+    it(`should match the contract in ${GAMES} random games`, async function () {
+        this.timeout(0)
+
+        const random = seededRandom(SEED)
+        const zero = BigNumber.from(0)
+
+        const randomInt = (max: number): number => Math.floor(random() * max)
+        const pick = <T>(items: T[]): T => items[randomInt(items.length)]
+        const step = (): number => 1 + randomInt(60)
+
+        for (let n = 1; n <= GAMES; n++) {
+            const isToken = random() < 0.5
+            const tokenAddress = isToken ? this.token1.address : ethAddress
+            // Stakes are not round to get odd fees and amounts
+            const stake = isToken
+                ? BigNumber.from(randomInt(10000000))
+                : BigNumber.from(randomInt(1000000000)).mul(10000000).add(randomInt(10000000))
+            const stakeValue = (): BigNumber => {
+                if (isToken) {
+                    return zero
+                }
+                return random() < 0.1 ? stake.add(1) : stake
+            }
+            const context = (action: string) => `seed ${SEED}, game ${n}: ${action}`
+
+            const creator = pick(players)
+            let id = 0
+            if (random() < 0.5) {
+                await act(
+                    context("newGame"),
+                    creator,
+                    zero,
+                    (call) => (id = referee.newGame(call, stake, tokenAddress, tokenDecimals)),
+                    (overrides) => this.TTT.connect(creator).newGame(stake, tokenAddress, tokenDecimals, overrides),
+                    step()
+                )
+            } else {
+                const value = stakeValue()
+                const isCreated = await act(
+                    context("newMyGame"),
+                    creator,
+                    value,
+                    (call) => (id = referee.newMyGame(call, stake, tokenAddress, tokenDecimals)),
+                    (overrides) => this.TTT.connect(creator).newMyGame(stake, tokenAddress, tokenDecimals, overrides),
+                    step()
+                )
+                if (!isCreated) {
+                    continue
+                }
+            }
+
+            let claims = 0
+            for (let s = 0; s < 40 && claims < 2; s++) {
+                const game = referee.gameById(id)
+                const r = random()
+                const sender = pick(players)
+
+                if (game.phase === Phase.Join) {
+                    if (r < 0.05) {
+                        // Change the fee between joins to get odd amounts and fees over the stake
+                        const newIsAbsFee = random() < 0.5
+                        const newFee = newIsAbsFee
+                            ? BigNumber.from(randomInt(1000000000)).mul(1000000)
+                            : BigNumber.from(randomInt(1100000000)).mul(1000000000)
+                        await changeFee(this, context("changeFee"), sender, newFee, newIsAbsFee)
+                    } else if (r < 0.1) {
+                        await act(
+                            context("move before start"),
+                            sender,
+                            zero,
+                            (call) => referee.move(call, id, 0, 0),
+                            (overrides) => this.TTT.connect(sender).move(id, 0, 0, overrides),
+                            step()
+                        )
+                    } else {
+                        const value = stakeValue()
+                        await act(
+                            context("join"),
+                            sender,
+                            value,
+                            (call) => referee.join(call, id),
+                            (overrides) => this.TTT.connect(sender).join(id, overrides),
+                            step()
+                        )
+                    }
+                } else if (game.phase !== Phase.Finished) {
+                    const current = game.phase === Phase.P1Turn ? game.p1 : game.p2
+                    const mover = players.find((player) => player.address === current) as SignerWithAddress
+
+                    if (r < 0.7) {
+                        const cell = pick(emptyCells(game.board))
+                        await act(
+                            context(`move ${cell.x} ${cell.y}`),
+                            mover,
+                            zero,
+                            (call) => referee.move(call, id, cell.x, cell.y),
+                            (overrides) => this.TTT.connect(mover).move(id, cell.x, cell.y, overrides),
+                            step()
+                        )
+                    } else if (r < 0.8) {
+                        // Any player, any cell including taken and off the board ones
+                        const player = random() < 0.5 ? mover : sender
+                        const x = randomInt(4)
+                        const y = randomInt(4)
+                        await act(
+                            context(`random move ${x} ${y}`),
+                            player,
+                            zero,
+                            (call) => referee.move(call, id, x, y),
+                            (overrides) => this.TTT.connect(player).move(id, x, y, overrides),
+                            step()
+                        )
+                    } else if (r < 0.9) {
+                        // Jump right before, at or after the deadline
+                        const target = game.turnAt + randomInt(3) - 1
+                        const action = pick(["move", "getWinner"])
+                        const cell = pick(emptyCells(game.board))
+                        await act(
+                            context(`${action} at ${target - game.turnAt} from the deadline`),
+                            action === "move" ? mover : sender,
+                            zero,
+                            (call) =>
+                                action === "move"
+                                    ? referee.move(call, id, cell.x, cell.y)
+                                    : referee.getWinner(call, id),
+                            (overrides) =>
+                                action === "move"
+                                    ? this.TTT.connect(mover).move(id, cell.x, cell.y, overrides)
+                                    : this.TTT.connect(sender).getWinner(id, overrides),
+                            Math.max(target - clock, 1)
+                        )
+                    } else if (r < 0.95) {
+                        await act(
+                            context("getWinner"),
+                            sender,
+                            zero,
+                            (call) => referee.getWinner(call, id),
+                            (overrides) => this.TTT.connect(sender).getWinner(id, overrides),
+                            step()
+                        )
+                    } else {
+                        await act(
+                            context("sendPrize of active game"),
+                            sender,
+                            zero,
+                            (call) => referee.sendPrize(call, id),
+                            (overrides) => this.TTT.connect(sender).sendPrize(id, overrides),
+                            step()
+                        )
+                    }
+                } else {
+                    // Players claim the prize, sometimes twice, and others try to
+                    const claimer = r < 0.8 ? pick([game.p1, game.p2]) : sender.address
+                    const player = players.find((item) => item.address === claimer) as SignerWithAddress
+                    const isSent = await act(
+                        context("sendPrize"),
+                        player,
+                        zero,
+                        (call) => referee.sendPrize(call, id),
+                        (overrides) => this.TTT.connect(player).sendPrize(id, overrides),
+                        step()
+                    )
+                    claims += isSent && random() < 0.8 ? 2 : 1
+                }
+
+                await expectSameGame(this, id, context("state"))
+            }
+
+            await expectSameStatsAndBalances(this, context("end"))
+        }
+    })
+})
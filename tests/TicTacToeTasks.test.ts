@@ -0,0 +1,516 @@
+import { expect, use } from "chai"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { ethers, run, upgrades, waffle } from "hardhat"
+import { revert, snapshot } from "./utils/network"
+import { prepareERC20Tokens, prepareMultiSigWallet, prepareSigners, prepareTicTacToe } from "./utils/prepare"
+import { captureLogs, expectRejection, runTask } from "./utils/tasks"
+import { duration, increase, latest } from "./utils/time"
+
+use(waffle.solidity)
+
+describe("TicTacToe tasks", function () {
+    const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+    const plainDec18 = ethers.utils.parseUnits("1", 18)
+
+    let snapshotId: string
+    let tmpDir: string
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareERC20Tokens(this, this.owner)
+        await prepareMultiSigWallet(this, this.owner)
+        await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+
+        await this.token1.transfer(this.misha.address, ethers.utils.parseUnits("100", 6))
+        await this.token1.transfer(this.bob.address, ethers.utils.parseUnits("100", 6))
+
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "tictactoe-"))
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+        fs.rmSync(tmpDir, { recursive: true, force: true })
+    })
+
+    describe("stake as ETH", function () {
+        const stake = ethers.utils.parseEther("2")
+        const amountPerUser = stake.sub(fee.mul(stake).div(plainDec18))
+
+        it("should create own game and pay the stake", async function () {
+            const balanceBefore = await ethers.provider.getBalance(this.misha.address)
+
+            const id = await runTask("new", {
+                own: true,
+                stake: "2",
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+            expect(id).to.equal(1)
+
+            const balanceAfter = await ethers.provider.getBalance(this.misha.address)
+            expect(balanceAfter.add(stake)).to.equal(balanceBefore)
+
+            const game = await runTask("game", { id, address: this.TTT.address })
+            expect(game.p1).to.equal(this.misha.address)
+            expect(game.stake).to.equal("2.0")
+            expect(game.amount).to.equal(ethers.utils.formatEther(amountPerUser))
+        })
+
+        it("should create empty game and join it", async function () {
+            const id = await runTask("new", { stake: "2", from: this.misha.address, address: this.TTT.address })
+
+            await runTask("join", { id, from: this.misha.address, address: this.TTT.address })
+            await runTask("join", { id, from: this.bob.address, address: this.TTT.address })
+
+            const game = await this.TTT.gameById(id)
+            expect(game.p1).to.equal(this.misha.address)
+            expect(game.p2).to.equal(this.bob.address)
+            expect(game.phase).to.equal(1)
+            expect(game.amount).to.equal(amountPerUser.mul(2))
+        })
+
+        it("should play the game and claim the prize", async function () {
+            const id = await runTask("new", {
+                own: true,
+                stake: "2",
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+            await runTask("join", { id, from: this.bob.address, address: this.TTT.address })
+
+            const moves = [
+                { x: 0, y: 0, from: this.misha.address },
+                { x: 0, y: 1, from: this.bob.address },
+                { x: 1, y: 0, from: this.misha.address },
+                { x: 1, y: 1, from: this.bob.address },
+                { x: 2, y: 0, from: this.misha.address },
+            ]
+            for (const move of moves) {
+                await runTask("move", { id, ...move, address: this.TTT.address })
+            }
+
+            const game = await this.TTT.gameById(id)
+            expect(game.phase).to.equal(3)
+            expect(game.winner).to.equal(1)
+
+            const balanceBefore = await ethers.provider.getBalance(this.misha.address)
+            await runTask("claim-prize", { id, from: this.misha.address, address: this.TTT.address })
+            const balanceAfter = await ethers.provider.getBalance(this.misha.address)
+            expect(balanceAfter.sub(balanceBefore)).to.equal(amountPerUser.mul(2))
+
+            const stats = await runTask("stats", { user: this.misha.address, address: this.TTT.address })
+            expect(stats.gameNum).to.equal(1)
+            expect(stats.winNum).to.equal(1)
+
+            const winRate = await runTask("win-rate", { user: this.misha.address, address: this.TTT.address })
+            expect(winRate).to.equal(100)
+        })
+
+        it("should finish the game after turn timeout has expired", async function () {
+            const id = await runTask("new", {
+                own: true,
+                stake: "2",
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+            await runTask("join", { id, from: this.bob.address, address: this.TTT.address })
+            await runTask("move", { id, x: 1, y: 1, from: this.misha.address, address: this.TTT.address })
+
+            // Time jump
+            await increase(duration.days("2"))
+
+            const game = await runTask("finish", { id, from: this.misha.address, address: this.TTT.address })
+            expect(game.phase).to.equal("Finished")
+            expect(game.winner).to.equal("P1")
+        })
+
+        it("should fail finishing the game if the time for turn is not over", async function () {
+            const id = await runTask("new", {
+                own: true,
+                stake: "2",
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+
+            await expectRejection(
+                runTask("finish", { id, address: this.TTT.address }),
+                "TicTacToe: the time for turn is not over yet"
+            )
+
+            await runTask("join", { id, from: this.bob.address, address: this.TTT.address })
+
+            await expectRejection(
+                runTask("finish", { id, address: this.TTT.address }),
+                "TicTacToe: the time for turn is not over yet"
+            )
+        })
+
+        it("should cancel the game after the join deadline", async function () {
+            const deadline = (await latest()).add(duration.hours("1")).toNumber()
+            await expectRejection(
+                runTask("new", { stake: "2", deadline, address: this.TTT.address }),
+                "TicTacToe: only the first player can set the join deadline, use --own"
+            )
+            const id = await runTask("new", {
+                own: true,
+                stake: "2",
+                deadline,
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+            expect(await this.TTT.joinDeadlineOf(id)).to.equal(deadline)
+
+            await expectRejection(
+                runTask("cancel", { id, from: this.bob.address, address: this.TTT.address }),
+                "TicTacToe: only the first player can cancel the game before the join deadline"
+            )
+            await increase(duration.hours("2"))
+
+            const balanceBefore = await ethers.provider.getBalance(this.misha.address)
+            let game: any
+            const logs = await captureLogs(async () => {
+                game = await run("cancel", { id, from: this.bob.address, json: true, address: this.TTT.address })
+            })
+            expect(logs[0]).to.equal(`Refunded ${ethers.utils.formatEther(amountPerUser)} to ${this.misha.address}`)
+            expect(game).to.include({ phase: "Finished", winner: "None", amount: "0.0" })
+            expect(await ethers.provider.getBalance(this.misha.address)).to.equal(balanceBefore.add(amountPerUser))
+        })
+
+        it("should challenge the opponent and accept the challenge", async function () {
+            const { id } = await runTask("challenge", {
+                opponent: this.bob.address,
+                stake: "2",
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+            expect(await this.TTT.challengedPlayerOf(id)).to.equal(this.bob.address)
+
+            await expectRejection(
+                runTask("accept", { id, from: this.carol.address, address: this.TTT.address }),
+                `TicTacToe: game #${id} is a challenge of ${this.bob.address}`
+            )
+
+            const game = await runTask("accept", { id, from: this.bob.address, json: true, address: this.TTT.address })
+            expect(game).to.include({ p1: this.misha.address, p2: this.bob.address, phase: "P1Turn" })
+            expect(game.amount).to.equal(ethers.utils.formatEther(amountPerUser.mul(2)))
+        })
+
+        it("should accept the invite only before it has expired", async function () {
+            const file = path.join(tmpDir, "invite.json")
+            const { id, invite } = await runTask("challenge", {
+                opponent: this.bob.address,
+                stake: "2",
+                invite: true,
+                expires: 60 * 60,
+                out: file,
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+            expect(JSON.parse(fs.readFileSync(file, "utf8"))).to.deep.equal(invite)
+            expect(invite).to.include({ gameId: id, player: this.bob.address, signer: this.misha.address })
+
+            await expectRejection(
+                runTask("accept", { file, from: this.carol.address, address: this.TTT.address }),
+                `TicTacToe: the invite is for ${this.bob.address}, not for ${this.carol.address}`
+            )
+            await expectRejection(
+                runTask("join", { id, from: this.bob.address, address: this.TTT.address }),
+                "TicTacToe: the game requires an invite"
+            )
+
+            await increase(duration.hours("2"))
+            await expectRejection(
+                runTask("accept", { file, from: this.bob.address, address: this.TTT.address }),
+                "TicTacToe: the invite has expired"
+            )
+
+            // A new invite to the same game
+            await runTask("challenge", {
+                opponent: this.bob.address,
+                id,
+                out: file,
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+            const game = await runTask("accept", {
+                file,
+                from: this.bob.address,
+                json: true,
+                address: this.TTT.address,
+            })
+            expect(game).to.include({ p2: this.bob.address, phase: "P1Turn" })
+        })
+    })
+
+    describe("stake as ERC20 token", function () {
+        const stake = ethers.utils.parseUnits("10", 6)
+        const amountPerUser = stake.sub(fee.mul(stake).div(plainDec18))
+
+        it("should approve the allowance and create own game", async function () {
+            const id = await runTask("new", {
+                own: true,
+                stake: "10",
+                token: this.token1.address,
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+
+            const game = await this.TTT.gameById(id)
+            expect(game.tokenAddress).to.equal(this.token1.address)
+            expect(game.tokenDecimals).to.equal(6)
+            expect(game.stake).to.equal(stake)
+            expect(game.amount).to.equal(amountPerUser)
+
+            expect(await this.token1.balanceOf(this.TTT.address)).to.equal(amountPerUser)
+        })
+
+        it("should not approve again if the allowance is enough", async function () {
+            await this.token1.connect(this.bob).approve(this.TTT.address, stake.mul(2))
+
+            const id = await runTask("new", { stake: "10", token: this.token1.address, address: this.TTT.address })
+            await runTask("join", { id, from: this.bob.address, address: this.TTT.address })
+
+            expect(await this.token1.allowance(this.bob.address, this.TTT.address)).to.equal(stake)
+        })
+
+        it("should cancel the own game and refund the tokens", async function () {
+            const id = await runTask("new", {
+                own: true,
+                stake: "10",
+                token: this.token1.address,
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+
+            const balanceBefore = await this.token1.balanceOf(this.misha.address)
+            await runTask("cancel", { id, from: this.misha.address, address: this.TTT.address })
+            expect(await this.token1.balanceOf(this.misha.address)).to.equal(balanceBefore.add(amountPerUser))
+            expect(await this.token1.balanceOf(this.TTT.address)).to.equal(0)
+        })
+
+        it("should play the draw and split the prize", async function () {
+            const id = await runTask("new", { stake: "10", token: this.token1.address, address: this.TTT.address })
+            await runTask("join", { id, from: this.misha.address, address: this.TTT.address })
+            await runTask("join", { id, from: this.bob.address, address: this.TTT.address })
+
+            const moves = [
+                { x: 0, y: 0, from: this.misha.address },
+                { x: 1, y: 0, from: this.bob.address },
+                { x: 2, y: 0, from: this.misha.address },
+                { x: 1, y: 1, from: this.bob.address },
+                { x: 1, y: 2, from: this.misha.address },
+                { x: 0, y: 2, from: this.bob.address },
+                { x: 0, y: 1, from: this.misha.address },
+                { x: 2, y: 2, from: this.bob.address },
+                { x: 2, y: 1, from: this.misha.address },
+            ]
+            for (const move of moves) {
+                await runTask("move", { id, ...move, address: this.TTT.address })
+            }
+
+            const balanceMishaBefore = await this.token1.balanceOf(this.misha.address)
+            const balanceBobBefore = await this.token1.balanceOf(this.bob.address)
+
+            await runTask("claim-prize", { id, from: this.bob.address, address: this.TTT.address })
+            await runTask("claim-prize", { id, from: this.misha.address, later: true, address: this.TTT.address })
+            expect(await this.token1.balanceOf(this.misha.address)).to.equal(balanceMishaBefore)
+            await runTask("withdraw", {
+                token: this.token1.address,
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+
+            const balanceMishaAfter = await this.token1.balanceOf(this.misha.address)
+            const balanceBobAfter = await this.token1.balanceOf(this.bob.address)
+            expect(balanceMishaAfter.sub(balanceMishaBefore)).to.equal(amountPerUser)
+            expect(balanceBobAfter.sub(balanceBobBefore)).to.equal(amountPerUser)
+        })
+    })
+
+    describe("matches", function () {
+        const stake = ethers.utils.parseEther("2")
+        const amountPerUser = stake.sub(fee.mul(stake).div(plainDec18))
+
+        it("should play a match, follow its rounds and claim the prize", async function () {
+            const id = await runTask("match:new", {
+                stake: "2",
+                rounds: 3,
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+            await runTask("join", { id, from: this.bob.address, address: this.TTT.address })
+
+            await expectRejection(
+                runTask("match:claim", { id, from: this.misha.address, address: this.TTT.address }),
+                "TicTacToe: the match is not over yet, round 1 of 3"
+            )
+
+            // X wins both rounds, misha in the first one and bob in the second one
+            const players = [this.misha.address, this.bob.address]
+            for (const [x, o] of [players, players.slice().reverse()]) {
+                const { roundId } = await runTask("match:show", { id, json: true, address: this.TTT.address })
+                const moves = [
+                    { x: 0, y: 0, from: x },
+                    { x: 1, y: 0, from: o },
+                    { x: 0, y: 1, from: x },
+                    { x: 1, y: 1, from: o },
+                    { x: 0, y: 2, from: x },
+                ]
+                for (const move of moves) {
+                    await runTask("move", { id: roundId, ...move, address: this.TTT.address })
+                }
+            }
+
+            const match = await runTask("match:show", { id, json: true, address: this.TTT.address })
+            expect(match).to.include({ phase: "P1Turn", roundNum: 3, roundId: 4, p1Wins: 1, p2Wins: 1 })
+
+            let logs = await captureLogs(() => run("match:show", { id, address: this.TTT.address }))
+            expect(logs.join("\n")).to.include("Score:    1 - 1")
+            expect(logs.join("\n")).to.include("Round:    3 of 3, game #4")
+
+            // misha is X again in the last round and wins the match
+            for (const move of [
+                { x: 2, y: 0, from: this.misha.address },
+                { x: 1, y: 0, from: this.bob.address },
+                { x: 2, y: 1, from: this.misha.address },
+                { x: 1, y: 1, from: this.bob.address },
+                { x: 2, y: 2, from: this.misha.address },
+            ]) {
+                await runTask("move", { id: 4, ...move, address: this.TTT.address })
+            }
+
+            logs = await captureLogs(() => run("match:follow", { id, address: this.TTT.address }))
+            expect(logs.slice(1)).to.deep.equal([
+                `Round 1 of 3 (game #2) has started, X: ${this.misha.address}`,
+                `Round 1 of 3 (game #2): won by player 1 ${this.misha.address}`,
+                `Round 2 of 3 (game #3) has started, X: ${this.bob.address}`,
+                `Round 2 of 3 (game #3): won by player 2 ${this.bob.address}`,
+                `Round 3 of 3 (game #4) has started, X: ${this.misha.address}`,
+                `Round 3 of 3 (game #4): won by player 1 ${this.misha.address}`,
+                "Match over, score: 2 - 1, winner: P1",
+            ])
+
+            const balanceBefore = await ethers.provider.getBalance(this.misha.address)
+            await runTask("match:claim", { id, from: this.misha.address, address: this.TTT.address })
+            const balanceAfter = await ethers.provider.getBalance(this.misha.address)
+            expect(balanceAfter.sub(balanceBefore)).to.equal(amountPerUser.mul(2))
+
+            const stats = await runTask("stats", { user: this.misha.address, address: this.TTT.address })
+            expect(stats).to.deep.equal({ gameNum: 3, drawNum: 0, winNum: 2 })
+        })
+
+        it("should fail showing a game which is not a match", async function () {
+            await runTask("new", { stake: "2", address: this.TTT.address })
+
+            await expectRejection(
+                runTask("match:show", { id: 1, address: this.TTT.address }),
+                "TicTacToe: game #1 is not a match"
+            )
+            await expectRejection(
+                runTask("match:new", { stake: "2", rounds: 4, address: this.TTT.address }),
+                "TicTacToe: Invalid number of rounds"
+            )
+        })
+    })
+
+    describe("boards", function () {
+        it("should upgrade the contract and play on a bigger board", async function () {
+            const oldId = await runTask("new", {
+                own: true,
+                stake: "2",
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+
+            const implementation = await runTask("upgrade", { address: this.TTT.address })
+            expect(implementation).to.equal(await upgrades.erc1967.getImplementationAddress(this.TTT.address))
+
+            const id = await runTask("new", {
+                own: true,
+                stake: "2",
+                size: 7,
+                from: this.misha.address,
+                address: this.TTT.address,
+            })
+            await runTask("join", { id, from: this.bob.address, address: this.TTT.address })
+            await runTask("move", { id, x: 6, y: 5, from: this.misha.address, address: this.TTT.address })
+
+            const logs = await captureLogs(() => run("game", { id, address: this.TTT.address }))
+            expect(logs.join("\n")).to.include("Board:    7x7, 5 in a row to win")
+
+            const game = await runTask("game", { id, json: true, address: this.TTT.address })
+            expect(game.winLength).to.equal(5)
+            expect(game.board.length).to.equal(7)
+            expect(game.board[6][5]).to.equal(1)
+
+            // The game created before the upgrade keeps its 3x3 board
+            const oldGame = await runTask("game", { id: oldId, address: this.TTT.address })
+            expect(oldGame.board.length).to.equal(3)
+            expect(oldGame.winLength).to.equal(3)
+        })
+
+        it("should fail setting the win length without the size", async function () {
+            await expectRejection(
+                runTask("new", { stake: "2", winLength: 4, address: this.TTT.address }),
+                "TicTacToe: the win length is set with the size of the board, use --size"
+            )
+        })
+    })
+
+    describe("printing", function () {
+        beforeEach(async function () {
+            await runTask("new", { own: true, stake: "2", from: this.misha.address, address: this.TTT.address })
+            await runTask("join", { id: 1, from: this.bob.address, address: this.TTT.address })
+            await runTask("move", { id: 1, x: 2, y: 0, from: this.misha.address, address: this.TTT.address })
+            await runTask("move", { id: 1, x: 0, y: 1, from: this.bob.address, address: this.TTT.address })
+        })
+
+        it("should print the board with the same orientation as move", async function () {
+            const logs = await captureLogs(() => run("game", { id: 1, address: this.TTT.address }))
+            const output = logs.join("\n")
+
+            expect(output).to.include("Phase:    P1Turn")
+            expect(output).to.include("Winner:   None")
+            expect(output).to.include("Stake:    2.0 ETH")
+            expect(output).to.include(
+                ["y\\x  0   1   2", "0      |   | X", "    ---+---+---", "1    O |   |  "].join("\n")
+            )
+        })
+
+        it("should print the game as JSON", async function () {
+            const logs = await captureLogs(() => run("game", { id: 1, json: true, address: this.TTT.address }))
+            const game = JSON.parse(logs.join("\n"))
+
+            const { timestamp } = await ethers.provider.getBlock("latest")
+
+            expect(game.id).to.equal(1)
+            expect(game.phase).to.equal("P1Turn")
+            expect(game.winner).to.equal("None")
+            expect(game.board).to.deep.equal([
+                [0, 2, 0],
+                [0, 0, 0],
+                [1, 0, 0],
+            ])
+            expect(game.turnNum).to.equal(2)
+            expect(game.tokenDecimals).to.equal(18)
+            expect(game.stake).to.equal("2.0")
+            expect(game.turnAt).to.equal(new Date((timestamp + duration.days("1").toNumber()) * 1000).toISOString())
+        })
+
+        it("should print stats and win rate as JSON", async function () {
+            let logs = await captureLogs(() =>
+                run("stats", { user: this.bob.address, json: true, address: this.TTT.address })
+            )
+            expect(JSON.parse(logs[0])).to.deep.equal({ gameNum: 1, drawNum: 0, winNum: 0 })
+
+            logs = await captureLogs(() =>
+                run("win-rate", { user: this.bob.address, json: true, address: this.TTT.address })
+            )
+            expect(JSON.parse(logs[0])).to.deep.equal({ user: this.bob.address, winRate: 0 })
+        })
+    })
+})
@@ -1,18 +1,67 @@
 import { expect, use } from "chai"
-import { ethers, upgrades, waffle } from "hardhat"
-import { prepareMultiSigWallet, prepareSigners } from "./utils/prepare"
+import { Contract } from "ethers"
+import { artifacts, ethers, upgrades, waffle } from "hardhat"
+import { prepareMultiSigWallet, prepareSigners, prepareTicTacToe, upgradeTicTacToe } from "./utils/prepare"
 import { getImplementationAddress } from "@openzeppelin/upgrades-core"
+import { revert, snapshot } from "./utils/network"
+import { duration, increase } from "./utils/time"
+import { expectRejection, runTask } from "./utils/tasks"
+import { validateUpgrade } from "./utils/upgrades"
 
 use(waffle.solidity)
 
+// Moves of X and O in turn, X wins in the column x = 0
+const X_WINS = [
+    [0, 0],
+    [1, 0],
+    [0, 1],
+    [1, 1],
+    [0, 2],
+]
+
 describe("upgrade TicTacToe contract", function () {
     const fee = ethers.utils.parseUnits("1", 16) // 1% fee
+    const stake = ethers.utils.parseEther("1")
+    const tokenAddress = ethers.constants.AddressZero
+
+    let snapshotId: string
+
+    /**
+     * Deploy TicTacToe with `sendPrize` of the implementation before the claims were tracked,
+     * with the games of misha (X) and bob (O)
+     */
+    async function deployLegacy(thisObject: Mocha.Context, gameNum: number) {
+        const legacyFactory: any = await ethers.getContractFactory("TicTacToeLegacyMock")
+        const legacy = await upgrades.deployProxy(legacyFactory, [fee, false, thisObject.MSW.address], { kind: "uups" })
+        await legacy.deployed()
+        await legacy.untrackClaims()
+
+        for (let id = 1; id <= gameNum; id++) {
+            await legacy.connect(thisObject.misha).newMyGame(stake, tokenAddress, 0, { value: stake })
+            await legacy.connect(thisObject.bob).join(id, { value: stake })
+        }
+        return legacy
+    }
+
+    async function winAsX(thisObject: Mocha.Context, contract: Contract, id: number) {
+        for (let i = 0; i < X_WINS.length; i++) {
+            await contract.connect(i % 2 ? thisObject.bob : thisObject.misha).move(id, X_WINS[i][0], X_WINS[i][1])
+        }
+    }
 
     before(async function () {
         await prepareSigners(this)
         await prepareMultiSigWallet(this, this.owner)
     })
 
+    beforeEach(async function () {
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+    })
+
     it("upgrade to V2 and test function", async function () {
         const TTT: any = await ethers.getContractFactory("TicTacToe")
         const instance = await upgrades.deployProxy(TTT, [fee, false, this.MSW.address], { kind: "uups" })
@@ -35,5 +84,139 @@ describe("upgrade TicTacToe contract", function () {
 
         expect(upgraded.getDecimals).not.to.be.undefined
         expect(await upgraded.getDecimals()).to.equal(18)
+        expect(await upgraded.getOwnerAddress()).to.equal(this.MSW.address)
+    })
+
+    it("should keep playing 3x3 games created before the upgrade", async function () {
+        await prepareTicTacToe(this, this.owner, fee, false, this.MSW.address)
+        await this.TTT.connect(this.misha).newMyGame(stake, tokenAddress, 0, { value: stake })
+        await this.TTT.connect(this.bob).join(1, { value: stake })
+        await this.TTT.connect(this.misha).move(1, 0, 0)
+        await this.TTT.connect(this.bob).move(1, 0, 1)
+        await this.TTT.connect(this.misha).newMyGame(stake, tokenAddress, 0, { value: stake })
+
+        await upgradeTicTacToe(this)
+
+        const [size, winLength, board] = await this.TTT.boardOf(1)
+        expect(size).to.equal(3)
+        expect(winLength).to.equal(3)
+        expect(board.slice(0, 2)).to.deep.equal([1, 2])
+
+        await expect(this.TTT.connect(this.misha).move(1, 0, 1)).to.be.revertedWith(
+            "TicTacToe: cell on the board is already taken"
+        )
+        await expect(this.TTT.connect(this.misha).move(1, 3, 0)).to.be.revertedWith(
+            "TicTacToe: coordinates off the board"
+        )
+        await this.TTT.connect(this.misha).move(1, 1, 0)
+        await this.TTT.connect(this.bob).move(1, 1, 1)
+        await expect(this.TTT.connect(this.misha).move(1, 2, 0)).to.emit(this.TTT, "GameOver").withArgs(1, 1)
+
+        const game = await this.TTT.gameById(1)
+        expect(game.phase).to.equal(3)
+        expect(game.winner).to.equal(1)
+        expect(game.board[2][0]).to.equal(1)
+        expect((await this.TTT.statsBy(this.misha.address)).winNum).to.equal(1)
+        await expect(() => this.TTT.connect(this.misha).sendPrize(1)).to.changeEtherBalance(this.misha, game.amount)
+
+        // The game created before the upgrade can be joined and played on the old board
+        await this.TTT.connect(this.bob).join(2, { value: stake })
+        await this.TTT.connect(this.misha).move(2, 2, 2)
+        expect((await this.TTT.gameById(2)).board[2][2]).to.equal(1)
+    })
+
+    it("should not let the prizes sent by the legacy implementation be claimed again", async function () {
+        // The first game is finished and paid, the second one is finished after the upgrade
+        const legacy = await deployLegacy(this, 2)
+        await winAsX(this, legacy, 1)
+        const { amount } = await legacy.gameById(1)
+        await expect(() => legacy.sendLegacyPrize(1)).to.changeEtherBalance(this.misha, amount)
+
+        const factory: any = await ethers.getContractFactory("TicTacToe")
+        const upgraded = await upgrades.upgradeProxy(legacy.address, factory, {
+            call: { fn: "initializeClaims", args: [[]] },
+        })
+        await upgraded.deployed()
+
+        expect(await upgraded.claimsStartId()).to.equal(3)
+        await expect(upgraded.connect(this.misha).claimPrize(1)).to.be.revertedWith(
+            "TicTacToe: the prize was sent before the claims were tracked"
+        )
+        await expect(upgraded.initializeClaims([])).to.be.revertedWith("TicTacToe: the claims are already tracked")
+
+        await winAsX(this, upgraded, 2)
+        await expect(() => upgraded.connect(this.misha).sendPrize(2)).to.changeEtherBalance(this.misha, amount)
+
+        // New games are tracked as usual
+        await upgraded.connect(this.misha).newMyGame(stake, tokenAddress, 0, { value: stake })
+        await upgraded.connect(this.bob).join(3, { value: stake })
+        await upgraded.connect(this.misha).move(3, 1, 1)
+        await increase(duration.days("1").add(1))
+        await upgraded.getWinner(3)
+        await expect(() => upgraded.connect(this.misha).sendPrize(3)).to.changeEtherBalance(this.misha, amount)
+    })
+
+    it("should not let any prize be claimed until the claims are tracked", async function () {
+        const legacy = await deployLegacy(this, 1)
+        await winAsX(this, legacy, 1)
+        await legacy.sendLegacyPrize(1)
+
+        const factory: any = await ethers.getContractFactory("TicTacToeV2")
+        const upgraded = await upgrades.upgradeProxy(legacy.address, factory)
+        await upgraded.deployed()
+
+        expect(await upgraded.claimsStartId()).to.equal(0)
+        await expect(upgraded.connect(this.misha).claimPrize(1)).to.be.revertedWith(
+            "TicTacToe: the prize was sent before the claims were tracked"
+        )
+        await expect(upgraded.connect(this.misha).sendPrize(1)).to.be.revertedWith(
+            "TicTacToe: the prize was sent before the claims were tracked"
+        )
+    })
+
+    it("should track the claims in the upgrade task with the unpaid legacy games", async function () {
+        // The first game is paid, the second one is not paid and the third one is not finished before the upgrade
+        const legacy = await deployLegacy(this, 3)
+        await winAsX(this, legacy, 1)
+        await winAsX(this, legacy, 2)
+        const { amount } = await legacy.gameById(1)
+        await legacy.sendLegacyPrize(1)
+
+        await expectRejection(
+            runTask("upgrade", { address: legacy.address, unpaidGames: "2,3" }),
+            "TicTacToe: not a finished legacy game"
+        )
+        await runTask("upgrade", { address: legacy.address, unpaidGames: "2" })
+        const upgraded = await ethers.getContractAt("TicTacToeV2", legacy.address)
+
+        expect(await upgraded.claimsStartId()).to.equal(4)
+        await expect(upgraded.connect(this.misha).sendPrize(1)).to.be.revertedWith(
+            "TicTacToe: the prize was sent before the claims were tracked"
+        )
+        await expect(() => upgraded.connect(this.misha).sendPrize(2)).to.changeEtherBalance(this.misha, amount)
+        await expect(upgraded.connect(this.misha).sendPrize(2)).to.be.revertedWith(
+            "TicTacToe: the prize has already been claimed"
+        )
+
+        await winAsX(this, upgraded as unknown as Contract, 3)
+        await expect(() => upgraded.connect(this.misha).sendPrize(3)).to.changeEtherBalance(this.misha, amount)
+
+        await expectRejection(
+            runTask("upgrade", { address: legacy.address, unpaidGames: "1" }),
+            "TicTacToe: the claims are already tracked"
+        )
+    })
+
+    it("should keep the storage layout of TicTacToeV2 after the state of TicTacToe", async function () {
+        const factory = await ethers.getContractFactory("TicTacToe")
+        await validateUpgrade(factory, await ethers.getContractFactory("TicTacToeV2"))
+        await validateUpgrade(await ethers.getContractFactory("TicTacToeLegacyMock"), factory)
+
+        // New variables of TicTacToe take the slots of its gap, so the state of TicTacToeV2 does not move
+        const { sourceName } = await artifacts.readArtifact("TicTacToeV2")
+        const buildInfo = await artifacts.getBuildInfo(`${sourceName}:TicTacToeV2`)
+        const { storage } = (buildInfo?.output.contracts[sourceName].TicTacToeV2 as any).storageLayout
+        const slotOf = (label: string) => Number(storage.find((item: any) => item.label === label).slot)
+        expect(slotOf("boards") - slotOf("decimals")).to.equal(50)
     })
 })
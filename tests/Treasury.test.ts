@@ -0,0 +1,215 @@
+import { expect, use } from "chai"
+import { ethers, waffle } from "hardhat"
+import { revert, snapshot } from "./utils/network"
+import { prepareERC20Tokens, prepareMultiSigWallet, prepareSigners, prepareTicTacToe } from "./utils/prepare"
+import { expectRejection, runTask } from "./utils/tasks"
+
+use(waffle.solidity)
+
+describe("Treasury", function () {
+    const percentFee = ethers.utils.parseUnits("1", 16) // 1% fee
+    const absFee = ethers.utils.parseUnits("0.5", 18)
+    const ethAddress = ethers.constants.AddressZero
+
+    let snapshotId: string
+
+    /**
+     * Play the stakes of three games: ETH and both tokens, one of the token games has only one player
+     */
+    async function payStakes(thisObject: Mocha.Context) {
+        const ethStake = ethers.utils.parseEther("2")
+        await thisObject.TTT.connect(thisObject.misha).newMyGame(ethStake, ethAddress, 0, { value: ethStake })
+        await thisObject.TTT.connect(thisObject.bob).join(1, { value: ethStake })
+
+        const stake6 = ethers.utils.parseUnits("10", 6)
+        await thisObject.token1.approve(thisObject.TTT.address, stake6)
+        await thisObject.TTT.newMyGame(stake6, thisObject.token1.address, 6)
+        await thisObject.token1.connect(thisObject.alice).approve(thisObject.TTT.address, stake6)
+        await thisObject.TTT.connect(thisObject.alice).join(2)
+
+        const stake18 = ethers.utils.parseUnits("5", 18)
+        await thisObject.TTT.connect(thisObject.carol).newGame(stake18, thisObject.token18.address, 18)
+        await thisObject.token18.approve(thisObject.TTT.address, stake18)
+        await thisObject.TTT.join(3)
+    }
+
+    beforeEach(async function () {
+        await prepareSigners(this)
+        await prepareERC20Tokens(this, this.owner)
+        await prepareMultiSigWallet(this, this.owner)
+
+        const tokenFactory = await ethers.getContractFactory("ERC20DecimalsMock")
+        this.token18 = await tokenFactory.deploy("Token18", "TKN18", 18, ethers.utils.parseUnits("100000", 18))
+        await this.token18.deployed()
+
+        await this.token1.transfer(this.alice.address, ethers.utils.parseUnits("100", 6))
+
+        snapshotId = await snapshot()
+    })
+
+    afterEach(async function () {
+        await revert(snapshotId)
+    })
+
+    it("should add up percentage fees per token", async function () {
+        await prepareTicTacToe(this, this.owner, percentFee, false, this.MSW.address)
+        await payStakes(this)
+        // Not a fee, the wallet has more ETH than expected
+        await this.owner.sendTransaction({ to: this.MSW.address, value: ethers.utils.parseEther("1") })
+
+        const report = await runTask("treasury", { address: this.TTT.address })
+        expect(report.wallet).to.equal(this.MSW.address)
+        expect(report.fee).to.equal("1.0%")
+        expect(report.isAbsFee).to.be.false
+
+        expect(report.rows).to.deep.equal([
+            {
+                token: ethAddress,
+                symbol: "ETH",
+                decimals: 18,
+                games: 1,
+                stakes: 2,
+                expected: "0.04",
+                balance: "1.04",
+                difference: "1.0",
+            },
+            {
+                token: this.token1.address,
+                symbol: "TKN1",
+                decimals: 6,
+                games: 1,
+                stakes: 2,
+                expected: "0.2",
+                balance: "0.2",
+                difference: "0.0",
+            },
+            {
+                token: this.token18.address,
+                symbol: "TKN18",
+                decimals: 18,
+                games: 1,
+                stakes: 1,
+                expected: "0.05",
+                balance: "0.05",
+                difference: "0.0",
+            },
+        ])
+    })
+
+    it("should scale absolute fees to token decimals", async function () {
+        await prepareTicTacToe(this, this.owner, absFee, true, this.MSW.address)
+        await payStakes(this)
+
+        const report = await runTask("treasury", { address: this.TTT.address })
+        expect(report.fee).to.equal("0.5")
+        expect(report.isAbsFee).to.be.true
+        expect(report.rows.map((row: any) => [row.symbol, row.expected, row.balance])).to.deep.equal([
+            ["ETH", "1.0", "1.0"],
+            ["TKN1", "1.0", "1.0"],
+            ["TKN18", "0.5", "0.5"],
+        ])
+    })
+
+    it("should count the stakes of matches without their rounds", async function () {
+        await prepareTicTacToe(this, this.owner, absFee, true, this.MSW.address)
+        const stake = ethers.utils.parseEther("2")
+        await this.TTT.connect(this.misha).newMatch(stake, ethAddress, 0, 3, { value: stake })
+        // Joining the match starts its first round
+        await this.TTT.connect(this.bob).join(1, { value: stake })
+        expect(await this.TTT.matchOfRound(2)).to.equal(1)
+
+        const report = await runTask("treasury", { address: this.TTT.address })
+        expect(report.rows).to.deep.equal([
+            {
+                token: ethAddress,
+                symbol: "ETH",
+                decimals: 18,
+                games: 1,
+                stakes: 2,
+                expected: "1.0",
+                balance: "1.0",
+                difference: "0.0",
+            },
+        ])
+    })
+
+    it("should not count the fees held and refunded with cancelled games", async function () {
+        await prepareTicTacToe(this, this.owner, percentFee, false, this.MSW.address)
+        const stake = ethers.utils.parseEther("2")
+        // The fee of the first cancelled game has been paid, it is not refunded
+        await this.TTT.connect(this.misha).newMyGame(stake, ethAddress, 0, { value: stake })
+        await this.TTT.connect(this.misha).cancel(1)
+
+        await this.TTT.changeFeeRefund(true)
+        // The held fee is refunded with the second game and the third game is still waiting for the second player
+        for (let id = 2; id <= 4; id++) {
+            await this.TTT.connect(this.misha).newMyGame(stake, ethAddress, 0, { value: stake })
+        }
+        await this.TTT.connect(this.misha).cancel(2)
+        await this.TTT.connect(this.bob).join(4, { value: stake })
+
+        const report = await runTask("treasury", { address: this.TTT.address })
+        expect(report.rows).to.deep.equal([
+            {
+                token: ethAddress,
+                symbol: "ETH",
+                decimals: 18,
+                games: 4,
+                stakes: 3,
+                expected: "0.06",
+                balance: "0.06",
+                difference: "0.0",
+            },
+        ])
+    })
+
+    it("should draft and submit a sweep of the tokens", async function () {
+        await prepareTicTacToe(this, this.owner, percentFee, false, this.MSW.address)
+        await payStakes(this)
+
+        const draft = await runTask("treasury", {
+            sweep: `eth,${this.token1.address}`,
+            to: this.tema.address,
+            address: this.TTT.address,
+        })
+        expect(draft.calls).to.deep.equal([
+            { to: this.tema.address, value: ethers.utils.parseEther("0.04").toString(), data: "0x" },
+            {
+                to: this.token1.address,
+                value: "0",
+                data: this.token1.interface.encodeFunctionData("transfer", [
+                    this.tema.address,
+                    ethers.utils.parseUnits("0.2", 6),
+                ]),
+            },
+        ])
+        expect(await this.MSW.getTransactionCount()).to.equal(0)
+
+        const submitted = await runTask("treasury", {
+            sweep: `eth,${this.token1.address}`,
+            to: this.tema.address,
+            submit: true,
+            address: this.TTT.address,
+        })
+        expect(submitted.indexes).to.deep.equal([0, 1])
+
+        const ethBefore = await ethers.provider.getBalance(this.tema.address)
+        for (const index of submitted.indexes) {
+            await this.MSW.confirmTransaction(index)
+            await this.MSW.executeTransaction(index)
+        }
+        expect((await ethers.provider.getBalance(this.tema.address)).sub(ethBefore)).to.equal(
+            ethers.utils.parseEther("0.04")
+        )
+        expect(await this.token1.balanceOf(this.tema.address)).to.equal(ethers.utils.parseUnits("0.2", 6))
+    })
+
+    it("should fail sweeping a token the wallet does not have", async function () {
+        await prepareTicTacToe(this, this.owner, percentFee, false, this.MSW.address)
+
+        await expectRejection(
+            runTask("treasury", { sweep: this.token2.address, to: this.tema.address, address: this.TTT.address }),
+            "Treasury: the wallet has no TKN1 to sweep"
+        )
+    })
+})
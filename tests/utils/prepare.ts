@@ -1,6 +1,6 @@
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
 import { ethers, upgrades } from "hardhat"
-import { BigNumber } from "ethers"
+import { BigNumber, ContractFactory } from "ethers"
 
 export async function prepareSigners(thisObject: Mocha.Context) {
     thisObject.signers = await ethers.getSigners()
@@ -28,10 +28,14 @@ export async function prepareERC20Tokens(thisObject: Mocha.Context, signer: Sign
     thisObject.token3 = token3
 }
 
-export async function prepareCryptoTodo(thisObject: Mocha.Context, signer: SignerWithAddress) {
+export async function prepareCryptoTodo(
+    thisObject: Mocha.Context,
+    signer: SignerWithAddress,
+    beneficiary: string = signer.address
+) {
     const tokenFactory = await ethers.getContractFactory("CryptoTodo")
 
-    const CryptoTodo = await tokenFactory.connect(signer).deploy()
+    const CryptoTodo = await tokenFactory.connect(signer).deploy(beneficiary)
     await CryptoTodo.deployed()
     thisObject.CryptoTodo = CryptoTodo
 }
@@ -61,3 +65,13 @@ export async function prepareTicTacToe(
 
     thisObject.TTT = instance
 }
+
+export async function upgradeTicTacToe(thisObject: Mocha.Context) {
+    // Typechain factories do not match the ethers `ContractFactory` of the plugin
+    const factory = (await ethers.getContractFactory("TicTacToeV2")) as unknown as ContractFactory
+    const upgraded = await upgrades.upgradeProxy(thisObject.TTT.address, factory)
+
+    await upgraded.deployed()
+
+    thisObject.TTT = upgraded
+}
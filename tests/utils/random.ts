@@ -0,0 +1,8 @@
+// Deterministic random numbers for reproducible games
+export function seededRandom(seed: number): () => number {
+    let state = seed
+    return () => {
+        state = (state * 1103515245 + 12345) % 2147483648
+        return state / 2147483648
+    }
+}
@@ -0,0 +1,38 @@
+import { expect } from "chai"
+import { run } from "hardhat"
+
+export async function captureLogs(fn: () => Promise<unknown>): Promise<string[]> {
+    const logs: string[] = []
+    const { log } = console
+    console.log = (...args: unknown[]) => {
+        logs.push(args.map((arg) => (typeof arg === "string" ? arg : JSON.stringify(arg))).join(" "))
+    }
+
+    try {
+        await fn()
+    } finally {
+        console.log = log
+    }
+
+    return logs
+}
+
+export async function runTask(name: string, args: Record<string, unknown> = {}): Promise<any> {
+    let result
+    await captureLogs(async () => {
+        result = await run(name, args)
+    })
+    return result
+}
+
+export async function expectRejection(promise: Promise<unknown>, message: string): Promise<void> {
+    let error: Error | undefined
+    try {
+        await promise
+    } catch (e) {
+        error = e as Error
+    }
+
+    expect(error, "Expected promise to be rejected").to.not.be.undefined
+    expect(error?.message).to.include(message)
+}
@@ -0,0 +1,24 @@
+import { readValidations, withDefaults } from "@openzeppelin/hardhat-upgrades/dist/utils"
+import { assertStorageUpgradeSafe, assertUpgradeSafe, getStorageLayout, getVersion } from "@openzeppelin/upgrades-core"
+import { ContractFactory } from "ethers"
+import hre from "hardhat"
+
+/**
+ * Check that the new implementation is upgrade safe and keeps the storage layout of the reference one
+ * without deploying them, as `upgrades.validateUpgrade` of the later versions of the plugin does
+ */
+export async function validateUpgrade(
+    reference: Pick<ContractFactory, "bytecode">,
+    factory: Pick<ContractFactory, "bytecode">
+) {
+    const validations = await readValidations(hre)
+    const opts = withDefaults({ kind: "uups" })
+    const version = getVersion(factory.bytecode)
+
+    assertUpgradeSafe(validations, version, opts)
+    assertStorageUpgradeSafe(
+        getStorageLayout(validations, getVersion(reference.bytecode)),
+        getStorageLayout(validations, version),
+        opts
+    )
+}